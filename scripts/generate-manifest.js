@@ -0,0 +1,22 @@
+#!/usr/bin/env node
+/**
+ * Regenerate the "schema" section of openclaw.plugin.json from the zod
+ * config schema in src/config-schema.ts. Run through `npm run manifest`,
+ * which compiles first.
+ */
+
+const { readFileSync, writeFileSync } = require('node:fs');
+const { join } = require('node:path');
+const { PushConfigSchema, toJsonSchema } = require('../dist/config-schema');
+
+const manifestPath = join(__dirname, '..', 'openclaw.plugin.json');
+const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+manifest.schema = toJsonSchema(PushConfigSchema);
+
+// Keep short lists such as "required" and "enum" on one line.
+const json = JSON.stringify(manifest, null, 2).replace(
+  /\[\s*\n\s*((?:"[^"\n]*"|[-\d.]+|true|false)(?:,\s*\n\s*(?:"[^"\n]*"|[-\d.]+|true|false))*)\s*\n\s*\]/g,
+  (_, items) => `[${items.replace(/,\s*\n\s*/g, ', ')}]`
+);
+writeFileSync(manifestPath, `${json}\n`);
+console.log('Updated', manifestPath);
@@ -0,0 +1,62 @@
+/**
+ * Discord webhook backend
+ *
+ * Posts the notification as an embed, colored by priority, to a channel webhook.
+ * See https://discord.com/developers/docs/resources/webhook#execute-webhook
+ */
+
+import { sendWebhookRequest, truncate } from './webhook';
+import type { DiscordBackendConfig, PushBackend, PushBackendOptions, PushBackendResult, PushNotificationPayload } from '../types';
+
+/** Embed limits for title and description. */
+const DISCORD_TITLE_LIMIT = 256;
+const DISCORD_DESCRIPTION_LIMIT = 4096;
+
+const DISCORD_PRIORITY_COLOR: Record<PushNotificationPayload['priority'], number> = {
+  low: 0x95a5a6,
+  normal: 0x3498db,
+  high: 0xe74c3c,
+};
+
+export function toDiscordMessage(
+  payload: PushNotificationPayload,
+  config: Pick<DiscordBackendConfig, 'username' | 'highPriorityMention'> = {}
+) {
+  const footer = [`Priority: ${payload.priority}`, payload.agentId && `Agent: ${payload.agentId}`, payload.jobId && `Job: ${payload.jobId}`]
+    .filter(Boolean)
+    .join(' | ');
+
+  const subtitle = payload.subtitle ? `**${payload.subtitle}**\n` : '';
+
+  return {
+    ...(config.username && { username: config.username }),
+    // Embeds do not ping anyone; mentions only work in the message content.
+    ...(payload.priority === 'high' && config.highPriorityMention && { content: config.highPriorityMention }),
+    embeds: [
+      {
+        title: truncate(payload.title, DISCORD_TITLE_LIMIT),
+        description: truncate(`${subtitle}${payload.message}`, DISCORD_DESCRIPTION_LIMIT),
+        // Makes the title a link.
+        ...(payload.url && { url: payload.url }),
+        ...(payload.imageUrl && { image: { url: payload.imageUrl } }),
+        color: DISCORD_PRIORITY_COLOR[payload.priority],
+        timestamp: payload.timestamp,
+        footer: { text: footer },
+      },
+    ],
+  };
+}
+
+export function createDiscordBackend(config: DiscordBackendConfig, options: PushBackendOptions = {}): PushBackend {
+  return {
+    name: 'discord',
+    contentFields: ['url', 'imageUrl', 'subtitle'],
+    send: (payload: PushNotificationPayload, signal?: AbortSignal): Promise<PushBackendResult> =>
+      sendWebhookRequest(
+        config.webhookUrl,
+        { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(toDiscordMessage(payload, config)) },
+        signal,
+        options.fetch
+      ),
+  };
+}
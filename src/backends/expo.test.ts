@@ -0,0 +1,209 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PushNotificationPayload } from '../types';
+import { chunkTokens, createExpoBackend, EXPO_CHUNK_LIMIT, summarizeReceipts } from './expo';
+
+type RecordedRequest = { url?: string; headers: IncomingMessage['headers']; body: unknown };
+type ExpoMessages = Array<{ to: string }>;
+type Handler = (body: unknown, url?: string) => { status: number; body: unknown };
+
+const payload: PushNotificationPayload = {
+  message: 'Task completed',
+  title: 'OpenClaw Agent',
+  data: { step: 3 },
+  priority: 'high',
+  jobId: 'job-1',
+  agentId: 'agent-1',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  idempotencyKey: 'key-1',
+};
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let handler: Handler;
+
+function okTickets(body: unknown) {
+  return { status: 200, body: { data: (body as ExpoMessages).map((message) => ({ status: 'ok', id: `ticket-${message.to}` })) } };
+}
+
+describe('expo backend', () => {
+  beforeEach(async () => {
+    requests = [];
+    handler = okTickets;
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push({ url: req.url, headers: req.headers, body });
+        const reply = handler(body, req.url);
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('posts Expo messages to the configured base URL', async () => {
+    const backend = createExpoBackend({ tokens: ['ExponentPushToken[a]'], accessToken: 'expo-secret', baseUrl: `${baseUrl}/` });
+
+    const result = await backend.send(payload);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]?.url).toBe('/--/api/v2/push/send');
+    expect(requests[0]?.headers.authorization).toBe('Bearer expo-secret');
+    expect(requests[0]?.body).toEqual([
+      {
+        to: 'ExponentPushToken[a]',
+        title: 'OpenClaw Agent',
+        body: 'Task completed',
+        data: { step: 3, jobId: 'job-1', agentId: 'agent-1', timestamp: '2024-01-01T00:00:00.000Z' },
+        priority: 'high',
+      },
+    ]);
+    expect(result).toEqual({
+      success: true,
+      result: { delivered: 1, failed: 0 },
+      tickets: [{ token: 'ExponentPushToken[a]', status: 'ok', id: 'ticket-ExponentPushToken[a]' }],
+      receiptId: 'ticket-ExponentPushToken[a]',
+    });
+  });
+
+  it('maps rich content to Expo message fields', async () => {
+    const backend = createExpoBackend({ tokens: ['ExponentPushToken[a]'], baseUrl });
+
+    await backend.send({
+      ...payload,
+      url: 'myapp://jobs/job-1',
+      imageUrl: 'https://cdn.example/chart.png',
+      subtitle: 'Nightly build',
+      sound: 'default',
+      badge: 0,
+      ttlSeconds: 600,
+      channelId: 'builds',
+    });
+
+    expect(requests[0]?.body).toEqual([
+      expect.objectContaining({
+        data: expect.objectContaining({ url: 'myapp://jobs/job-1' }),
+        richContent: { image: 'https://cdn.example/chart.png' },
+        subtitle: 'Nightly build',
+        sound: 'default',
+        badge: 0,
+        ttl: 600,
+        channelId: 'builds',
+      }),
+    ]);
+    expect(backend.contentFields).not.toContain('threadId');
+  });
+
+  it('batches tokens into chunks of the Expo limit', async () => {
+    const tokens = Array.from({ length: EXPO_CHUNK_LIMIT + 5 }, (_, i) => `ExponentPushToken[${i}]`);
+    const backend = createExpoBackend({ tokens, baseUrl });
+
+    const result = await backend.send(payload);
+
+    expect(requests.map((request) => (request.body as unknown[]).length)).toEqual([EXPO_CHUNK_LIMIT, 5]);
+    expect(result.success).toBe(true);
+    expect(result.tickets).toHaveLength(tokens.length);
+  });
+
+  it('maps DeviceNotRegistered tickets into the result', async () => {
+    handler = (body) => ({
+      status: 200,
+      body: {
+        data: (body as ExpoMessages).map((message) =>
+          message.to === 'ExponentPushToken[gone]'
+            ? {
+                status: 'error',
+                message: '"ExponentPushToken[gone]" is not a registered push notification recipient',
+                details: { error: 'DeviceNotRegistered' },
+              }
+            : { status: 'ok', id: 'ticket-1' }
+        ),
+      },
+    });
+
+    const partial = await createExpoBackend({ tokens: ['ExponentPushToken[ok]', 'ExponentPushToken[gone]'], baseUrl }).send(payload);
+    expect(partial.success).toBe(true);
+    expect(partial.tickets?.[1]).toMatchObject({ status: 'error', code: 'DeviceNotRegistered' });
+
+    const failed = await createExpoBackend({ tokens: ['ExponentPushToken[gone]'], baseUrl }).send(payload);
+    expect(failed).toMatchObject({ success: false, code: 'DEVICE_UNREGISTERED' });
+    expect(failed.tickets?.[0]?.code).toBe('DeviceNotRegistered');
+    expect(failed.error).toContain('not a registered push notification recipient');
+  });
+
+  it('reports request-level errors for every token in the chunk', async () => {
+    handler = () => ({ status: 400, body: { errors: [{ code: 'VALIDATION_ERROR', message: 'Invalid push token' }] } });
+
+    const result = await createExpoBackend({ tokens: ['bad-1', 'bad-2'], baseUrl }).send(payload);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid push token');
+    expect(result.tickets).toEqual([
+      { token: 'bad-1', status: 'error', error: 'Invalid push token', code: 'VALIDATION_ERROR' },
+      { token: 'bad-2', status: 'error', error: 'Invalid push token', code: 'VALIDATION_ERROR' },
+    ]);
+  });
+
+  it('looks up receipts for comma-separated ticket IDs', async () => {
+    handler = () => ({
+      status: 200,
+      body: {
+        data: {
+          'ticket-1': { status: 'ok' },
+          'ticket-2': {
+            status: 'error',
+            message: 'The device cannot receive push notifications anymore',
+            details: { error: 'DeviceNotRegistered' },
+          },
+        },
+      },
+    });
+
+    const result = await createExpoBackend({ tokens: [], baseUrl }).getStatus?.('ticket-1, ticket-2,ticket-3');
+
+    expect(requests[0]?.url).toBe('/--/api/v2/push/getReceipts');
+    expect(requests[0]?.body).toEqual({ ids: ['ticket-1', 'ticket-2', 'ticket-3'] });
+    expect(result).toMatchObject({ success: true, state: 'delivered' });
+    expect(result?.receipts).toEqual([
+      { id: 'ticket-1', state: 'delivered' },
+      {
+        id: 'ticket-2',
+        state: 'unregistered',
+        reason: 'DeviceNotRegistered: The device cannot receive push notifications anymore',
+      },
+      { id: 'ticket-3', state: 'pending' },
+    ]);
+  });
+
+  it('summarizes device receipts into one state', () => {
+    expect(summarizeReceipts([])).toEqual({ state: 'pending' });
+    expect(summarizeReceipts([{ id: 'a', state: 'pending' }, { id: 'b', state: 'failed', reason: 'x' }])).toEqual({
+      state: 'pending',
+    });
+    expect(summarizeReceipts([{ id: 'a', state: 'unregistered', reason: 'gone' }])).toEqual({
+      state: 'unregistered',
+      reason: 'gone',
+    });
+    expect(
+      summarizeReceipts([
+        { id: 'a', state: 'failed', reason: 'MessageTooBig: too big' },
+        { id: 'b', state: 'unregistered', reason: 'gone' },
+      ])
+    ).toEqual({ state: 'failed', reason: 'MessageTooBig: too big' });
+  });
+
+  it('splits token lists into fixed-size chunks', () => {
+    expect(chunkTokens(['a', 'b', 'c'], 2)).toEqual([['a', 'b'], ['c']]);
+    expect(chunkTokens([], 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Expo Push API backend
+ *
+ * Sends notifications straight to Expo's push service for the configured
+ * Expo push tokens, so no relay service is needed for React Native / Expo apps.
+ * See https://docs.expo.dev/push-notifications/sending-notifications/
+ */
+
+import { readErrorMessageFromBody } from './http';
+import { codeForException, codeForStatus } from '../errors';
+import { isRetryableStatus, parseRetryAfter } from '../retry';
+import type {
+  ExpoBackendConfig,
+  PushBackend,
+  PushBackendOptions,
+  PushBackendResult,
+  PushErrorCode,
+  PushNotificationPayload,
+  PushReceipt,
+  PushStatusResult,
+  PushTicket,
+} from '../types';
+
+export const DEFAULT_EXPO_BASE_URL = 'https://exp.host';
+
+/** Expo rejects requests carrying more than 100 messages. */
+export const EXPO_CHUNK_LIMIT = 100;
+
+/** Receipt IDs per getReceipts request, as used by the official Expo SDK. */
+export const EXPO_RECEIPT_CHUNK_LIMIT = 300;
+
+interface ExpoPushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  priority: 'default' | 'normal' | 'high';
+  /** Notification category registered by the app, which defines its buttons */
+  categoryId?: string;
+  subtitle?: string;
+  sound?: string;
+  badge?: number;
+  ttl?: number;
+  channelId?: string;
+  richContent?: { image: string };
+}
+
+interface ChunkResult {
+  tickets: PushTicket[];
+  /** Set when the request for the whole chunk failed */
+  code?: PushErrorCode;
+  /** Set when the whole chunk failed transiently */
+  retry?: PushBackendResult['retry'];
+}
+
+/** Result codes for Expo's per-message errors; any other error rejects the message. */
+const EXPO_ERROR_CODES: Record<string, PushErrorCode> = {
+  DeviceNotRegistered: 'DEVICE_UNREGISTERED',
+  InvalidCredentials: 'AUTH',
+  MessageRateExceeded: 'RATE_LIMITED',
+};
+
+interface ExpoTicket {
+  status?: unknown;
+  id?: unknown;
+  message?: unknown;
+  details?: { error?: unknown };
+}
+
+const EXPO_PRIORITY: Record<PushNotificationPayload['priority'], ExpoPushMessage['priority']> = {
+  low: 'normal',
+  normal: 'default',
+  high: 'high',
+};
+
+interface ExpoReceipt {
+  status?: unknown;
+  message?: unknown;
+  details?: { error?: unknown };
+}
+
+export function chunkTokens(tokens: string[], size = EXPO_CHUNK_LIMIT): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < tokens.length; i += size) {
+    chunks.push(tokens.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function toExpoMessage(token: string, payload: PushNotificationPayload): ExpoPushMessage {
+  return {
+    to: token,
+    title: payload.title,
+    body: payload.message,
+    data: {
+      ...payload.data,
+      jobId: payload.jobId,
+      agentId: payload.agentId,
+      timestamp: payload.timestamp,
+      ...payload.origin,
+      ...(payload.responseId && { responseId: payload.responseId }),
+      ...(payload.responseUrl && { responseUrl: payload.responseUrl }),
+      // Expo Router and most linking setups open data.url on tap.
+      ...(payload.url && { url: payload.url }),
+    },
+    priority: EXPO_PRIORITY[payload.priority],
+    ...(payload.category && { categoryId: payload.category.id }),
+    ...(payload.subtitle && { subtitle: payload.subtitle }),
+    ...(payload.sound && { sound: payload.sound }),
+    ...(payload.badge !== undefined && { badge: payload.badge }),
+    ...(payload.ttlSeconds !== undefined && { ttl: payload.ttlSeconds }),
+    ...(payload.channelId && { channelId: payload.channelId }),
+    ...(payload.imageUrl && { richContent: { image: payload.imageUrl } }),
+  };
+}
+
+function toPushTicket(token: string, ticket: ExpoTicket | undefined): PushTicket {
+  if (ticket?.status === 'ok') {
+    return {
+      token,
+      status: 'ok',
+      id: typeof ticket.id === 'string' ? ticket.id : undefined,
+    };
+  }
+  return {
+    token,
+    status: 'error',
+    error: typeof ticket?.message === 'string' ? ticket.message : 'Expo returned no ticket for this token',
+    code: typeof ticket?.details?.error === 'string' ? ticket.details.error : undefined,
+  };
+}
+
+function toPushReceipt(id: string, receipt: ExpoReceipt | undefined): PushReceipt {
+  // Receipts appear some time after sending; a missing one is not ready yet.
+  if (!receipt) {
+    return { id, state: 'pending' };
+  }
+  if (receipt.status === 'ok') {
+    return { id, state: 'delivered' };
+  }
+  const code = typeof receipt.details?.error === 'string' ? receipt.details.error : undefined;
+  const message = typeof receipt.message === 'string' ? receipt.message : 'Unknown error';
+  return {
+    id,
+    state: code === 'DeviceNotRegistered' ? 'unregistered' : 'failed',
+    reason: code ? `${code}: ${message}` : message,
+  };
+}
+
+/**
+ * Overall state for several device receipts: delivered if any device got it,
+ * pending while any is outstanding, otherwise the first failure.
+ */
+export function summarizeReceipts(receipts: PushReceipt[]): Pick<PushReceipt, 'state' | 'reason'> {
+  if (receipts.some((receipt) => receipt.state === 'delivered')) {
+    return { state: 'delivered' };
+  }
+  if (receipts.length === 0 || receipts.some((receipt) => receipt.state === 'pending')) {
+    return { state: 'pending' };
+  }
+  const unregistered = receipts.every((receipt) => receipt.state === 'unregistered');
+  return { state: unregistered ? 'unregistered' : 'failed', reason: receipts[0]?.reason };
+}
+
+async function sendChunk(
+  url: string,
+  headers: Record<string, string>,
+  tokens: string[],
+  payload: PushNotificationPayload,
+  signal?: AbortSignal,
+  fetchImpl: typeof fetch = fetch
+): Promise<ChunkResult> {
+  const failAll = (error: string, resultCode: PushErrorCode, expoCode?: string, retry?: ChunkResult['retry']): ChunkResult => ({
+    tickets: tokens.map((token) => ({ token, status: 'error', error, code: expoCode })),
+    code: resultCode,
+    retry,
+  });
+
+  try {
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(tokens.map((token) => toExpoMessage(token, payload))),
+      signal,
+    });
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      body = undefined;
+    }
+
+    const errors = (body as { errors?: Array<{ code?: unknown; message?: unknown }> } | undefined)?.errors;
+    if (!response.ok || !Array.isArray((body as { data?: unknown } | undefined)?.data)) {
+      const first = Array.isArray(errors) ? errors[0] : undefined;
+      const message =
+        (typeof first?.message === 'string' && first.message) ||
+        readErrorMessageFromBody(body) ||
+        `${response.status} ${response.statusText}`;
+      return failAll(
+        message,
+        codeForStatus(response.status),
+        typeof first?.code === 'string' ? first.code : undefined,
+        isRetryableStatus(response.status) ? { afterMs: parseRetryAfter(response.headers.get('Retry-After')) } : undefined
+      );
+    }
+
+    const tickets = (body as { data: ExpoTicket[] }).data;
+    return { tickets: tokens.map((token, index) => toPushTicket(token, tickets[index])) };
+  } catch (error) {
+    const code = codeForException(error, signal);
+    return failAll(error instanceof Error ? error.message : 'Unknown error', code, undefined, code === 'CANCELLED' ? undefined : {});
+  }
+}
+
+export function createExpoBackend(config: ExpoBackendConfig, options: PushBackendOptions = {}): PushBackend {
+  const baseUrl = (config.baseUrl || DEFAULT_EXPO_BASE_URL).replace(/\/+$/, '');
+  const url = `${baseUrl}/--/api/v2/push/send`;
+
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'Content-Type': 'application/json',
+  };
+  if (config.accessToken) {
+    headers['Authorization'] = `Bearer ${config.accessToken}`;
+  }
+
+  return {
+    name: 'expo',
+    // Expo has no thread or collapse identifiers.
+    contentFields: ['url', 'imageUrl', 'subtitle', 'sound', 'badge', 'ttlSeconds', 'channelId'],
+    send: async (payload: PushNotificationPayload, signal?: AbortSignal): Promise<PushBackendResult> => {
+      const tickets: PushTicket[] = [];
+      const chunkResults: ChunkResult[] = [];
+      for (const chunk of chunkTokens(config.tokens)) {
+        const chunkResult = await sendChunk(url, headers, chunk, payload, signal, options.fetch);
+        chunkResults.push(chunkResult);
+        tickets.push(...chunkResult.tickets);
+      }
+
+      const delivered = tickets.filter((ticket) => ticket.status === 'ok');
+      if (delivered.length > 0) {
+        const ticketIds = delivered.map((ticket) => ticket.id).filter((id): id is string => Boolean(id));
+        return {
+          success: true,
+          result: { delivered: delivered.length, failed: tickets.length - delivered.length },
+          tickets,
+          receiptId: ticketIds.length ? ticketIds.join(',') : undefined,
+        };
+      }
+
+      // Nothing was delivered: retry only if every chunk failed transiently,
+      // so devices that already received the notification are not pinged twice.
+      const transient = chunkResults.length > 0 && chunkResults.every((chunkResult) => chunkResult.retry);
+      const retryAfter = chunkResults
+        .map((chunkResult) => chunkResult.retry?.afterMs)
+        .filter((afterMs): afterMs is number => afterMs !== undefined);
+
+      const firstError = tickets[0];
+      const unregistered = tickets.length > 0 && tickets.every((ticket) => ticket.code === 'DeviceNotRegistered');
+      let code: PushErrorCode = 'NOT_CONFIGURED';
+      if (unregistered) {
+        code = 'DEVICE_UNREGISTERED';
+      } else if (firstError) {
+        code = chunkResults.find((chunkResult) => chunkResult.code)?.code ?? EXPO_ERROR_CODES[firstError.code ?? ''] ?? 'BACKEND_4XX';
+      }
+      return {
+        success: false,
+        error: `Failed to send notification: ${firstError?.error ?? 'No Expo push tokens configured'}`,
+        code,
+        tickets,
+        retry: transient ? { afterMs: retryAfter.length ? Math.max(...retryAfter) : undefined } : undefined,
+      };
+    },
+
+    getStatus: async (receiptId: string, signal?: AbortSignal): Promise<PushStatusResult> => {
+      const ids = receiptId
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean);
+      const receipts: PushReceipt[] = [];
+
+      try {
+        for (const chunk of chunkTokens(ids, EXPO_RECEIPT_CHUNK_LIMIT)) {
+          const response = await (options.fetch ?? fetch)(`${baseUrl}/--/api/v2/push/getReceipts`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ ids: chunk }),
+            signal,
+          });
+
+          let body: unknown;
+          try {
+            body = await response.json();
+          } catch {
+            body = undefined;
+          }
+
+          const data = (body as { data?: Record<string, ExpoReceipt> } | undefined)?.data;
+          if (!response.ok || !data || typeof data !== 'object') {
+            const errors = (body as { errors?: Array<{ message?: unknown }> } | undefined)?.errors;
+            const first = Array.isArray(errors) ? errors[0] : undefined;
+            const message =
+              (typeof first?.message === 'string' && first.message) || `${response.status} ${response.statusText}`;
+            return { success: false, receiptId, error: `Failed to look up receipt: ${message}`, code: codeForStatus(response.status) };
+          }
+
+          receipts.push(...chunk.map((id) => toPushReceipt(id, data[id])));
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, receiptId, error: `Failed to look up receipt: ${errorMessage}`, code: codeForException(error, signal) };
+      }
+
+      return { success: true, receiptId, ...summarizeReceipts(receipts), receipts };
+    },
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * HTTP relay backend
+ *
+ * Sends the notification payload to a self-hosted relay service which is
+ * responsible for fanning out to devices (see README "Backend API").
+ */
+
+import { codeForException, codeForStatus } from '../errors';
+import { isRetryableStatus, parseRetryAfter } from '../retry';
+import { signRequest } from '../signing';
+import type {
+  PushBackend,
+  PushBackendOptions,
+  PushBackendResult,
+  PushDeliveryState,
+  PushNotificationConfig,
+  PushNotificationPayload,
+  PushResponseResult,
+  PushStatusResult,
+} from '../types';
+
+const DELIVERY_STATES: PushDeliveryState[] = ['pending', 'delivered', 'failed', 'unregistered'];
+
+export function readErrorMessageFromBody(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+  const payload = body as { error?: unknown; message?: unknown };
+  if (typeof payload.error === 'string' && payload.error.trim()) {
+    return payload.error;
+  }
+  if (typeof payload.message === 'string' && payload.message.trim()) {
+    return payload.message;
+  }
+  return undefined;
+}
+
+/**
+ * Receipt ID from a backend response (see PushNotificationResponse).
+ */
+export function readReceiptIdFromBody(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+  const { receiptId } = body as { receiptId?: unknown };
+  return typeof receiptId === 'string' && receiptId ? receiptId : undefined;
+}
+
+export function createHttpBackend(config: PushNotificationConfig & { backendUrl: string }, options: PushBackendOptions = {}): PushBackend {
+  const backendUrl = config.backendUrl.replace(/\/+$/, '');
+
+  const buildHeaders = (body = ''): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    // Add API key if configured
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+    // Signed per request, so retries get a fresh timestamp and nonce
+    if (config.signing?.secret) {
+      Object.assign(headers, signRequest(body, config.signing));
+    }
+    return headers;
+  };
+
+  return {
+    name: 'http',
+    send: async (payload: PushNotificationPayload, signal?: AbortSignal): Promise<PushBackendResult> => {
+      const body = JSON.stringify(payload);
+      const headers: Record<string, string> = {
+        ...buildHeaders(body),
+        'Content-Type': 'application/json',
+        'Idempotency-Key': payload.idempotencyKey,
+      };
+
+      try {
+        // Send notification to backend
+        const response = await (options.fetch ?? fetch)(`${backendUrl}/api/notifications/send`, {
+          method: 'POST',
+          headers,
+          body,
+          signal,
+        });
+
+        if (!response.ok) {
+          let errorMessage = `${response.status} ${response.statusText}`;
+          try {
+            const errorBody = (await response.json()) as unknown;
+            errorMessage = readErrorMessageFromBody(errorBody) || errorMessage;
+          } catch {
+            // Response wasn't JSON, use status text.
+          }
+
+          return {
+            success: false,
+            error: `Failed to send notification: ${errorMessage}`,
+            code: codeForStatus(response.status),
+            retry: isRetryableStatus(response.status)
+              ? { afterMs: parseRetryAfter(response.headers.get('Retry-After')) }
+              : undefined,
+          };
+        }
+
+        let result: unknown;
+        try {
+          result = await response.json();
+        } catch {
+          result = { success: true };
+        }
+
+        return {
+          success: true,
+          result,
+          receiptId: readReceiptIdFromBody(result),
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        // Network errors and timeouts are transient; a cancelled request is not.
+        const code = codeForException(error, signal);
+        return {
+          success: false,
+          error: `Failed to send notification: ${errorMessage}`,
+          code,
+          retry: code === 'CANCELLED' ? undefined : {},
+        };
+      }
+    },
+
+    getStatus: async (receiptId: string, signal?: AbortSignal): Promise<PushStatusResult> => {
+      try {
+        const response = await (options.fetch ?? fetch)(`${backendUrl}/api/notifications/receipts/${encodeURIComponent(receiptId)}`, {
+          method: 'GET',
+          headers: buildHeaders(),
+          signal,
+        });
+
+        let body: unknown;
+        try {
+          body = await response.json();
+        } catch {
+          body = undefined;
+        }
+
+        if (!response.ok) {
+          const errorMessage = readErrorMessageFromBody(body) || `${response.status} ${response.statusText}`;
+          return { success: false, receiptId, error: `Failed to look up receipt: ${errorMessage}`, code: codeForStatus(response.status) };
+        }
+
+        const { status, reason } = (body ?? {}) as { status?: unknown; reason?: unknown };
+        if (!DELIVERY_STATES.includes(status as PushDeliveryState)) {
+          return { success: false, receiptId, error: 'Failed to look up receipt: backend returned no delivery status', code: 'NOT_SUPPORTED' };
+        }
+
+        return {
+          success: true,
+          receiptId,
+          state: status as PushDeliveryState,
+          reason: typeof reason === 'string' ? reason : undefined,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, receiptId, error: `Failed to look up receipt: ${errorMessage}`, code: codeForException(error, signal) };
+      }
+    },
+
+    getResponse: async (responseId: string, signal?: AbortSignal): Promise<PushResponseResult> => {
+      try {
+        const response = await (options.fetch ?? fetch)(`${backendUrl}/api/notifications/responses/${encodeURIComponent(responseId)}`, {
+          method: 'GET',
+          headers: buildHeaders(),
+          signal,
+        });
+
+        // The relay has not heard from the device yet.
+        if (response.status === 404) {
+          return { success: true, state: 'pending' };
+        }
+
+        let body: unknown;
+        try {
+          body = await response.json();
+        } catch {
+          body = undefined;
+        }
+
+        if (!response.ok) {
+          const errorMessage = readErrorMessageFromBody(body) || `${response.status} ${response.statusText}`;
+          return { success: false, error: `Failed to look up response: ${errorMessage}` };
+        }
+
+        const { status, action, respondedAt } = (body ?? {}) as { status?: unknown; action?: unknown; respondedAt?: unknown };
+        if (status !== 'answered' || typeof action !== 'string') {
+          return { success: true, state: 'pending' };
+        }
+        return {
+          success: true,
+          state: 'answered',
+          action,
+          respondedAt: typeof respondedAt === 'string' ? respondedAt : undefined,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        return { success: false, error: `Failed to look up response: ${errorMessage}` };
+      }
+    },
+  };
+}
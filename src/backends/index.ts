@@ -0,0 +1,110 @@
+/**
+ * Delivery backend selection
+ *
+ * The `backend` field in the plugin config picks the implementation;
+ * it defaults to the HTTP relay for backward compatibility.
+ */
+
+import { createDiscordBackend } from './discord';
+import { createExpoBackend } from './expo';
+import { createHttpBackend } from './http';
+import { createNtfyBackend } from './ntfy';
+import { createSlackBackend } from './slack';
+import { createWebhookBackend } from './webhook';
+import { createWebPushBackend } from './webpush';
+import { resolveConfigSecrets } from '../secrets';
+import type { PushBackend, PushBackendOptions, PushContentField, PushNotificationConfig, PushNotificationPayload } from '../types';
+
+/** Every rich content field, in the order they are reported. */
+export const PUSH_CONTENT_FIELDS: readonly PushContentField[] = [
+  'url',
+  'imageUrl',
+  'subtitle',
+  'sound',
+  'badge',
+  'threadId',
+  'collapseKey',
+  'ttlSeconds',
+  'channelId',
+];
+
+export type PushBackendResolution = { backend: PushBackend; error?: undefined } | { backend?: undefined; error: string };
+
+function notConfigured(field: string): string {
+  return `Push notification plugin not configured. Set plugins.entries["push-notification"].config.${field} in openclaw.json`;
+}
+
+/**
+ * Rich content fields set on the payload that the backend cannot deliver.
+ */
+export function unsupportedContentFields(
+  backend: Pick<PushBackend, 'contentFields'>,
+  payload: Partial<PushNotificationPayload>
+): PushContentField[] {
+  const supported = backend.contentFields ?? PUSH_CONTENT_FIELDS;
+  return PUSH_CONTENT_FIELDS.filter((field) => payload[field] !== undefined && !supported.includes(field));
+}
+
+/**
+ * Create the backend the config selects. Secret references in its
+ * credentials are resolved now, so each send reads their current values.
+ */
+export function resolvePushBackend(unresolved: PushNotificationConfig, options: PushBackendOptions = {}): PushBackendResolution {
+  const { config, error } = resolveConfigSecrets(unresolved);
+  if (!config) {
+    return { error: `Cannot resolve secret ${error}` };
+  }
+  const name = config.backend ?? 'http';
+
+  switch (name) {
+    case 'http': {
+      if (!config.backendUrl) {
+        return { error: notConfigured('backendUrl') };
+      }
+      return { backend: createHttpBackend({ ...config, backendUrl: config.backendUrl }, options) };
+    }
+    case 'expo': {
+      if (!config.expo?.tokens?.length) {
+        return { error: notConfigured('expo.tokens') };
+      }
+      return { backend: createExpoBackend(config.expo, options) };
+    }
+    case 'slack': {
+      if (!config.slack?.webhookUrl) {
+        return { error: notConfigured('slack.webhookUrl') };
+      }
+      return { backend: createSlackBackend(config.slack, options) };
+    }
+    case 'discord': {
+      if (!config.discord?.webhookUrl) {
+        return { error: notConfigured('discord.webhookUrl') };
+      }
+      return { backend: createDiscordBackend(config.discord, options) };
+    }
+    case 'ntfy': {
+      if (!config.ntfy?.topic) {
+        return { error: notConfigured('ntfy.topic') };
+      }
+      return { backend: createNtfyBackend(config.ntfy, options) };
+    }
+    case 'webhook': {
+      if (!config.webhook?.url) {
+        return { error: notConfigured('webhook.url') };
+      }
+      return { backend: createWebhookBackend(config.webhook, options) };
+    }
+    case 'webpush': {
+      if (!config.webpush?.vapid) {
+        return { error: notConfigured('webpush.vapid') };
+      }
+      if (!config.webpush.subscriptions?.length) {
+        return { error: notConfigured('webpush.subscriptions') };
+      }
+      return { backend: createWebPushBackend(config.webpush, options) };
+    }
+    default:
+      return { error: `Unknown push notification backend "${String(name)}"` };
+  }
+}
+
+export { createDiscordBackend, createExpoBackend, createHttpBackend, createNtfyBackend, createSlackBackend, createWebhookBackend, createWebPushBackend };
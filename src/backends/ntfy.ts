@@ -0,0 +1,78 @@
+/**
+ * ntfy backend
+ *
+ * Publishes the message to an ntfy topic, with title, priority and tags
+ * passed as headers. Works with ntfy.sh and self-hosted servers.
+ * See https://docs.ntfy.sh/publish/
+ */
+
+import { sendWebhookRequest } from './webhook';
+import type { NtfyBackendConfig, PushBackend, PushBackendOptions, PushBackendResult, PushNotificationPayload } from '../types';
+
+export const DEFAULT_NTFY_BASE_URL = 'https://ntfy.sh';
+
+/** ntfy priorities run from 1 (min) to 5 (max); 3 is the default. */
+const NTFY_PRIORITY: Record<PushNotificationPayload['priority'], string> = {
+  low: '2',
+  normal: '3',
+  high: '5',
+};
+
+const NTFY_PRIORITY_TAGS: Record<PushNotificationPayload['priority'], string[]> = {
+  low: [],
+  normal: [],
+  high: ['rotating_light'],
+};
+
+/**
+ * Header values must be ASCII; ntfy decodes RFC 2047 encoded words.
+ */
+export function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * ntfy action buttons for an ask_user notification: each one POSTs its
+ * action ID to the response URL. Without a response URL there is nothing
+ * for the buttons to do, so none are sent.
+ * See https://docs.ntfy.sh/publish/#action-buttons
+ */
+export function toNtfyActions(payload: PushNotificationPayload): string | undefined {
+  if (!payload.category || !payload.responseUrl) {
+    return undefined;
+  }
+  const quote = (value: string) => (/[,;"]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value);
+  return payload.category.actions
+    .map((action) => {
+      const url = `${payload.responseUrl}?action=${encodeURIComponent(action.id)}`;
+      return `http, ${quote(action.title)}, ${url}, method=POST, clear=true`;
+    })
+    .join('; ');
+}
+
+export function toNtfyHeaders(payload: PushNotificationPayload, config: Pick<NtfyBackendConfig, 'tags' | 'accessToken'> = {}) {
+  const tags = [...NTFY_PRIORITY_TAGS[payload.priority], ...(config.tags ?? [])];
+  const actions = toNtfyActions(payload);
+  return {
+    'Content-Type': 'text/plain; charset=utf-8',
+    Title: encodeHeaderValue(payload.title),
+    Priority: NTFY_PRIORITY[payload.priority],
+    ...(tags.length > 0 && { Tags: encodeHeaderValue(tags.join(',')) }),
+    ...(actions && { Actions: encodeHeaderValue(actions) }),
+    ...(payload.url && { Click: payload.url }),
+    ...(payload.imageUrl && { Attach: payload.imageUrl }),
+    ...(config.accessToken && { Authorization: `Bearer ${config.accessToken}` }),
+  };
+}
+
+export function createNtfyBackend(config: NtfyBackendConfig, options: PushBackendOptions = {}): PushBackend {
+  const baseUrl = (config.baseUrl || DEFAULT_NTFY_BASE_URL).replace(/\/+$/, '');
+  const url = `${baseUrl}/${encodeURIComponent(config.topic)}`;
+
+  return {
+    name: 'ntfy',
+    contentFields: ['url', 'imageUrl'],
+    send: (payload: PushNotificationPayload, signal?: AbortSignal): Promise<PushBackendResult> =>
+      sendWebhookRequest(url, { headers: toNtfyHeaders(payload, config), body: payload.message }, signal, options.fetch),
+  };
+}
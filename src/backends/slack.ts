@@ -0,0 +1,65 @@
+/**
+ * Slack incoming webhook backend
+ *
+ * Posts the notification as Block Kit blocks to a channel's incoming webhook.
+ * See https://api.slack.com/messaging/webhooks
+ */
+
+import { sendWebhookRequest, truncate } from './webhook';
+import type { PushBackend, PushBackendOptions, PushBackendResult, PushNotificationPayload, SlackBackendConfig } from '../types';
+
+/** Block Kit limits for header and section text. */
+const SLACK_HEADER_LIMIT = 150;
+const SLACK_SECTION_LIMIT = 3000;
+
+const SLACK_PRIORITY_PREFIX: Record<PushNotificationPayload['priority'], string> = {
+  low: '',
+  normal: '',
+  high: ':rotating_light: ',
+};
+
+/**
+ * Slack's `mrkdwn` treats &, < and > as control characters.
+ */
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toSlackMessage(payload: PushNotificationPayload, config: Pick<SlackBackendConfig, 'highPriorityMention'> = {}) {
+  const title = `${SLACK_PRIORITY_PREFIX[payload.priority]}${payload.title}`;
+  const mention = payload.priority === 'high' && config.highPriorityMention ? `${config.highPriorityMention} ` : '';
+  const context = [`Priority: ${payload.priority}`, payload.agentId && `Agent: ${payload.agentId}`, payload.jobId && `Job: ${payload.jobId}`]
+    .filter(Boolean)
+    .join(' | ');
+
+  const subtitle = payload.subtitle ? `*${escapeMrkdwn(payload.subtitle)}*\n` : '';
+  const link = payload.url ? ` | <${payload.url}|Open>` : '';
+
+  return {
+    // Shown in desktop and mobile notifications, where blocks are not rendered.
+    text: `${mention}${title}: ${payload.message}`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: truncate(title, SLACK_HEADER_LIMIT), emoji: true } },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: truncate(`${mention}${subtitle}${escapeMrkdwn(payload.message)}`, SLACK_SECTION_LIMIT) },
+      },
+      ...(payload.imageUrl ? [{ type: 'image', image_url: payload.imageUrl, alt_text: payload.title }] : []),
+      { type: 'context', elements: [{ type: 'mrkdwn', text: `${escapeMrkdwn(context)}${link}` }] },
+    ],
+  };
+}
+
+export function createSlackBackend(config: SlackBackendConfig, options: PushBackendOptions = {}): PushBackend {
+  return {
+    name: 'slack',
+    contentFields: ['url', 'imageUrl', 'subtitle'],
+    send: (payload: PushNotificationPayload, signal?: AbortSignal): Promise<PushBackendResult> =>
+      sendWebhookRequest(
+        config.webhookUrl,
+        { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(toSlackMessage(payload, config)) },
+        signal,
+        options.fetch
+      ),
+  };
+}
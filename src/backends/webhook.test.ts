@@ -0,0 +1,232 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PushNotificationPayload } from '../types';
+import { createDiscordBackend, toDiscordMessage } from './discord';
+import { createNtfyBackend, encodeHeaderValue, toNtfyActions, toNtfyHeaders } from './ntfy';
+import { createSlackBackend, toSlackMessage } from './slack';
+import { createWebhookBackend, renderWebhookBody } from './webhook';
+
+type RecordedRequest = { method?: string; url?: string; headers: IncomingMessage['headers']; body: string };
+type Reply = { status: number; body?: string; headers?: Record<string, string> };
+
+const payload: PushNotificationPayload = {
+  message: 'Build <main> failed & needs a look',
+  title: 'CI',
+  data: { runId: 42 },
+  priority: 'high',
+  jobId: 'job-1',
+  agentId: 'agent-1',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  idempotencyKey: 'key-1',
+};
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let reply: Reply;
+
+const rich = { url: 'https://ci.example/runs/42', imageUrl: 'https://ci.example/runs/42/graph.png', subtitle: 'api / main' };
+
+const json = (index = 0) => JSON.parse(requests[index]?.body ?? 'null');
+
+describe('chat webhook backends', () => {
+  beforeEach(async () => {
+    requests = [];
+    reply = { status: 200, body: 'ok' };
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body: raw });
+        res.writeHead(reply.status, reply.headers);
+        res.end(reply.body);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe('slack', () => {
+    it('posts Block Kit blocks with a plain-text fallback', async () => {
+      const backend = createSlackBackend({ webhookUrl: `${baseUrl}/services/T/B/X`, highPriorityMention: '<!here>' });
+
+      const result = await backend.send(payload);
+
+      expect(result).toEqual({ success: true, result: 'ok' });
+      expect(requests[0]?.url).toBe('/services/T/B/X');
+      expect(json()).toEqual({
+        text: '<!here> :rotating_light: CI: Build <main> failed & needs a look',
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: ':rotating_light: CI', emoji: true } },
+          { type: 'section', text: { type: 'mrkdwn', text: '<!here> Build &lt;main&gt; failed &amp; needs a look' } },
+          { type: 'context', elements: [{ type: 'mrkdwn', text: 'Priority: high | Agent: agent-1 | Job: job-1' }] },
+        ],
+      });
+    });
+
+    it('adds the subtitle, image and link', () => {
+      const { blocks } = toSlackMessage({ ...payload, ...rich, priority: 'low' });
+
+      expect(blocks).toEqual([
+        { type: 'header', text: { type: 'plain_text', text: 'CI', emoji: true } },
+        { type: 'section', text: { type: 'mrkdwn', text: '*api / main*\nBuild &lt;main&gt; failed &amp; needs a look' } },
+        { type: 'image', image_url: 'https://ci.example/runs/42/graph.png', alt_text: 'CI' },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: 'Priority: low | Agent: agent-1 | Job: job-1 | <https://ci.example/runs/42|Open>' }],
+        },
+      ]);
+    });
+
+    it('reports plain-text errors and does not retry them', async () => {
+      reply = { status: 404, body: 'no_service' };
+      const backend = createSlackBackend({ webhookUrl: baseUrl });
+
+      expect(await backend.send({ ...payload, priority: 'low' })).toEqual({
+        success: false,
+        error: 'Failed to send notification: no_service',
+        code: 'BACKEND_4XX',
+        retry: undefined,
+      });
+    });
+  });
+
+  describe('discord', () => {
+    it('posts an embed colored by priority', async () => {
+      reply = { status: 204 };
+      const backend = createDiscordBackend({ webhookUrl: `${baseUrl}/api/webhooks/1/abc`, username: 'OpenClaw', highPriorityMention: '@here' });
+
+      expect((await backend.send(payload)).success).toBe(true);
+      expect(json()).toEqual({
+        username: 'OpenClaw',
+        content: '@here',
+        embeds: [
+          {
+            title: 'CI',
+            description: 'Build <main> failed & needs a look',
+            color: 0xe74c3c,
+            timestamp: '2024-01-01T00:00:00.000Z',
+            footer: { text: 'Priority: high | Agent: agent-1 | Job: job-1' },
+          },
+        ],
+      });
+    });
+
+    it('links the title and shows the subtitle and image', () => {
+      expect(toDiscordMessage({ ...payload, ...rich }).embeds[0]).toMatchObject({
+        description: '**api / main**\nBuild <main> failed & needs a look',
+        url: 'https://ci.example/runs/42',
+        image: { url: 'https://ci.example/runs/42/graph.png' },
+      });
+    });
+
+    it('retries rate limits using Retry-After', async () => {
+      reply = { status: 429, body: JSON.stringify({ message: 'You are being rate limited.' }), headers: { 'Retry-After': '2' } };
+      const backend = createDiscordBackend({ webhookUrl: baseUrl });
+
+      expect(await backend.send({ ...payload, priority: 'normal' })).toEqual({
+        success: false,
+        error: 'Failed to send notification: You are being rate limited.',
+        code: 'RATE_LIMITED',
+        retry: { afterMs: 2000 },
+      });
+      expect(json().content).toBeUndefined();
+    });
+  });
+
+  describe('ntfy', () => {
+    it('publishes the message with title, priority and tags headers', async () => {
+      reply = { status: 200, body: JSON.stringify({ id: 'msg-1', event: 'message' }) };
+      const backend = createNtfyBackend({ baseUrl: `${baseUrl}/`, topic: 'agent alerts', accessToken: 'tk_1', tags: ['robot'] });
+
+      const result = await backend.send({ ...payload, title: 'Überprüfung' });
+
+      expect(result).toEqual({ success: true, result: { id: 'msg-1', event: 'message' } });
+      expect(requests[0]?.url).toBe('/agent%20alerts');
+      expect(requests[0]?.body).toBe('Build <main> failed & needs a look');
+      expect(requests[0]?.headers).toMatchObject({
+        title: encodeHeaderValue('Überprüfung'),
+        priority: '5',
+        tags: 'rotating_light,robot',
+        authorization: 'Bearer tk_1',
+      });
+    });
+
+    it('adds buttons that post the chosen action to the response URL', () => {
+      const category = { id: 'deploy', actions: [{ id: 'approve', title: 'Deploy, now' }, { id: 'reject', title: 'Cancel' }] };
+
+      expect(toNtfyActions({ ...payload, category })).toBeUndefined();
+      expect(toNtfyActions({ ...payload, category, responseUrl: 'https://agent.example/responses/r1' })).toBe(
+        'http, "Deploy, now", https://agent.example/responses/r1?action=approve, method=POST, clear=true; ' +
+          'http, Cancel, https://agent.example/responses/r1?action=reject, method=POST, clear=true'
+      );
+    });
+
+    it('opens the link on click and attaches the image', () => {
+      expect(toNtfyHeaders({ ...payload, url: rich.url, imageUrl: rich.imageUrl })).toMatchObject({
+        Click: 'https://ci.example/runs/42',
+        Attach: 'https://ci.example/runs/42/graph.png',
+      });
+    });
+
+    it('encodes non-ASCII header values as RFC 2047 words', () => {
+      expect(encodeHeaderValue('Plain')).toBe('Plain');
+      expect(encodeHeaderValue('Café')).toBe('=?UTF-8?B?Q2Fmw6k=?=');
+    });
+  });
+
+  describe('generic webhook', () => {
+    it('sends the payload itself without a body template', async () => {
+      const backend = createWebhookBackend({ url: `${baseUrl}/hook`, method: 'PUT', headers: { 'X-Token': 'secret' } });
+
+      expect((await backend.send(payload)).success).toBe(true);
+      expect(requests[0]?.method).toBe('PUT');
+      expect(requests[0]?.headers).toMatchObject({ 'x-token': 'secret', 'idempotency-key': 'key-1' });
+      expect(json()).toEqual(payload);
+    });
+
+    it('renders the body template', async () => {
+      const backend = createWebhookBackend({
+        url: baseUrl,
+        body: { text: '[{{priority}}] {{title}}: {{message}}', meta: { extra: '{{data}}', job: '{{ jobId }}' }, list: ['{{agentId}}', 1] },
+      });
+
+      await backend.send(payload);
+
+      expect(json()).toEqual({
+        text: '[high] CI: Build <main> failed & needs a look',
+        meta: { extra: { runId: 42 }, job: 'job-1' },
+        list: ['agent-1', 1],
+      });
+    });
+
+    it('renders unknown placeholders as empty values', () => {
+      expect(renderWebhookBody({ a: '{{missing}}', b: 'x{{missing}}y' }, payload)).toEqual({ a: null, b: 'xy' });
+    });
+
+    it('sends through the fetch it is given', async () => {
+      const fetchMock = vi.fn(async () => new Response('ok', { status: 200 }));
+      const backend = createWebhookBackend({ url: `${baseUrl}/hook` }, { fetch: fetchMock as unknown as typeof fetch });
+
+      const result = await backend.send(payload);
+
+      expect(result.success).toBe(true);
+      expect(fetchMock).toHaveBeenCalledWith(`${baseUrl}/hook`, expect.objectContaining({ method: 'POST' }));
+      expect(requests).toEqual([]);
+    });
+
+    it('treats network errors as transient', async () => {
+      const backend = createWebhookBackend({ url: 'http://127.0.0.1:1/unreachable' });
+
+      const result = await backend.send(payload);
+
+      expect(result.success).toBe(false);
+      expect(result.retry).toEqual({});
+    });
+  });
+});
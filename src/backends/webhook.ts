@@ -0,0 +1,131 @@
+/**
+ * Generic webhook backend
+ *
+ * Sends the notification to any URL, either as the payload itself or shaped
+ * by a user-supplied JSON body template. Also provides the request helper
+ * shared by the chat webhook backends (Slack, Discord, ntfy).
+ */
+
+import { readErrorMessageFromBody } from './http';
+import { codeForException, codeForStatus } from '../errors';
+import { isRetryableStatus, parseRetryAfter } from '../retry';
+import type { PushBackend, PushBackendOptions, PushBackendResult, PushNotificationPayload, WebhookBackendConfig } from '../types';
+
+/** Longest plain-text error body quoted in an error message. */
+const MAX_ERROR_TEXT = 200;
+
+/**
+ * Send a webhook request and classify the outcome like the HTTP relay
+ * backend does: 408, 429 and 5xx responses, network errors and timeouts are transient.
+ */
+export async function sendWebhookRequest(
+  url: string,
+  init: { method?: string; headers: Record<string, string>; body: string },
+  signal?: AbortSignal,
+  fetchImpl: typeof fetch = fetch
+): Promise<PushBackendResult> {
+  try {
+    const response = await fetchImpl(url, { method: init.method ?? 'POST', headers: init.headers, body: init.body, signal });
+
+    let text = '';
+    try {
+      text = await response.text();
+    } catch {
+      // No body to report.
+    }
+    let body: unknown = text;
+    try {
+      body = text ? (JSON.parse(text) as unknown) : undefined;
+    } catch {
+      // Plain-text response (Slack answers "ok" or an error code).
+    }
+
+    if (!response.ok) {
+      const errorMessage =
+        readErrorMessageFromBody(body) || text.trim().slice(0, MAX_ERROR_TEXT) || `${response.status} ${response.statusText}`;
+      return {
+        success: false,
+        error: `Failed to send notification: ${errorMessage}`,
+        code: codeForStatus(response.status),
+        retry: isRetryableStatus(response.status)
+          ? { afterMs: parseRetryAfter(response.headers.get('Retry-After')) }
+          : undefined,
+      };
+    }
+
+    return { success: true, result: body ?? { success: true } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    // Network errors and timeouts are transient; a cancelled request is not.
+    const code = codeForException(error, signal);
+    return {
+      success: false,
+      error: `Failed to send notification: ${errorMessage}`,
+      code,
+      retry: code === 'CANCELLED' ? undefined : {},
+    };
+  }
+}
+
+/**
+ * Cut text to a service's length limit, marking the cut with an ellipsis.
+ */
+export function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_]\w*)\s*\}\}$/;
+
+/**
+ * Fill a JSON body template with payload fields. Unknown fields render as
+ * empty strings (or null when they make up the whole value).
+ */
+export function renderWebhookBody(template: unknown, payload: PushNotificationPayload): unknown {
+  const fields = payload as unknown as Record<string, unknown>;
+  if (typeof template === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(template);
+    if (whole) {
+      return fields[whole[1] as string] ?? null;
+    }
+    return template.replace(PLACEHOLDER, (_placeholder, name: string) => {
+      const value = fields[name];
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderWebhookBody(item, payload));
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, renderWebhookBody(value, payload)])
+    );
+  }
+  return template;
+}
+
+export function createWebhookBackend(config: WebhookBackendConfig, options: PushBackendOptions = {}): PushBackend {
+  return {
+    name: 'webhook',
+    send: (payload: PushNotificationPayload, signal?: AbortSignal): Promise<PushBackendResult> => {
+      const body = config.body === undefined ? payload : renderWebhookBody(config.body, payload);
+      return sendWebhookRequest(
+        config.url,
+        {
+          method: config.method,
+          headers: {
+            'Content-Type': 'application/json',
+            'Idempotency-Key': payload.idempotencyKey,
+            ...config.headers,
+          },
+          body: JSON.stringify(body),
+        },
+        signal,
+        options.fetch
+      );
+    },
+  };
+}
@@ -0,0 +1,211 @@
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { PushNotificationPayload, WebPushSubscription } from '../types';
+import { base64UrlDecode, base64UrlEncode, createWebPushBackend, generateVapidKeys, toWebPushTopic } from './webpush';
+
+type RecordedRequest = { url?: string; headers: IncomingMessage['headers']; body: Buffer };
+
+const payload: PushNotificationPayload = {
+  message: 'Report ready',
+  title: 'OpenClaw Agent',
+  data: { reportId: 'r-1' },
+  priority: 'high',
+  jobId: 'job-1',
+  agentId: 'agent-1',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  idempotencyKey: 'key-1',
+};
+
+/** A browser's side of a subscription: its key pair and auth secret. */
+function createBrowser(endpoint: string) {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = randomBytes(16);
+  const subscription: WebPushSubscription = {
+    endpoint,
+    keys: { p256dh: base64UrlEncode(ecdh.getPublicKey()), auth: base64UrlEncode(auth) },
+  };
+
+  // RFC 8291 decryption, as a browser does it.
+  const decrypt = (body: Buffer): string => {
+    const salt = body.subarray(0, 16);
+    const idLength = body.readUInt8(20);
+    const senderPublicKey = body.subarray(21, 21 + idLength);
+    const ciphertext = body.subarray(21 + idLength);
+    const shared = ecdh.computeSecret(senderPublicKey);
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), ecdh.getPublicKey(), senderPublicKey]);
+    const ikm = Buffer.from(hkdfSync('sha256', shared, auth, keyInfo, 32));
+    const key = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+    const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+    decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+    const record = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+    expect(record[record.length - 1]).toBe(0x02);
+    return record.subarray(0, record.length - 1).toString('utf8');
+  };
+
+  return { subscription, decrypt };
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let statusFor: (url?: string) => number;
+
+describe('web push backend', () => {
+  const vapidKeys = generateVapidKeys();
+  const vapid = { ...vapidKeys, subject: 'mailto:ops@example.com' };
+
+  beforeEach(async () => {
+    requests = [];
+    statusFor = () => 201;
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: Buffer.concat(chunks) });
+        const status = statusFor(req.url);
+        res.writeHead(status, status === 429 ? { 'Retry-After': '3' } : {});
+        res.end(status >= 400 ? 'push service says no' : '');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('sends an aes128gcm-encrypted payload the browser can decrypt', async () => {
+    const browser = createBrowser(`${baseUrl}/push/abc`);
+    const backend = createWebPushBackend({ subscriptions: [browser.subscription], vapid, ttlSeconds: 600 });
+
+    const result = await backend.send(payload);
+
+    expect(result).toEqual({
+      success: true,
+      result: { delivered: 1, failed: 0 },
+      tickets: [{ token: `${baseUrl}/push/abc`, status: 'ok' }],
+    });
+    const [request] = requests;
+    expect(request?.url).toBe('/push/abc');
+    expect(request?.headers).toMatchObject({
+      'content-encoding': 'aes128gcm',
+      'content-type': 'application/octet-stream',
+      ttl: '600',
+      urgency: 'high',
+    });
+    expect(request?.body.readUInt32BE(16)).toBe(4096);
+    expect(JSON.parse(browser.decrypt(request?.body as Buffer))).toEqual({
+      title: 'OpenClaw Agent',
+      body: 'Report ready',
+      data: { reportId: 'r-1', jobId: 'job-1', agentId: 'agent-1', timestamp: '2024-01-01T00:00:00.000Z' },
+      priority: 'high',
+    });
+  });
+
+  it('maps rich content to notification options and push headers', async () => {
+    const browser = createBrowser(`${baseUrl}/push/abc`);
+    const backend = createWebPushBackend({ subscriptions: [browser.subscription], vapid, ttlSeconds: 600 });
+
+    await backend.send({
+      ...payload,
+      url: 'https://app.example/reports/r-1',
+      imageUrl: 'https://cdn.example/chart.png',
+      threadId: 'job-1',
+      collapseKey: 'report-progress',
+      ttlSeconds: 0,
+    });
+
+    expect(requests[0]?.headers).toMatchObject({ ttl: '0', topic: 'report-progress' });
+    expect(JSON.parse(browser.decrypt(requests[0]?.body as Buffer))).toMatchObject({
+      data: { url: 'https://app.example/reports/r-1' },
+      image: 'https://cdn.example/chart.png',
+      tag: 'job-1',
+    });
+  });
+
+  it('hashes collapse keys that are not valid topics', () => {
+    const topic = toWebPushTopic('report progress for job 1 of the nightly pipeline');
+
+    expect(topic).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(toWebPushTopic('report progress for job 1 of the nightly pipeline')).toBe(topic);
+  });
+
+  it('signs a VAPID JWT for the push service origin', async () => {
+    const browser = createBrowser(`${baseUrl}/push/abc`);
+    const backend = createWebPushBackend({ subscriptions: [browser.subscription], vapid });
+
+    await backend.send(payload);
+
+    const match = /^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/.exec(String(requests[0]?.headers.authorization));
+    expect(match).not.toBeNull();
+    const [, header, claims, signature, publicKey] = match as RegExpExecArray;
+    expect(publicKey).toBe(vapid.publicKey);
+    expect(JSON.parse(base64UrlDecode(header as string).toString())).toEqual({ typ: 'JWT', alg: 'ES256' });
+    const decodedClaims = JSON.parse(base64UrlDecode(claims as string).toString());
+    expect(decodedClaims).toMatchObject({ aud: baseUrl, sub: 'mailto:ops@example.com' });
+    expect(decodedClaims.exp).toBeGreaterThan(Date.now() / 1000);
+
+    const point = base64UrlDecode(vapid.publicKey);
+    const key = createPublicKey({
+      key: { kty: 'EC', crv: 'P-256', x: base64UrlEncode(point.subarray(1, 33)), y: base64UrlEncode(point.subarray(33)) },
+      format: 'jwk',
+    });
+    const valid = verify(
+      'sha256',
+      Buffer.from(`${header}.${claims}`),
+      { key, dsaEncoding: 'ieee-p1363' },
+      base64UrlDecode(signature as string)
+    );
+    expect(valid).toBe(true);
+  });
+
+  it('reports 404 and 410 subscriptions as expired without retrying', async () => {
+    statusFor = (url) => (url === '/push/gone' ? 410 : 404);
+    const backend = createWebPushBackend({
+      subscriptions: [createBrowser(`${baseUrl}/push/gone`).subscription, createBrowser(`${baseUrl}/push/missing`).subscription],
+      vapid,
+    });
+
+    const result = await backend.send(payload);
+
+    expect(result).toMatchObject({ success: false, code: 'DEVICE_UNREGISTERED', retry: undefined });
+    expect(result.tickets?.map((ticket) => ticket.code)).toEqual(['SubscriptionExpired', 'SubscriptionExpired']);
+    expect(result.error).toBe('Failed to send notification: Subscription expired: push service says no');
+  });
+
+  it('succeeds when some subscriptions are delivered and retries only when all fail transiently', async () => {
+    statusFor = (url) => (url === '/push/gone' ? 410 : 201);
+    const backend = createWebPushBackend({
+      subscriptions: [createBrowser(`${baseUrl}/push/ok`).subscription, createBrowser(`${baseUrl}/push/gone`).subscription],
+      vapid,
+    });
+    expect(await backend.send(payload)).toMatchObject({ success: true, result: { delivered: 1, failed: 1 } });
+
+    statusFor = () => 429;
+    const result = await backend.send({ ...payload, priority: 'low' });
+    expect(result).toMatchObject({ success: false, retry: { afterMs: 3000 } });
+    expect(requests[requests.length - 1]?.headers.urgency).toBe('low');
+  });
+
+  it('rejects invalid keys without contacting the push service', async () => {
+    const invalidVapid = createWebPushBackend({
+      subscriptions: [createBrowser(`${baseUrl}/push/abc`).subscription],
+      vapid: { ...vapid, privateKey: 'short' },
+    });
+    expect((await invalidVapid.send(payload)).error).toContain('VAPID keys must be');
+
+    const invalidSubscription = createWebPushBackend({
+      subscriptions: [{ endpoint: `${baseUrl}/push/abc`, keys: { p256dh: 'bad', auth: 'bad' } }],
+      vapid,
+    });
+    const invalid = await invalidSubscription.send(payload);
+    expect(invalid).toMatchObject({ success: false, code: 'NOT_CONFIGURED' });
+    expect(invalid.tickets?.[0]?.code).toBe('InvalidSubscription');
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Web Push backend (browser notifications)
+ *
+ * Sends to stored browser PushSubscriptions through their push services,
+ * with the payload encrypted per RFC 8291 (aes128gcm content coding,
+ * RFC 8188) and requests authenticated with VAPID (RFC 8292). Only Node's
+ * built-in crypto is used.
+ */
+
+import { createCipheriv, createECDH, createHash, createPrivateKey, hkdfSync, randomBytes, sign, type KeyObject } from 'node:crypto';
+import { codeForException, codeForStatus } from '../errors';
+import { isRetryableStatus, parseRetryAfter } from '../retry';
+import type {
+  PushBackend,
+  PushBackendOptions,
+  PushBackendResult,
+  PushErrorCode,
+  PushNotificationPayload,
+  PushTicket,
+  VapidConfig,
+  WebPushBackendConfig,
+  WebPushSubscription,
+} from '../types';
+
+/** How long push services keep an undelivered message, unless configured. */
+export const DEFAULT_WEBPUSH_TTL_SECONDS = 24 * 60 * 60;
+
+/** Record size announced in the aes128gcm header; the whole message fits in one record. */
+const RECORD_SIZE = 4096;
+
+/** Push services accept at most 4096 bytes of encrypted body. */
+export const WEBPUSH_MAX_BODY_BYTES = 4096;
+
+/** VAPID tokens may be valid for at most 24 hours; stay well below. */
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+
+const WEBPUSH_URGENCY: Record<PushNotificationPayload['priority'], string> = {
+  low: 'low',
+  normal: 'normal',
+  high: 'high',
+};
+
+interface WebPushResponse {
+  ticket: PushTicket;
+  /** Set when the subscription failed */
+  code?: PushErrorCode;
+  retry?: PushBackendResult['retry'];
+}
+
+export function base64UrlEncode(data: Uint8Array | string): string {
+  return Buffer.from(data).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+/**
+ * Generate a VAPID key pair: an uncompressed P-256 public key and the raw
+ * private key, both base64url-encoded as browsers and push libraries expect.
+ */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  return { publicKey: base64UrlEncode(ecdh.getPublicKey()), privateKey: base64UrlEncode(ecdh.getPrivateKey()) };
+}
+
+function vapidPrivateKey(vapid: VapidConfig): KeyObject {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const privateKey = base64UrlDecode(vapid.privateKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04 || privateKey.length !== 32) {
+    throw new Error('VAPID keys must be a base64url uncompressed P-256 public key and a 32-byte private key');
+  }
+  return createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: base64UrlEncode(publicKey.subarray(1, 33)),
+      y: base64UrlEncode(publicKey.subarray(33, 65)),
+      d: base64UrlEncode(privateKey),
+    },
+    format: 'jwk',
+  });
+}
+
+/**
+ * `Authorization` header value for a push service, per RFC 8292.
+ */
+export function createVapidAuthorization(endpoint: string, vapid: VapidConfig, key: KeyObject, now = Date.now()): string {
+  const header = base64UrlEncode(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = base64UrlEncode(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(now / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+      sub: vapid.subject,
+    })
+  );
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypt a message for one subscription (RFC 8291). Returns the complete
+ * aes128gcm body: salt, record size, sender public key, then the ciphertext.
+ */
+export function encryptWebPushPayload(plaintext: Uint8Array, keys: WebPushSubscription['keys']): Buffer {
+  const receiverPublicKey = base64UrlDecode(keys.p256dh);
+  const authSecret = base64UrlDecode(keys.auth);
+  if (receiverPublicKey.length !== 65 || authSecret.length !== 16) {
+    throw new Error('Subscription keys must be a base64url P-256 public key (p256dh) and a 16-byte auth secret');
+  }
+
+  // A fresh sender key pair and salt for every message.
+  const sender = createECDH('prime256v1');
+  const senderPublicKey = sender.generateKeys();
+  const salt = randomBytes(16);
+  const sharedSecret = sender.computeSecret(receiverPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverPublicKey, senderPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record; no padding.
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.update(Buffer.from([0x02])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderPublicKey.length, 20);
+  return Buffer.concat([header, senderPublicKey, ciphertext]);
+}
+
+/**
+ * Push services replace a queued message with the same Topic. Topics are at
+ * most 32 base64url characters, so longer keys are hashed.
+ */
+export function toWebPushTopic(collapseKey: string): string {
+  if (/^[A-Za-z0-9_-]{1,32}$/.test(collapseKey)) {
+    return collapseKey;
+  }
+  return createHash('sha256').update(collapseKey).digest('base64url').slice(0, 32);
+}
+
+/**
+ * The JSON a service worker receives in its `push` event.
+ */
+export function toWebPushMessage(payload: PushNotificationPayload) {
+  return {
+    title: payload.title,
+    body: payload.message,
+    data: {
+      ...payload.data,
+      jobId: payload.jobId,
+      agentId: payload.agentId,
+      timestamp: payload.timestamp,
+      ...payload.origin,
+      ...(payload.responseId && { responseId: payload.responseId }),
+      ...(payload.responseUrl && { responseUrl: payload.responseUrl }),
+      // Opened by the service worker's notificationclick handler.
+      ...(payload.url && { url: payload.url }),
+    },
+    priority: payload.priority,
+    ...(payload.imageUrl && { image: payload.imageUrl }),
+    // Notifications with the same tag replace each other on screen.
+    ...(payload.threadId && { tag: payload.threadId }),
+    // Passed to showNotification(); notificationclick reports event.action.
+    ...(payload.category && {
+      actions: payload.category.actions.map((action) => ({ action: action.id, title: action.title })),
+    }),
+  };
+}
+
+async function sendToSubscription(
+  subscription: WebPushSubscription,
+  plaintext: Buffer,
+  payload: PushNotificationPayload,
+  config: WebPushBackendConfig,
+  key: KeyObject,
+  signal?: AbortSignal,
+  fetchImpl: typeof fetch = fetch
+): Promise<WebPushResponse> {
+  const token = subscription.endpoint;
+  const fail = (error: string, code: PushErrorCode, ticketCode?: string, retry?: WebPushResponse['retry']): WebPushResponse => ({
+    ticket: { token, status: 'error', error, code: ticketCode },
+    code,
+    retry,
+  });
+
+  let body: Buffer;
+  let authorization: string;
+  try {
+    body = encryptWebPushPayload(plaintext, subscription.keys);
+    authorization = createVapidAuthorization(subscription.endpoint, config.vapid, key);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Unknown error', 'NOT_CONFIGURED', 'InvalidSubscription');
+  }
+  if (body.length > WEBPUSH_MAX_BODY_BYTES) {
+    return fail(`Encrypted payload is ${body.length} bytes; push services accept at most ${WEBPUSH_MAX_BODY_BYTES}`, 'INVALID_INPUT', 'PayloadTooLarge');
+  }
+
+  try {
+    const response = await fetchImpl(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: authorization,
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(payload.ttlSeconds ?? config.ttlSeconds ?? DEFAULT_WEBPUSH_TTL_SECONDS),
+        Urgency: WEBPUSH_URGENCY[payload.priority],
+        ...(payload.collapseKey && { Topic: toWebPushTopic(payload.collapseKey) }),
+      },
+      body,
+      signal,
+    });
+
+    if (response.ok) {
+      return { ticket: { token, status: 'ok' } };
+    }
+
+    let text = '';
+    try {
+      text = (await response.text()).trim().slice(0, 200);
+    } catch {
+      // No body to report.
+    }
+    const message = text || `${response.status} ${response.statusText}`;
+    // The browser unsubscribed or the subscription expired; it will never work again.
+    if (response.status === 404 || response.status === 410) {
+      return fail(`Subscription expired: ${message}`, 'DEVICE_UNREGISTERED', 'SubscriptionExpired');
+    }
+    return fail(
+      message,
+      codeForStatus(response.status),
+      response.status === 413 ? 'PayloadTooLarge' : undefined,
+      isRetryableStatus(response.status) ? { afterMs: parseRetryAfter(response.headers.get('Retry-After')) } : undefined
+    );
+  } catch (error) {
+    const code = codeForException(error, signal);
+    return fail(error instanceof Error ? error.message : 'Unknown error', code, undefined, code === 'CANCELLED' ? undefined : {});
+  }
+}
+
+export function createWebPushBackend(config: WebPushBackendConfig, options: PushBackendOptions = {}): PushBackend {
+  return {
+    name: 'webpush',
+    // Subtitles, sounds, badge counts and channels are not part of the Notifications API.
+    contentFields: ['url', 'imageUrl', 'threadId', 'collapseKey', 'ttlSeconds'],
+    send: async (payload: PushNotificationPayload, signal?: AbortSignal): Promise<PushBackendResult> => {
+      let key: KeyObject;
+      try {
+        key = vapidPrivateKey(config.vapid);
+      } catch (error) {
+        return {
+          success: false,
+          error: `Failed to send notification: ${error instanceof Error ? error.message : 'Invalid VAPID keys'}`,
+          code: 'NOT_CONFIGURED',
+        };
+      }
+
+      const plaintext = Buffer.from(JSON.stringify(toWebPushMessage(payload)));
+      const responses = await Promise.all(
+        config.subscriptions.map((subscription) => sendToSubscription(subscription, plaintext, payload, config, key, signal, options.fetch))
+      );
+      const tickets = responses.map((response) => response.ticket);
+
+      const delivered = tickets.filter((ticket) => ticket.status === 'ok');
+      if (delivered.length > 0) {
+        return { success: true, result: { delivered: delivered.length, failed: tickets.length - delivered.length }, tickets };
+      }
+
+      // As with Expo, only retry when every subscription failed transiently.
+      const transient = responses.length > 0 && responses.every((response) => response.retry);
+      const retryAfter = responses
+        .map((response) => response.retry?.afterMs)
+        .filter((afterMs): afterMs is number => afterMs !== undefined);
+      const expired = tickets.length > 0 && tickets.every((ticket) => ticket.code === 'SubscriptionExpired');
+
+      const firstError = tickets[0];
+      return {
+        success: false,
+        error: `Failed to send notification: ${firstError?.error ?? 'No Web Push subscriptions configured'}`,
+        code: expired ? 'DEVICE_UNREGISTERED' : (responses[0]?.code ?? 'NOT_CONFIGURED'),
+        tickets,
+        retry: transient ? { afterMs: retryAfter.length ? Math.max(...retryAfter) : undefined } : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,633 @@
+/**
+ * CLI commands for the push notification plugin
+ *
+ *   push-notification:test                     Check the plugin configuration
+ *   push-notification:test --check             Also check that the backend is reachable
+ *   push-notification:test --dry-run           Show the test notification without sending it
+ *   push-notification:test --send              Send a test notification and show the HTTP exchange
+ *   push-notification:test --template <name>   Preview a rendered template
+ *   push-notification:outbox <list|flush|purge> Inspect and manage the outbox
+ *   push-notification:history                  Show sent notifications
+ *   push-notification:metrics                  Print send metrics in the Prometheus text format
+ */
+
+import { randomUUID } from 'node:crypto';
+import { resolvePushBackend } from './backends';
+import { DEFAULT_EXPO_BASE_URL } from './backends/expo';
+import { DEFAULT_NTFY_BASE_URL } from './backends/ntfy';
+import { applyProfile, resolvePushPluginEntry } from './config';
+import { validatePushConfig } from './config-schema';
+import { sendRoutedPayload } from './failover';
+import { formatHistoryRecord, parseHistoryTime, resolveHistory } from './history';
+import { formatPrometheus, resolveMetrics } from './metrics';
+import { resolveOutbox } from './outbox';
+import { resolvePayloadBackend, resolveRecipientConfig, resolveRecipientNames } from './recipients';
+import { resolveConfigSecrets } from './secrets';
+import { renderTemplate, type TemplateVariables } from './templates';
+import type { CliProgram, PushNotificationConfig, PushNotificationPayload, PushPluginApiConfig, PushPriority } from './types';
+
+export type RegisterCli = (setup: (ctx: { program: CliProgram }) => void, options: { commands: string[] }) => void;
+
+function describeHost(url: string | undefined): string {
+  try {
+    return new URL(url ?? '').host;
+  } catch {
+    return 'invalid URL';
+  }
+}
+
+function previewTemplate(pluginConfig: PushNotificationConfig, name: string, vars: string | undefined): void {
+  let variables: TemplateVariables = {};
+  if (vars) {
+    try {
+      variables = JSON.parse(vars) as TemplateVariables;
+    } catch {
+      console.log('--vars must be a JSON object, e.g. \'{"project": "api"}\'');
+      return;
+    }
+  }
+
+  const { rendered, error } = renderTemplate(pluginConfig, name, variables);
+  if (!rendered) {
+    console.log(error);
+    return;
+  }
+  console.log('Title:', rendered.title || pluginConfig.defaultTitle || 'OpenClaw Agent');
+  console.log('Message:', rendered.message);
+  console.log('Priority:', rendered.priority ?? 'normal');
+  if (Object.keys(rendered.data).length > 0) {
+    console.log('Data:', JSON.stringify(rendered.data));
+  }
+}
+
+type TestOptions = {
+  template?: string;
+  vars?: string;
+  check?: boolean;
+  dryRun?: boolean;
+  send?: boolean;
+  to?: string;
+  message?: string;
+  priority?: string;
+  profile?: string;
+};
+
+type HttpExchange = {
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  status?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+};
+
+const PRIORITIES: PushPriority[] = ['low', 'normal', 'high'];
+const REACHABILITY_TIMEOUT_MS = 5000;
+const MAX_BODY_CHARS = 2000;
+
+/** Backends whose URL is itself the credential, so only the host is shown. */
+const SECRET_URL_BACKENDS = new Set(['slack', 'discord', 'webhook']);
+
+const SECRET_HEADER = /authorization|signature|token|secret|api-?key/i;
+
+/**
+ * URLs the backend sends to: the relay, push service or webhook. Web Push
+ * has one per subscription.
+ */
+function backendUrls(pluginConfig: PushNotificationConfig): string[] {
+  switch (pluginConfig.backend ?? 'http') {
+    case 'expo':
+      return [pluginConfig.expo?.baseUrl || DEFAULT_EXPO_BASE_URL];
+    case 'slack':
+      return [pluginConfig.slack?.webhookUrl ?? ''];
+    case 'discord':
+      return [pluginConfig.discord?.webhookUrl ?? ''];
+    case 'ntfy':
+      return [pluginConfig.ntfy?.baseUrl || DEFAULT_NTFY_BASE_URL];
+    case 'webhook':
+      return [pluginConfig.webhook?.url ?? ''];
+    case 'webpush':
+      return (pluginConfig.webpush?.subscriptions ?? []).map((subscription) => subscription.endpoint);
+    default:
+      return [pluginConfig.backendUrl ?? ''];
+  }
+}
+
+/** fetch reports "fetch failed" and keeps the network error as its cause. */
+function describeFetchError(error: unknown): string {
+  const cause = (error as { cause?: unknown } | undefined)?.cause;
+  return cause instanceof Error ? cause.message : error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Any HTTP response counts as reachable; only network errors and timeouts
+ * do not. Requests go to the origin so no notification is triggered.
+ */
+async function checkReachability(pluginConfig: PushNotificationConfig): Promise<void> {
+  const origins = [...new Set(backendUrls(pluginConfig).map((url) => {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return url;
+    }
+  }))];
+
+  for (const origin of origins) {
+    const started = Date.now();
+    try {
+      const response = await fetch(origin, { method: 'HEAD', signal: AbortSignal.timeout(REACHABILITY_TIMEOUT_MS) });
+      console.log(`Reachable: ${origin} (HTTP ${response.status}, ${Date.now() - started} ms)`);
+    } catch (error) {
+      console.log(`Unreachable: ${origin || '(no URL configured)'} - ${describeFetchError(error)}`);
+    }
+  }
+}
+
+function buildTestPayloads(pluginConfig: PushNotificationConfig, options: TestOptions): { payloads?: PushNotificationPayload[]; error?: string } {
+  const priority = (options.priority ?? 'normal') as PushPriority;
+  if (!PRIORITIES.includes(priority)) {
+    return { error: `--priority must be one of ${PRIORITIES.join(', ')}` };
+  }
+  const payload: PushNotificationPayload = {
+    message: options.message || 'Test notification from OpenClaw',
+    title: pluginConfig.defaultTitle || 'OpenClaw Agent',
+    data: { test: true },
+    priority,
+    timestamp: new Date().toISOString(),
+    idempotencyKey: randomUUID(),
+    ...(options.profile && { profile: options.profile }),
+  };
+  if (!options.to) {
+    return { payloads: [payload] };
+  }
+
+  const { names, error } = resolveRecipientNames(pluginConfig, [options.to]);
+  if (!names) {
+    return { error };
+  }
+  return {
+    payloads: names.map((recipient) => {
+      const routingKey = pluginConfig.recipients?.[recipient]?.routingKey;
+      return { ...payload, recipient, ...(routingKey && { routingKey }), idempotencyKey: `${payload.idempotencyKey}:${recipient}` };
+    }),
+  };
+}
+
+function describeUrl(url: string, backend: string): string {
+  try {
+    const parsed = new URL(url);
+    return SECRET_URL_BACKENDS.has(backend) ? `${parsed.origin}/…` : `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+function redactHeaders(headers: Headers | Record<string, string> | undefined): Record<string, string> {
+  const entries = headers instanceof Headers ? [...headers.entries()] : Object.entries(headers ?? {});
+  return Object.fromEntries(entries.map(([name, value]) => [name, SECRET_HEADER.test(name) ? '***' : value]));
+}
+
+function describeBody(body: unknown): string | undefined {
+  if (body === undefined || body === null || body === '') {
+    return undefined;
+  }
+  if (body instanceof Uint8Array) {
+    return `<${body.byteLength} bytes of binary data>`;
+  }
+  if (typeof body !== 'string') {
+    return '<binary data>';
+  }
+  let text = body;
+  try {
+    text = JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    // Not JSON; shown as is.
+  }
+  return text.length > MAX_BODY_CHARS ? `${text.slice(0, MAX_BODY_CHARS)}… (${text.length} characters)` : text;
+}
+
+/**
+ * A fetch that records every request made through it in `exchanges`.
+ * Passed to the backend, so the rest of the process is not affected.
+ */
+function createTracingFetch(exchanges: HttpExchange[]): typeof fetch {
+  return async (input, init) => {
+    const exchange: HttpExchange = {
+      method: init?.method ?? 'GET',
+      url: input instanceof Request ? input.url : String(input),
+      requestHeaders: redactHeaders(init?.headers as Record<string, string> | undefined),
+      requestBody: describeBody(init?.body),
+      durationMs: 0,
+    };
+    exchanges.push(exchange);
+    const started = Date.now();
+    try {
+      const response = await fetch(input, init);
+      exchange.status = `${response.status} ${response.statusText}`.trim();
+      exchange.responseHeaders = redactHeaders(response.headers);
+      exchange.responseBody = describeBody(await response.clone().text());
+      return response;
+    } catch (error) {
+      exchange.error = describeFetchError(error);
+      throw error;
+    } finally {
+      exchange.durationMs = Date.now() - started;
+    }
+  };
+}
+
+function printExchange(exchange: HttpExchange, backend: string): void {
+  const printHeaders = (headers: Record<string, string>) => {
+    for (const [name, value] of Object.entries(headers)) {
+      console.log(`  ${name}: ${value}`);
+    }
+  };
+  console.log(`> ${exchange.method} ${describeUrl(exchange.url, backend)}`);
+  printHeaders(exchange.requestHeaders);
+  if (exchange.requestBody) {
+    console.log(exchange.requestBody.replace(/^/gm, '  '));
+  }
+  if (exchange.error) {
+    console.log(`< request failed after ${exchange.durationMs} ms: ${exchange.error}`);
+    return;
+  }
+  console.log(`< ${exchange.status} (${exchange.durationMs} ms)`);
+  printHeaders(exchange.responseHeaders ?? {});
+  if (exchange.responseBody) {
+    console.log(exchange.responseBody.replace(/^/gm, '  '));
+  }
+}
+
+/**
+ * Send the test notification once per target, without retries or the
+ * outbox, so the report shows exactly one exchange per attempt.
+ */
+async function sendTestNotification(pluginConfig: PushNotificationConfig, payloads: PushNotificationPayload[]): Promise<void> {
+  for (const payload of payloads) {
+    const exchanges: HttpExchange[] = [];
+    const { backend, error } = resolvePayloadBackend(pluginConfig, payload, { fetch: createTracingFetch(exchanges) });
+    const label = payload.recipient ? ` to ${payload.recipient}` : '';
+    if (!backend) {
+      console.log(`Not sent${label}: ${error}`);
+      continue;
+    }
+    console.log(`Sending test notification${label} via ${backend.name}...`);
+    const result = await backend.send(payload);
+    for (const exchange of exchanges) {
+      printExchange(exchange, backend.name);
+    }
+    if (result.success) {
+      console.log(`Sent${result.receiptId ? ` (receipt ${result.receiptId})` : ''}.`);
+    } else {
+      console.log(`Failed: ${result.error}${result.retry ? ' (transient; the push tool would retry)' : ''}`);
+    }
+    for (const ticket of result.tickets ?? []) {
+      if (ticket.status === 'error') {
+        console.log(`  ${ticket.token}: ${ticket.error}${ticket.code ? ` (${ticket.code})` : ''}`);
+      }
+    }
+  }
+}
+
+async function testCommand(config: PushPluginApiConfig, options: TestOptions = {}): Promise<void> {
+  const entry = resolvePushPluginEntry(config);
+  const entryConfig = entry?.config;
+
+  if (options.template) {
+    previewTemplate(entryConfig ?? {}, options.template, options.vars);
+    return;
+  }
+
+  const validation = validatePushConfig(entryConfig ?? {});
+  if (!validation.valid) {
+    console.log('Push notification config is invalid:');
+    for (const error of validation.errors) {
+      console.log(`  ${error}`);
+    }
+    return;
+  }
+
+  const { config: profileConfig, error: profileError } = applyProfile(entryConfig ?? {}, options.profile);
+  if (!profileConfig) {
+    console.log(profileError);
+    return;
+  }
+
+  const { backend, error } = resolvePushBackend(profileConfig);
+  if (!entryConfig || !backend) {
+    console.log('Push notification plugin is not configured.');
+    console.log(error);
+    return;
+  }
+
+  if (entry?.enabled === false || entryConfig.enabled === false) {
+    console.log('Push notification plugin is disabled.');
+    return;
+  }
+
+  // The backend resolved, so its secret references do too. Webhook URLs are still shown by host only.
+  const pluginConfig = resolveConfigSecrets(profileConfig).config ?? profileConfig;
+  console.log('Push notification plugin is configured!');
+  const profile = options.profile ?? pluginConfig.defaultProfile;
+  if (profile) {
+    console.log('Profile:', profile);
+  }
+  console.log('Backend:', backend.name);
+  switch (backend.name) {
+    case 'expo':
+      console.log('Expo URL:', pluginConfig.expo?.baseUrl || DEFAULT_EXPO_BASE_URL);
+      console.log('Expo tokens:', pluginConfig.expo?.tokens.length ?? 0);
+      break;
+    case 'slack':
+    case 'discord':
+      // Webhook URLs embed a secret, so only the host is shown.
+      console.log('Webhook host:', describeHost(pluginConfig[backend.name]?.webhookUrl));
+      break;
+    case 'ntfy':
+      console.log('ntfy URL:', pluginConfig.ntfy?.baseUrl || DEFAULT_NTFY_BASE_URL);
+      console.log('ntfy topic:', pluginConfig.ntfy?.topic);
+      break;
+    case 'webhook':
+      console.log('Webhook host:', describeHost(pluginConfig.webhook?.url));
+      break;
+    case 'webpush':
+      console.log('Web Push subscriptions:', pluginConfig.webpush?.subscriptions.length ?? 0);
+      console.log('VAPID subject:', pluginConfig.webpush?.vapid.subject);
+      break;
+    default:
+      console.log('Backend URL:', pluginConfig.backendUrl);
+  }
+  console.log('Default Title:', pluginConfig.defaultTitle || 'OpenClaw Agent');
+  const recipients = Object.keys(pluginConfig.recipients ?? {});
+  if (recipients.length > 0) {
+    console.log('Recipients:', recipients.join(', '));
+  }
+  const groups = Object.keys(pluginConfig.groups ?? {});
+  if (groups.length > 0) {
+    console.log('Groups:', groups.join(', '));
+  }
+  const templates = Object.keys(pluginConfig.templates ?? {});
+  if (templates.length > 0) {
+    console.log('Templates:', templates.join(', '));
+  }
+
+  if (!options.check && !options.dryRun && !options.send) {
+    return;
+  }
+  const { payloads, error: payloadError } = buildTestPayloads(pluginConfig, options);
+  if (!payloads) {
+    console.log(payloadError);
+    return;
+  }
+
+  if (options.check) {
+    console.log('');
+    // Recipients may have their own backend; check each distinct one.
+    const targets = payloads.map((payload) =>
+      payload.recipient ? resolveRecipientConfig(pluginConfig, payload.recipient) ?? pluginConfig : pluginConfig
+    );
+    for (const target of new Set(targets)) {
+      await checkReachability(target);
+    }
+  }
+  if (options.dryRun) {
+    console.log('');
+    for (const payload of payloads) {
+      const { backend: target, error: targetError } = resolvePayloadBackend(pluginConfig, payload);
+      console.log(`Would send${payload.recipient ? ` to ${payload.recipient}` : ''} via ${target?.name ?? targetError}:`);
+      console.log(JSON.stringify(payload, null, 2));
+    }
+  }
+  if (options.send) {
+    console.log('');
+    await sendTestNotification(pluginConfig, payloads);
+  }
+}
+
+async function outboxCommand(
+  config: PushPluginApiConfig,
+  action: string | undefined,
+  options: { deadOnly?: boolean } = {}
+): Promise<void> {
+  const pluginConfig = resolvePushPluginEntry(config)?.config;
+  const outbox = resolveOutbox(pluginConfig ?? {});
+  if (!pluginConfig || !outbox) {
+    console.log('Outbox is not enabled.');
+    console.log('Set plugins.entries["push-notification"].config.outbox.enabled to true in openclaw.json');
+    return;
+  }
+
+  switch (action) {
+    case 'list': {
+      const entries = await outbox.list();
+      if (entries.length === 0) {
+        console.log('Outbox is empty.');
+        return;
+      }
+      for (const entry of entries) {
+        const error = entry.lastError ? ` - ${entry.lastError}` : '';
+        const reason = entry.deadReason ? ` (${entry.deadReason})` : '';
+        console.log(
+          `${entry.id}  ${entry.status}${reason}  ${entry.enqueuedAt}  attempts=${entry.attempts}  "${entry.payload.title}: ${entry.payload.message}"${error}`
+        );
+      }
+      return;
+    }
+    case 'flush': {
+      // Each entry goes to its recipient's backend, or the default one, with the profile it was sent with.
+      const report = await outbox.flush(async (payload) => {
+        const { config: profileConfig, error } = applyProfile(pluginConfig, payload.profile);
+        return profileConfig ? sendRoutedPayload(profileConfig, payload) : { success: false, error };
+      });
+      console.log(`Sent: ${report.sent}, dead-lettered: ${report.dead}, still pending: ${report.remaining}`);
+      if (report.error) {
+        console.log('Flush stopped:', report.error);
+      }
+      return;
+    }
+    case 'purge': {
+      const removed = await outbox.purge({ deadOnly: options.deadOnly });
+      console.log(`Removed ${removed} ${options.deadOnly ? 'dead-lettered ' : ''}entr${removed === 1 ? 'y' : 'ies'}.`);
+      return;
+    }
+    default:
+      console.log('Usage: push-notification:outbox <list|flush|purge> [--dead-only]');
+  }
+}
+
+type HistoryOptions = {
+  since?: string;
+  until?: string;
+  agent?: string;
+  job?: string;
+  priority?: string;
+  recipient?: string;
+  text?: string;
+  success?: boolean;
+  failed?: boolean;
+  limit?: string;
+  json?: boolean;
+};
+
+async function historyCommand(config: PushPluginApiConfig, options: HistoryOptions = {}): Promise<void> {
+  const pluginConfig = resolvePushPluginEntry(config)?.config;
+  const history = resolveHistory(pluginConfig ?? {});
+  if (!history) {
+    console.log('Notification history is not enabled.');
+    console.log('Set plugins.entries["push-notification"].config.history.enabled to true in openclaw.json');
+    return;
+  }
+
+  const since = options.since !== undefined ? parseHistoryTime(options.since) : undefined;
+  const until = options.until !== undefined ? parseHistoryTime(options.until) : undefined;
+  if ((options.since !== undefined && !since) || (options.until !== undefined && !until)) {
+    console.log('--since and --until take an ISO 8601 time or a duration such as 24h or 7d');
+    return;
+  }
+  const priority = options.priority as PushPriority | undefined;
+  if (priority !== undefined && !PRIORITIES.includes(priority)) {
+    console.log(`--priority must be one of ${PRIORITIES.join(', ')}`);
+    return;
+  }
+  const limit = options.limit !== undefined ? Number(options.limit) : undefined;
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    console.log('--limit must be a positive integer');
+    return;
+  }
+
+  const records = await history.query({
+    since,
+    until,
+    agentId: options.agent,
+    jobId: options.job,
+    priority,
+    recipient: options.recipient,
+    text: options.text,
+    success: options.success ? true : options.failed ? false : undefined,
+    limit,
+  });
+  if (options.json) {
+    for (const record of records) {
+      console.log(JSON.stringify(record));
+    }
+    return;
+  }
+  if (records.length === 0) {
+    console.log('No matching notifications.');
+    return;
+  }
+  for (const record of records) {
+    console.log(formatHistoryRecord(record));
+  }
+}
+
+async function metricsCommand(config: PushPluginApiConfig): Promise<void> {
+  const metrics = resolveMetrics(resolvePushPluginEntry(config)?.config ?? {});
+  if (!metrics) {
+    console.log('Metrics are not enabled.');
+    console.log('Set plugins.entries["push-notification"].config.metrics.enabled to true in openclaw.json');
+    return;
+  }
+  process.stdout.write(formatPrometheus(await metrics.read()));
+}
+
+/** The options object commander passes after the positional arguments. */
+function optionsArg(args: unknown[], index: number): Record<string, unknown> {
+  const value = args[index];
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+}
+
+function stringOption(options: Record<string, unknown>, name: string): string | undefined {
+  const value = options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function booleanOption(options: Record<string, unknown>, name: string): boolean | undefined {
+  return options[name] === true ? true : undefined;
+}
+
+function readTestOptions(options: Record<string, unknown>): TestOptions {
+  return {
+    template: stringOption(options, 'template'),
+    vars: stringOption(options, 'vars'),
+    check: booleanOption(options, 'check'),
+    dryRun: booleanOption(options, 'dryRun'),
+    send: booleanOption(options, 'send'),
+    to: stringOption(options, 'to'),
+    message: stringOption(options, 'message'),
+    priority: stringOption(options, 'priority'),
+    profile: stringOption(options, 'profile'),
+  };
+}
+
+function readHistoryOptions(options: Record<string, unknown>): HistoryOptions {
+  return {
+    since: stringOption(options, 'since'),
+    until: stringOption(options, 'until'),
+    agent: stringOption(options, 'agent'),
+    job: stringOption(options, 'job'),
+    priority: stringOption(options, 'priority'),
+    recipient: stringOption(options, 'recipient'),
+    text: stringOption(options, 'text'),
+    success: booleanOption(options, 'success'),
+    failed: booleanOption(options, 'failed'),
+    limit: stringOption(options, 'limit'),
+    json: booleanOption(options, 'json'),
+  };
+}
+
+/**
+ * Register CLI commands for testing and maintenance
+ */
+export function registerPushCli(api: { registerCli: RegisterCli; config: PushPluginApiConfig }): void {
+  api.registerCli(
+    ({ program }) => {
+      program
+        .command('push-notification:test')
+        .description('Test push notification configuration')
+        .option('--check', 'Check that the backend is reachable')
+        .option('--dry-run', 'Show the test notification payload without sending it')
+        .option('--send', 'Send a test notification and show the HTTP exchange')
+        .option('--to <name>', 'With --dry-run or --send: recipient or group to address')
+        .option('--message <text>', 'With --dry-run or --send: message of the test notification')
+        .option('--priority <priority>', 'With --dry-run or --send: low, normal or high')
+        .option('--profile <name>', 'Use this config profile instead of the default one')
+        .option('--template <name>', 'Render a configured template instead, without sending it')
+        .option('--vars <json>', 'With --template: variables as a JSON object')
+        .action((...args) => testCommand(api.config, readTestOptions(optionsArg(args, 0))));
+
+      program
+        .command('push-notification:outbox <action>')
+        .description('Manage queued notifications: list, flush or purge')
+        .option('--dead-only', 'With purge: only remove dead-lettered entries')
+        .action((...args) =>
+          outboxCommand(api.config, String(args[0]), { deadOnly: booleanOption(optionsArg(args, 1), 'deadOnly') })
+        );
+
+      program
+        .command('push-notification:history')
+        .description('Show sent notifications, newest first')
+        .option('--since <time>', 'Sent at or after an ISO 8601 time, or within a duration such as 24h or 7d')
+        .option('--until <time>', 'Sent at or before an ISO 8601 time, or a duration ago')
+        .option('--agent <id>', 'Sent by this agent ID')
+        .option('--job <id>', 'Sent by this job ID')
+        .option('--priority <priority>', 'low, normal or high')
+        .option('--recipient <name>', 'Sent to this recipient')
+        .option('--text <text>', 'Title or message contains this text')
+        .option('--success', 'Only delivered notifications')
+        .option('--failed', 'Only failed notifications')
+        .option('--limit <n>', 'Maximum number of notifications (default 20)')
+        .option('--json', 'Print the records as JSON lines')
+        .action((...args) => historyCommand(api.config, readHistoryOptions(optionsArg(args, 0))));
+
+      program
+        .command('push-notification:metrics')
+        .description('Print send counters and latency in the Prometheus text format')
+        .action(() => metricsCommand(api.config));
+    },
+    { commands: ['push-notification:test', 'push-notification:outbox', 'push-notification:history', 'push-notification:metrics'] }
+  );
+}
@@ -0,0 +1,76 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { PushConfigSchema, toJsonSchema, validatePushConfig } from './config-schema';
+
+describe('config schema', () => {
+  it('matches the schema in openclaw.plugin.json (run `npm run manifest` to update it)', () => {
+    const manifest = JSON.parse(readFileSync(join(__dirname, '..', 'openclaw.plugin.json'), 'utf8'));
+
+    expect(manifest.schema).toEqual(toJsonSchema(PushConfigSchema));
+  });
+
+  it('accepts a complete config', () => {
+    expect(
+      validatePushConfig({
+        backend: 'http',
+        backendUrl: 'https://push.example.com',
+        signing: { secret: 's3cret' },
+        retry: { maxAttempts: 5 },
+        quietHours: { timeZone: 'Europe/Berlin', windows: [{ start: '22:00', end: '07:00', days: ['mon'] }] },
+        recipients: { alice: { routingKey: 'user-1' } },
+        groups: { team: ['alice'] },
+        templates: { done: { body: 'Finished {{task}}', variables: { task: { type: 'string' } } } },
+      })
+    ).toEqual({ valid: true });
+  });
+
+  it('names unknown options and suggests the intended one', () => {
+    expect(validatePushConfig({ backendURL: 'https://push.example.com', retry: { maxAttemps: 2 }, colour: 'red' })).toEqual({
+      valid: false,
+      errors: [
+        'retry.maxAttemps: unknown option (did you mean "maxAttempts"?)',
+        'backendURL: unknown option (did you mean "backendUrl"?)',
+        'colour: unknown option',
+      ],
+    });
+  });
+
+  it('reports the path of invalid values', () => {
+    const { errors } = validatePushConfig({
+      backendUrl: 'push.example.com',
+      quietHours: { timeZone: 'Mars/Base', windows: [{ start: '25:00', end: '07:00' }] },
+      recipients: { bob: { backend: 'sms' } },
+    });
+
+    expect(errors).toEqual([
+      'backendUrl: Invalid url',
+      'quietHours.timeZone: Expected an IANA time zone, e.g. "Europe/Berlin"',
+      'quietHours.windows[0].start: Expected "HH:MM"',
+      expect.stringMatching(/^recipients\.bob\.backend: Invalid enum value/),
+    ]);
+  });
+
+  it('accepts secret references in credential fields and checks profiles', () => {
+    expect(
+      validatePushConfig({
+        apiKey: '${PUSH_API_KEY}',
+        slack: { webhookUrl: 'file:/run/secrets/slack-webhook' },
+        profiles: { staging: { backendUrl: 'https://staging.example', apiKey: 'file:/run/secrets/staging-key' } },
+        defaultProfile: 'staging',
+      })
+    ).toEqual({ valid: true });
+
+    expect(
+      validatePushConfig({
+        slack: { webhookUrl: 'hooks.slack.com' },
+        profiles: { staging: { backendURL: 'https://staging.example' } },
+        defaultProfile: 'prod',
+      }).errors
+    ).toEqual([
+      'slack.webhookUrl: Invalid url',
+      'profiles.staging.backendURL: unknown option (did you mean "backendUrl"?)',
+      'defaultProfile: Expected the name of a configured profile',
+    ]);
+  });
+});
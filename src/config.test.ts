@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
-import { resolvePushPluginEntry } from './config';
-import type { PushPluginApiConfig } from './types';
+import { applyProfile, resolveEnabledPushConfig, resolvePushPluginEntry } from './config';
+import type { PushNotificationConfig, PushPluginApiConfig } from './types';
 
 describe('resolvePushPluginEntry', () => {
   it('prefers canonical key when multiple keys are present', () => {
@@ -50,3 +50,69 @@ describe('resolvePushPluginEntry', () => {
     expect(resolvePushPluginEntry({})).toBeUndefined();
   });
 });
+
+describe('resolveEnabledPushConfig', () => {
+  it('returns the plugin config when enabled', () => {
+    const config = { backendUrl: 'https://notify.example' };
+    expect(resolveEnabledPushConfig({ plugins: { entries: { 'push-notification': { config } } } })).toEqual({ config });
+  });
+
+  it('fails when the plugin is disabled at entry or config level', () => {
+    const entryDisabled = { plugins: { entries: { 'push-notification': { enabled: false, config: { backendUrl: 'x' } } } } };
+    const configDisabled = { plugins: { entries: { 'push-notification': { config: { backendUrl: 'x', enabled: false } } } } };
+
+    expect(resolveEnabledPushConfig(entryDisabled).error).toBe('Push notification plugin is disabled');
+    expect(resolveEnabledPushConfig(configDisabled).error).toBe('Push notification plugin is disabled');
+  });
+
+  it('fails with the offending field when the config is invalid', () => {
+    const config = { plugins: { entries: { 'push-notification': { config: { backendURL: 'https://notify.example' } as never } } } };
+
+    expect(resolveEnabledPushConfig(config).error).toBe(
+      'Invalid push notification config: backendURL: unknown option (did you mean "backendUrl"?)'
+    );
+  });
+
+  it('fails when the plugin has no config', () => {
+    expect(resolveEnabledPushConfig({}).error).toContain('not configured');
+  });
+});
+
+describe('applyProfile', () => {
+  const config: PushNotificationConfig = {
+    backendUrl: 'https://notify.example',
+    apiKey: 'base-key',
+    defaultTitle: 'OpenClaw Agent',
+    profiles: {
+      staging: { backendUrl: 'https://staging.example', apiKey: '${STAGING_PUSH_KEY}' },
+      personal: { backend: 'ntfy', ntfy: { topic: 'me' }, defaultTitle: 'Home lab' },
+    },
+  };
+
+  it('replaces the settings the profile sets', () => {
+    expect(applyProfile(config, 'staging').config).toMatchObject({
+      backendUrl: 'https://staging.example',
+      apiKey: '${STAGING_PUSH_KEY}',
+      defaultTitle: 'OpenClaw Agent',
+    });
+    expect(applyProfile(config, 'personal').config).toMatchObject({ backend: 'ntfy', backendUrl: 'https://notify.example', defaultTitle: 'Home lab' });
+  });
+
+  it('uses the default profile unless one is given', () => {
+    expect(applyProfile(config).config).toBe(config);
+    expect(applyProfile({ ...config, defaultProfile: 'personal' }).config?.backend).toBe('ntfy');
+  });
+
+  it('names the configured profiles when the profile is unknown', () => {
+    expect(applyProfile(config, 'prod').error).toBe('Unknown profile "prod". Configured profiles: staging, personal');
+    expect(applyProfile({}, 'prod').error).toBe('Unknown profile "prod". No profiles are configured');
+    expect(applyProfile(config, 'toString').error).toContain('Unknown profile "toString"');
+  });
+
+  it('is applied by resolveEnabledPushConfig', () => {
+    const api = { plugins: { entries: { 'push-notification': { config } } } };
+
+    expect(resolveEnabledPushConfig(api, 'staging').config?.backendUrl).toBe('https://staging.example');
+    expect(resolveEnabledPushConfig(api, 'prod').error).toContain('Unknown profile "prod"');
+  });
+});
@@ -1,4 +1,5 @@
-import type { PluginEntryConfig, PushPluginApiConfig } from './types';
+import { validatePushConfig } from './config-schema';
+import type { PluginEntryConfig, PushErrorCode, PushNotificationConfig, PushPluginApiConfig } from './types';
 
 /**
  * Resolve this plugin entry from OpenClaw config.
@@ -15,3 +16,55 @@ export function resolvePushPluginEntry(config: PushPluginApiConfig): PluginEntry
     entries.push_notification
   );
 }
+
+export type PushConfigResolution =
+  | { config: PushNotificationConfig; error?: undefined; code?: undefined }
+  | { config?: undefined; error: string; code: PushErrorCode };
+
+/**
+ * The config with a profile's settings applied over the plugin-level ones.
+ * Without `profile`, `defaultProfile` is used if set.
+ */
+export function applyProfile(config: PushNotificationConfig, profile = config.defaultProfile): PushConfigResolution {
+  if (profile === undefined) {
+    return { config };
+  }
+  const profiles = config.profiles ?? {};
+  const overrides = Object.prototype.hasOwnProperty.call(profiles, profile) ? profiles[profile] : undefined;
+  if (!overrides) {
+    const names = Object.keys(profiles);
+    return {
+      code: 'INVALID_INPUT',
+      error: `Unknown profile "${profile}". ${names.length > 0 ? `Configured profiles: ${names.join(', ')}` : 'No profiles are configured'}`,
+    };
+  }
+  return { config: { ...config, ...overrides } };
+}
+
+/**
+ * Resolve the plugin config for tools, failing when the plugin is disabled
+ * (at entry-level or config-level), has no config at all, the config does
+ * not match the schema, or the profile is not configured.
+ */
+export function resolveEnabledPushConfig(config: PushPluginApiConfig, profile?: string): PushConfigResolution {
+  const pluginEntry = resolvePushPluginEntry(config);
+  const pluginConfig = pluginEntry?.config;
+
+  if (pluginEntry?.enabled === false || pluginConfig?.enabled === false) {
+    return { code: 'DISABLED', error: 'Push notification plugin is disabled' };
+  }
+
+  if (!pluginConfig) {
+    return {
+      code: 'NOT_CONFIGURED',
+      error: 'Push notification plugin not configured. Set plugins.entries["push-notification"].config.backendUrl in openclaw.json',
+    };
+  }
+
+  const validation = validatePushConfig(pluginConfig);
+  if (!validation.valid) {
+    return { code: 'NOT_CONFIGURED', error: `Invalid push notification config: ${validation.errors.join('; ')}` };
+  }
+
+  return applyProfile(pluginConfig, profile);
+}
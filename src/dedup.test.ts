@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createDeduplicator } from './dedup';
+import type { DedupConfig, PushNotificationPayload } from './types';
+
+function payload(message: string, title = 'OpenClaw Agent'): PushNotificationPayload {
+  return {
+    message,
+    title,
+    data: {},
+    priority: 'normal',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    idempotencyKey: 'key',
+  };
+}
+
+describe('deduplicator', () => {
+  it('flags identical title and message within the window', () => {
+    let now = 0;
+    const dedup = createDeduplicator(() => now);
+    const config: DedupConfig = { windowSeconds: 60 };
+
+    expect(dedup.check(payload('Build failed'), config).duplicate).toBe(false);
+    dedup.record(payload('Build failed'), config);
+
+    now = 10_000;
+    expect(dedup.check(payload('Build failed'), config)).toEqual({ duplicate: true, duplicateCount: 1, lastSentAt: 0 });
+    expect(dedup.check(payload('Build failed', 'Other title'), config).duplicate).toBe(false);
+    expect(dedup.check(payload('Build passed'), config).duplicate).toBe(false);
+
+    now = 60_000;
+    expect(dedup.check(payload('Build failed'), config)).toEqual({ duplicate: false, suppressedSinceLastSend: 0 });
+  });
+
+  it('reports dropped duplicates on the next send in count mode', () => {
+    let now = 0;
+    const dedup = createDeduplicator(() => now);
+    const config: DedupConfig = { windowSeconds: 60, action: 'count' };
+
+    dedup.record(payload('Disk almost full'), config);
+    now = 1_000;
+    dedup.check(payload('Disk almost full'), config);
+    expect(dedup.check(payload('Disk almost full'), config)).toMatchObject({ duplicate: true, duplicateCount: 2 });
+
+    now = 120_000;
+    expect(dedup.check(payload('Disk almost full'), config)).toEqual({ duplicate: false, suppressedSinceLastSend: 2 });
+    dedup.record(payload('Disk almost full'), config);
+    now = 300_000;
+    expect(dedup.check(payload('Disk almost full'), config)).toEqual({ duplicate: false, suppressedSinceLastSend: 0 });
+  });
+
+  it('never flags duplicates without config', () => {
+    const dedup = createDeduplicator(() => 0);
+    dedup.record(payload('Same'), undefined);
+    expect(dedup.check(payload('Same'), undefined).duplicate).toBe(false);
+  });
+});
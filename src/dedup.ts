@@ -0,0 +1,72 @@
+/**
+ * Duplicate suppression for agent-initiated sends
+ *
+ * Notifications are identified by title and message. Once one has been sent,
+ * identical ones are dropped until `windowSeconds` have passed. In "count"
+ * mode the number of dropped duplicates is handed back when the next
+ * identical notification goes out, so it can tell the user what was skipped.
+ */
+
+import { createHash } from 'node:crypto';
+import type { DedupConfig, PushNotificationPayload } from './types';
+
+export type DedupDecision =
+  | { duplicate: false; suppressedSinceLastSend: number }
+  | { duplicate: true; duplicateCount: number; lastSentAt: number };
+
+export interface Deduplicator {
+  check: (payload: PushNotificationPayload, config: DedupConfig | undefined) => DedupDecision;
+  /** Remember a notification that was actually sent (or scheduled) */
+  record: (payload: PushNotificationPayload, config: DedupConfig | undefined) => void;
+}
+
+interface SentRecord {
+  sentAt: number;
+  duplicates: number;
+}
+
+function dedupKey(payload: PushNotificationPayload): string {
+  return createHash('sha256').update(payload.title).update('\0').update(payload.message).digest('hex');
+}
+
+export function createDeduplicator(now: () => number = Date.now): Deduplicator {
+  const sent = new Map<string, SentRecord>();
+
+  const prune = (config: DedupConfig, at: number) => {
+    for (const [key, record] of sent) {
+      // In "count" mode records with dropped duplicates are kept until they are reported.
+      const unreported = config.action === 'count' && record.duplicates > 0;
+      if (at - record.sentAt >= config.windowSeconds * 1000 && !unreported) {
+        sent.delete(key);
+      }
+    }
+  };
+
+  return {
+    check: (payload, config) => {
+      if (!config) {
+        return { duplicate: false, suppressedSinceLastSend: 0 };
+      }
+      const at = now();
+      const windowMs = config.windowSeconds * 1000;
+      prune(config, at);
+
+      const record = sent.get(dedupKey(payload));
+      if (record && at - record.sentAt < windowMs) {
+        record.duplicates += 1;
+        return { duplicate: true, duplicateCount: record.duplicates, lastSentAt: record.sentAt };
+      }
+      return {
+        duplicate: false,
+        suppressedSinceLastSend: config.action === 'count' ? (record?.duplicates ?? 0) : 0,
+      };
+    },
+
+    record: (payload, config) => {
+      if (!config) {
+        return;
+      }
+      sent.set(dedupKey(payload), { sentAt: now(), duplicates: 0 });
+    },
+  };
+}
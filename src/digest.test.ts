@@ -0,0 +1,148 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildDigestPayload, createDigest, shouldDigest } from './digest';
+import { createFakeClock } from './test-utils';
+import type { DigestEntry, PushNotificationPayload } from './types';
+
+function payload(message: string, overrides: Partial<PushNotificationPayload> = {}): PushNotificationPayload {
+  return {
+    message,
+    title: 'OpenClaw Agent',
+    data: {},
+    priority: 'low',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    idempotencyKey: `key-${message}`,
+    ...overrides,
+  };
+}
+
+const START = Date.parse('2024-01-01T00:00:00.000Z');
+
+describe('shouldDigest', () => {
+  it('matches by priority, agent or job, and lets the agent decide', () => {
+    const config = { enabled: true, agentIds: ['crawler'], jobIds: ['nightly'] };
+
+    expect(shouldDigest(payload('a'), config)).toBe(true);
+    expect(shouldDigest(payload('b', { priority: 'normal' }), config)).toBe(false);
+    expect(shouldDigest(payload('c', { priority: 'normal', agentId: 'crawler' }), config)).toBe(true);
+    expect(shouldDigest(payload('d', { priority: 'normal', jobId: 'nightly' }), config)).toBe(true);
+    expect(shouldDigest(payload('e', { priority: 'normal' }), config, true)).toBe(true);
+    expect(shouldDigest(payload('f'), config, false)).toBe(false);
+  });
+
+  it('never digests high priority or when disabled', () => {
+    expect(shouldDigest(payload('a', { priority: 'high' }), { enabled: true }, true)).toBe(false);
+    expect(shouldDigest(payload('b'), { enabled: false }, true)).toBe(false);
+    expect(shouldDigest(payload('c'), undefined)).toBe(false);
+  });
+});
+
+describe('buildDigestPayload', () => {
+  const entry = (id: string, item: PushNotificationPayload): DigestEntry => ({ id, bufferedAt: item.timestamp, payload: item });
+
+  it('summarizes the items and keeps each of them in data', () => {
+    const entries = [
+      entry('1', payload('Crawled 100 pages', { title: 'Crawler', jobId: 'job-1', data: { pages: 100 } })),
+      entry('2', payload('Report ready', { title: 'Reports', jobId: 'job-1', priority: 'normal', url: 'myapp://reports/7' })),
+    ];
+
+    const summary = buildDigestPayload(entries, START + 60_000);
+
+    expect(summary).toMatchObject({
+      title: '2 updates',
+      message: '• Crawler: Crawled 100 pages\n• Reports: Report ready',
+      priority: 'normal',
+      jobId: 'job-1',
+      timestamp: '2024-01-01T00:01:00.000Z',
+      data: {
+        digest: { count: 2, from: '2024-01-01T00:00:00.000Z', to: '2024-01-01T00:00:00.000Z' },
+        items: [
+          { title: 'Crawler', message: 'Crawled 100 pages', priority: 'low', jobId: 'job-1', data: { pages: 100 } },
+          { title: 'Reports', message: 'Report ready', priority: 'normal', jobId: 'job-1', url: 'myapp://reports/7', data: {} },
+        ],
+      },
+    });
+    expect(summary.agentId).toBeUndefined();
+    expect(buildDigestPayload(entries, START).idempotencyKey).toBe(summary.idempotencyKey);
+  });
+
+  it('lists at most ten items in the message', () => {
+    const entries = Array.from({ length: 12 }, (_, index) => entry(String(index), payload(`Step ${index + 1}`)));
+
+    const summary = buildDigestPayload(entries, START);
+
+    expect(summary.title).toBe('OpenClaw Agent (12 updates)');
+    expect(summary.message.split('\n')).toHaveLength(11);
+    expect(summary.message).toMatch(/• Step 10\n…and 2 more$/);
+    expect(summary.data.items).toHaveLength(12);
+  });
+});
+
+describe('digest', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'push-digest-'));
+    path = join(dir, 'digest.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('sends one summary per recipient when the interval has passed', async () => {
+    const clock = createFakeClock(START);
+    const deliver = vi.fn().mockResolvedValue({ success: true });
+    const digest = createDigest({ path, intervalSeconds: 600, deliver, clock });
+    await digest.start();
+
+    expect(await digest.add(payload('one'))).toMatchObject({ count: 1, sendAt: '2024-01-01T00:10:00.000Z' });
+    clock.advance(60_000);
+    await digest.add(payload('two'));
+    await digest.add(payload('for bob', { recipient: 'bob' }));
+
+    expect(deliver).not.toHaveBeenCalled();
+    expect(clock.pending()).toEqual([540_000]);
+
+    clock.advance(540_000);
+    await vi.waitFor(() => expect(deliver).toHaveBeenCalledTimes(1));
+    expect(deliver.mock.calls[0]?.[0]).toMatchObject({ message: '• one\n• two' });
+    await vi.waitFor(() => expect(clock.pending()).toEqual([60_000]));
+
+    clock.advance(60_000);
+    await vi.waitFor(() => expect(deliver).toHaveBeenCalledTimes(2));
+    // A single buffered notification goes out unchanged.
+    expect(deliver.mock.calls[1]?.[0]).toEqual(payload('for bob', { recipient: 'bob' }));
+    expect(await digest.list()).toEqual([]);
+  });
+
+  it('sends the summary right away once the buffer is full', async () => {
+    const deliver = vi.fn().mockResolvedValue({ success: true });
+    const digest = createDigest({ path, maxItems: 2, deliver, clock: createFakeClock(START) });
+
+    await digest.add(payload('one'));
+    const result = await digest.add(payload('two'));
+
+    expect(result).toMatchObject({ count: 2, sent: true, sendAt: '2024-01-01T00:00:00.000Z' });
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(await digest.list()).toEqual([]);
+  });
+
+  it('survives restarts and sends summaries that came due while stopped', async () => {
+    const clock = createFakeClock(START);
+    const first = createDigest({ path, deliver: vi.fn(), clock });
+    await first.add(payload('one'));
+    await first.add(payload('two'));
+    first.stop();
+
+    clock.advance(3_600_000);
+    const deliver = vi.fn().mockResolvedValue({ success: true });
+    await createDigest({ path, deliver, clock }).start();
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(deliver.mock.calls[0]?.[0]).toMatchObject({ title: 'OpenClaw Agent (2 updates)' });
+  });
+});
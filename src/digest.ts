@@ -0,0 +1,199 @@
+/**
+ * Digest of routine notifications
+ *
+ * Notifications matching the digest rules are buffered in a JSON file and
+ * sent as one summary per recipient, `intervalSeconds` after the first of
+ * them was buffered or as soon as `maxItems` are waiting. Like the scheduler,
+ * `start` re-arms the timer from disk, so the buffer survives restarts.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import { DEFAULT_STATE_DIR, readJsonList, withFileLock, writeJsonList } from './store';
+import { createRearmableTimer, deliverThenRemove, systemClock } from './timer';
+import type { Clock, DigestConfig, DigestEntry, PushDigestResult, PushNotificationPayload } from './types';
+
+export const DEFAULT_DIGEST_PATH = join(DEFAULT_STATE_DIR, 'digest.json');
+export const DEFAULT_DIGEST_INTERVAL_SECONDS = 60 * 60;
+export const DEFAULT_DIGEST_MAX_ITEMS = 20;
+
+/** Items listed in the summary message; all of them are kept in its data. */
+const MAX_SUMMARY_LINES = 10;
+
+export interface PushDigest {
+  path: string;
+  /** Load the buffer from disk, send overdue summaries and arm the timer */
+  start: () => Promise<void>;
+  stop: () => void;
+  /** Buffer a notification; the summary is sent right away once the buffer is full */
+  add: (payload: PushNotificationPayload) => Promise<PushDigestResult>;
+  list: () => Promise<DigestEntry[]>;
+  /** Send the summaries that are due, or all of them with `force`; returns how many were sent */
+  flush: (options?: { force?: boolean }) => Promise<number>;
+}
+
+export interface DigestOptions extends DigestConfig {
+  deliver: (payload: PushNotificationPayload) => Promise<unknown>;
+  clock?: Clock;
+}
+
+const readEntries = (path: string) => readJsonList<DigestEntry>(path, 'entries');
+const writeEntries = (path: string, entries: DigestEntry[]) => writeJsonList(path, 'entries', entries);
+
+/**
+ * Whether a notification goes to the digest. `requested` is the agent's
+ * `digest` flag, which overrides the rules; high priority always bypasses.
+ */
+export function shouldDigest(payload: PushNotificationPayload, config: DigestConfig | undefined, requested?: boolean): boolean {
+  if (!config?.enabled || payload.priority === 'high' || requested === false) {
+    return false;
+  }
+  if (requested) {
+    return true;
+  }
+  return (
+    (config.priorities ?? ['low']).includes(payload.priority) ||
+    (payload.agentId !== undefined && (config.agentIds ?? []).includes(payload.agentId)) ||
+    (payload.jobId !== undefined && (config.jobIds ?? []).includes(payload.jobId))
+  );
+}
+
+/** Payloads summarized together: same recipient, sent with the same profile. */
+const sameGroup = (a: PushNotificationPayload, b: PushNotificationPayload) =>
+  a.recipient === b.recipient && a.profile === b.profile;
+
+/** Buffered entries per recipient and profile, oldest first. */
+function groupByRecipient(entries: DigestEntry[]): DigestEntry[][] {
+  const groups: DigestEntry[][] = [];
+  for (const entry of entries) {
+    const group = groups.find((candidate) => sameGroup((candidate[0] as DigestEntry).payload, entry.payload));
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * One notification summarizing the buffered ones, which are kept in `data.items`.
+ */
+export function buildDigestPayload(entries: DigestEntry[], now: number): PushNotificationPayload {
+  const payloads = entries.map((entry) => entry.payload);
+  const first = payloads[0] as PushNotificationPayload;
+  const shared = <K extends 'title' | 'jobId' | 'agentId'>(key: K): PushNotificationPayload[K] | undefined =>
+    payloads.every((payload) => payload[key] === first[key]) ? first[key] : undefined;
+
+  const title = shared('title');
+  const jobId = shared('jobId');
+  const agentId = shared('agentId');
+  const lines = payloads
+    .slice(0, MAX_SUMMARY_LINES)
+    .map((payload) => (title ? `• ${payload.message}` : `• ${payload.title}: ${payload.message}`));
+  if (payloads.length > MAX_SUMMARY_LINES) {
+    lines.push(`…and ${payloads.length - MAX_SUMMARY_LINES} more`);
+  }
+
+  return {
+    title: title ? `${title} (${payloads.length} updates)` : `${payloads.length} updates`,
+    message: lines.join('\n'),
+    data: {
+      digest: { count: payloads.length, from: first.timestamp, to: payloads[payloads.length - 1]?.timestamp },
+      items: payloads.map((payload) => ({
+        title: payload.title,
+        message: payload.message,
+        priority: payload.priority,
+        timestamp: payload.timestamp,
+        ...(payload.jobId && { jobId: payload.jobId }),
+        ...(payload.agentId && { agentId: payload.agentId }),
+        ...(payload.url && { url: payload.url }),
+        data: payload.data,
+      })),
+    },
+    priority: payloads.some((payload) => payload.priority === 'normal') ? 'normal' : 'low',
+    ...(jobId && { jobId }),
+    ...(agentId && { agentId }),
+    timestamp: new Date(now).toISOString(),
+    // The same entries give the same key, so a summary re-sent after a crash is dropped by the backend.
+    idempotencyKey: `digest-${createHash('sha256').update(entries.map((entry) => entry.id).join(',')).digest('hex').slice(0, 32)}`,
+    ...(first.recipient && { recipient: first.recipient }),
+    ...(first.routingKey && { routingKey: first.routingKey }),
+    ...(first.profile && { profile: first.profile }),
+  };
+}
+
+export function createDigest(options: DigestOptions): PushDigest {
+  const path = options.path || DEFAULT_DIGEST_PATH;
+  const clock = options.clock ?? systemClock;
+  const intervalMs = (options.intervalSeconds ?? DEFAULT_DIGEST_INTERVAL_SECONDS) * 1000;
+  const maxItems = options.maxItems ?? DEFAULT_DIGEST_MAX_ITEMS;
+
+  const dueAt = (group: DigestEntry[]) => Date.parse((group[0] as DigestEntry).bufferedAt) + intervalMs;
+
+  const timer = createRearmableTimer({
+    clock,
+    nextDueAt: async () => {
+      const entries = await withFileLock(path, () => readEntries(path));
+      return entries.length > 0 ? Math.min(...groupByRecipient(entries).map(dueAt)) : undefined;
+    },
+    fire: () => void flush(),
+  });
+
+  const flush = async ({ force = false }: { force?: boolean } = {}): Promise<number> => {
+    const sent = await withFileLock(path, async () => {
+      const due = groupByRecipient(await readEntries(path)).filter(
+        (group) => force || group.length >= maxItems || dueAt(group) <= clock.now()
+      );
+      for (const group of due) {
+        // A single notification is sent as it is.
+        const payload = group.length === 1 ? (group[0] as DigestEntry).payload : buildDigestPayload(group, clock.now());
+        const ids = new Set(group.map((entry) => entry.id));
+        await deliverThenRemove(
+          () => options.deliver(payload),
+          async () => writeEntries(path, (await readEntries(path)).filter((entry) => !ids.has(entry.id)))
+        );
+      }
+      return due.length;
+    });
+    await timer.arm();
+    return sent;
+  };
+
+  return {
+    path,
+
+    start: async () => {
+      timer.start();
+      await flush();
+    },
+
+    stop: timer.stop,
+
+    add: async (payload) => {
+      const entry: DigestEntry = { id: randomUUID(), bufferedAt: new Date(clock.now()).toISOString(), payload };
+      const group = await withFileLock(path, async () => {
+        const entries = await readEntries(path);
+        entries.push(entry);
+        await writeEntries(path, entries);
+        return entries.filter((buffered) => sameGroup(buffered.payload, payload));
+      });
+      const full = group.length >= maxItems;
+      if (full) {
+        await flush();
+      } else {
+        await timer.arm();
+      }
+      return {
+        id: entry.id,
+        count: group.length,
+        sendAt: new Date(full ? clock.now() : dueAt(group)).toISOString(),
+        ...(full && { sent: true }),
+      };
+    },
+
+    list: () => withFileLock(path, () => readEntries(path)),
+
+    flush,
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { codeForException, codeForStatus, describeRetryAdvice, parseToolInput } from './errors';
+
+describe('codeForStatus', () => {
+  it('classifies backend error responses', () => {
+    expect(codeForStatus(401)).toBe('AUTH');
+    expect(codeForStatus(403)).toBe('AUTH');
+    expect(codeForStatus(408)).toBe('TIMEOUT');
+    expect(codeForStatus(429)).toBe('RATE_LIMITED');
+    expect(codeForStatus(400)).toBe('BACKEND_4XX');
+    expect(codeForStatus(503)).toBe('BACKEND_5XX');
+  });
+});
+
+describe('codeForException', () => {
+  it('tells timeouts from cancelled requests and network errors', () => {
+    const aborted = AbortSignal.abort();
+    expect(codeForException(new DOMException('Request timed out after 10ms', 'TimeoutError'), aborted)).toBe('TIMEOUT');
+    expect(codeForException(new DOMException('This operation was aborted', 'AbortError'), aborted)).toBe('CANCELLED');
+    expect(codeForException(new TypeError('fetch failed'))).toBe('NETWORK');
+  });
+});
+
+describe('describeRetryAdvice', () => {
+  it('says whether retrying makes sense', () => {
+    expect(describeRetryAdvice('BACKEND_5XX')).toContain('retrying later may help');
+    expect(describeRetryAdvice('AUTH')).toContain('retrying will not help');
+  });
+});
+
+describe('parseToolInput', () => {
+  it('returns every issue instead of throwing', () => {
+    const schema = z.object({ message: z.string().min(1), priority: z.enum(['low', 'high']).optional() });
+
+    expect(parseToolInput(schema, { message: 'Hi' })).toEqual({ params: { message: 'Hi' } });
+    expect(parseToolInput(schema, { message: '', priority: 'urgent' }).error).toBe(
+      "Invalid input: message: String must contain at least 1 character(s); priority: Invalid enum value. Expected 'low' | 'high', received 'urgent'"
+    );
+    expect(parseToolInput(schema, 'text').error).toBe('Invalid input: input: Expected object, received string');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Error codes for failed sends
+ *
+ * Every failure result carries a `code` from `PushErrorCode`, so agents and
+ * hooks can tell a misconfiguration from an unreachable backend or a device
+ * that is gone. Backends classify their own HTTP and network failures with
+ * the helpers below; provider-specific codes (e.g. Expo's
+ * "DeviceNotRegistered") stay on the individual tickets.
+ */
+
+import type { z } from 'zod';
+import type { PushErrorCode } from './types';
+
+/** What the agent should do about each failure, for the tool text. */
+const RETRY_ADVICE: Record<PushErrorCode, string> = {
+  DISABLED: 'The plugin is disabled; do not retry.',
+  NOT_CONFIGURED: 'The plugin configuration needs fixing; retrying will not help.',
+  NOT_SUPPORTED: 'The backend does not support this; retrying will not help.',
+  INVALID_INPUT: 'Fix the parameters and try again.',
+  INVALID_TEMPLATE: 'Fix the template variables and try again.',
+  UNSUPPORTED_CONTENT: 'Remove the unsupported fields and try again.',
+  REDACTION_BLOCKED: 'Remove the sensitive content and try again.',
+  DUPLICATE: 'The user already has it; do not retry.',
+  RATE_LIMITED: 'Wait before retrying, and combine updates into fewer notifications.',
+  QUIET_HOURS: 'Do not retry before quiet hours end.',
+  TIMEOUT: 'The backend did not answer in time; retrying later may help.',
+  CANCELLED: 'The send was cancelled.',
+  NETWORK: 'The backend could not be reached; retrying later may help.',
+  AUTH: 'The backend rejected the credentials; retrying will not help until the configuration is fixed.',
+  BACKEND_4XX: 'The backend rejected the notification; retrying it unchanged will not help.',
+  BACKEND_5XX: 'The backend had an error; retrying later may help.',
+  BACKEND_UNAVAILABLE: 'The backend failed recently and is being skipped; retrying later may help.',
+  DEVICE_UNREGISTERED: 'The device is no longer registered; retrying will not help.',
+  PARTIAL_FAILURE: 'Retry only for the recipients that failed.',
+  STORAGE_ERROR: 'Local storage failed; retrying later may help.',
+};
+
+/**
+ * One sentence telling the agent whether a retry makes sense.
+ */
+export function describeRetryAdvice(code: PushErrorCode | undefined): string {
+  return code ? RETRY_ADVICE[code] : 'Retrying later may help.';
+}
+
+/**
+ * Code for an HTTP error response from a backend.
+ */
+export function codeForStatus(status: number): PushErrorCode {
+  if (status === 401 || status === 403) {
+    return 'AUTH';
+  }
+  if (status === 408) {
+    return 'TIMEOUT';
+  }
+  if (status === 429) {
+    return 'RATE_LIMITED';
+  }
+  return status >= 500 ? 'BACKEND_5XX' : 'BACKEND_4XX';
+}
+
+/**
+ * Code for a request that threw: the request timeout fired, the caller
+ * aborted, or the network failed.
+ */
+export function codeForException(error: unknown, signal?: AbortSignal): PushErrorCode {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return 'TIMEOUT';
+  }
+  return signal?.aborted ? 'CANCELLED' : 'NETWORK';
+}
+
+/** Zod issues as "field: message" strings; issues without a path are labelled `root`. */
+export function formatIssues(error: z.ZodError, root = 'input'): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || root}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Validate tool input, describing every problem instead of throwing.
+ */
+export function parseToolInput<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  input: unknown
+): { params: T; error?: undefined } | { params?: undefined; error: string } {
+  const parsed = schema.safeParse(input);
+  return parsed.success ? { params: parsed.data } : { error: `Invalid input: ${formatIssues(parsed.error)}` };
+}
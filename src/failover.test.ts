@@ -0,0 +1,183 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getBackendHealth, resetBackendHealth, sendWithFailover } from './failover';
+import type { PushBackend, PushBackendResult, PushNotificationConfig, PushNotificationPayload } from './types';
+
+const payload: PushNotificationPayload = {
+  message: 'Disk almost full',
+  title: 'OpenClaw Agent',
+  data: {},
+  priority: 'high',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  idempotencyKey: 'key-1',
+};
+
+const config: PushNotificationConfig = {
+  backendUrl: 'https://relay.example',
+  webhook: { url: 'https://hooks.example/push' },
+  ntfy: { topic: 'alerts' },
+  failover: {
+    backends: [
+      { name: 'webhook', backend: 'webhook' },
+      { name: 'ntfy', backend: 'ntfy' },
+    ],
+    failureThreshold: 2,
+    cooldownSeconds: 60,
+  },
+};
+
+const START = Date.parse('2024-01-01T00:00:00.000Z');
+const down: PushBackendResult = { success: false, error: 'Backend returned 503', retry: {} };
+
+/** A send function answering per backend type. */
+function sender(results: Partial<Record<PushBackend['name'], PushBackendResult>>) {
+  return vi.fn(async (backend: PushBackend) => results[backend.name] ?? { success: true });
+}
+
+describe('sendWithFailover', () => {
+  afterEach(() => {
+    resetBackendHealth();
+  });
+
+  it('fails over to the next backend and reports the chain', async () => {
+    const send = sender({ http: down });
+
+    const { result, backend } = await sendWithFailover(config, payload, send);
+
+    expect(result).toMatchObject({
+      success: true,
+      deliveredBy: 'webhook',
+      backends: [
+        { name: 'primary', backend: 'http', status: 'failed', error: 'Backend returned 503' },
+        { name: 'webhook', backend: 'webhook', status: 'sent' },
+      ],
+    });
+    expect(backend?.name).toBe('webhook');
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('opens the circuit after repeated failures and probes once after the cooldown', async () => {
+    let now = START;
+    const clock = () => now;
+    const send = sender({ http: down });
+
+    await sendWithFailover(config, payload, send, undefined, clock);
+    await sendWithFailover(config, payload, send, undefined, clock);
+    send.mockClear();
+    const skipped = await sendWithFailover(config, payload, send, undefined, clock);
+
+    expect(send.mock.calls.map(([backend]) => backend.name)).toEqual(['webhook']);
+    expect(skipped.result.backends?.[0]).toEqual({
+      name: 'primary',
+      backend: 'http',
+      status: 'skipped',
+      error: 'circuit open until 2024-01-01T00:01:00.000Z',
+    });
+    expect(getBackendHealth()).toMatchObject([
+      { name: 'primary', state: 'open', consecutiveFailures: 2, lastError: 'Backend returned 503' },
+      { name: 'webhook', state: 'closed', consecutiveFailures: 0 },
+    ]);
+
+    now += 60_000;
+    send.mockClear();
+    const probe = await sendWithFailover(config, payload, sender({}), undefined, clock);
+
+    expect(probe.result.deliveredBy).toBe('primary');
+    expect(getBackendHealth()[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('does not count rejected notifications toward opening the circuit', async () => {
+    const rejected: PushBackendResult = { success: false, error: 'Backend returned 400', code: 'BACKEND_4XX' };
+    const send = sender({ http: rejected });
+
+    for (let i = 0; i < 3; i++) {
+      await sendWithFailover(config, payload, send);
+    }
+    send.mockClear();
+    await sendWithFailover(config, payload, send);
+
+    expect(send.mock.calls[0]?.[0].name).toBe('http');
+    expect(getBackendHealth().map((entry) => entry.name)).toEqual(['webhook']);
+  });
+
+  it('keeps the circuit open when a probe is cancelled', async () => {
+    let now = START;
+    const clock = () => now;
+    const send = sender({ http: down });
+
+    await sendWithFailover(config, payload, send, undefined, clock);
+    await sendWithFailover(config, payload, send, undefined, clock);
+    now += 60_000;
+    const controller = new AbortController();
+    const cancelled = vi.fn(async (): Promise<PushBackendResult> => {
+      controller.abort();
+      return { success: false, error: 'The send was cancelled', code: 'CANCELLED' };
+    });
+    await sendWithFailover(config, payload, cancelled, controller.signal, clock);
+
+    expect(cancelled).toHaveBeenCalledTimes(1);
+    expect(getBackendHealth()[0]).toMatchObject({
+      name: 'primary',
+      state: 'open',
+      consecutiveFailures: 2,
+      openUntil: '2024-01-01T00:01:00.000Z',
+    });
+    const probe = await sendWithFailover(config, payload, sender({}), undefined, clock);
+    expect(probe.result.deliveredBy).toBe('primary');
+  });
+
+  it('keeps separate circuits for each profile', async () => {
+    const profiles: PushNotificationConfig = {
+      ...config,
+      profiles: { staging: { backendUrl: 'https://staging.example' }, prod: { backendUrl: 'https://prod.example' } },
+    };
+    const staging = { ...profiles, backendUrl: 'https://staging.example' };
+    const prod = { ...profiles, backendUrl: 'https://prod.example' };
+    const send = sender({ http: down });
+
+    await sendWithFailover(staging, { ...payload, profile: 'staging' }, send);
+    await sendWithFailover(staging, { ...payload, profile: 'staging' }, send);
+    send.mockClear();
+    const { result } = await sendWithFailover(prod, { ...payload, profile: 'prod' }, sender({}));
+
+    expect(result.deliveredBy).toBe('primary');
+    expect(getBackendHealth()).toMatchObject([
+      { name: 'primary', profile: 'staging', state: 'open', consecutiveFailures: 2 },
+      { name: 'webhook', profile: 'staging', state: 'closed' },
+      { name: 'primary', profile: 'prod', state: 'closed', consecutiveFailures: 0 },
+    ]);
+  });
+
+  it('skips backends that cannot show the content', async () => {
+    const send = sender({ http: down });
+
+    const { result } = await sendWithFailover(config, { ...payload, threadId: 'job-1' }, send);
+
+    expect(result.deliveredBy).toBe('webhook');
+    const ntfyOnly = { ...config, failover: { backends: [{ name: 'ntfy', backend: 'ntfy' as const }] } };
+    const { result: failed } = await sendWithFailover(ntfyOnly, { ...payload, threadId: 'job-1' }, send);
+    expect(failed.backends?.[1]).toEqual({ name: 'ntfy', backend: 'ntfy', status: 'skipped', error: 'does not support threadId' });
+  });
+
+  it('fails with every backend listed and keeps the retry hint for the outbox', async () => {
+    const send = sender({ http: down, webhook: { success: false, error: 'Webhook returned 400' }, ntfy: down });
+
+    const { result } = await sendWithFailover(config, payload, send);
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'All backends failed: primary (Backend returned 503), webhook (Webhook returned 400), ntfy (Backend returned 503)',
+      retry: {},
+    });
+  });
+
+  it('sends recipient notifications only through the recipient backend', async () => {
+    const send = sender({ http: down });
+    const withRecipient = { ...config, recipients: { alice: { backendUrl: 'https://alice.example' } } };
+
+    const { result } = await sendWithFailover(withRecipient, { ...payload, recipient: 'alice' }, send);
+
+    expect(result).toEqual(down);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(getBackendHealth()).toEqual([]);
+  });
+});
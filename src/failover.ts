@@ -0,0 +1,265 @@
+/**
+ * Failover across backends, with a circuit breaker per backend
+ *
+ * With `failover.backends` configured, a notification for the default target
+ * goes to the plugin-level backend ("primary") first and, when that fails, to
+ * each failover backend in order. After `failureThreshold` consecutive
+ * failures a backend's circuit opens and it is skipped for `cooldownSeconds`;
+ * then a single probe decides whether it is healthy again. Health lives in
+ * memory for the lifetime of the process.
+ *
+ * Notifications for a named recipient use only the recipient's backend.
+ */
+
+import { resolvePushBackend, unsupportedContentFields, type PushBackendResolution } from './backends';
+import { resolvePayloadBackend, resolveRecipientConfig } from './recipients';
+import { withRequestTimeout } from './retry';
+import type {
+  BackendHealth,
+  PushBackend,
+  PushBackendAttempt,
+  PushBackendResult,
+  PushNotificationConfig,
+  PushNotificationPayload,
+} from './types';
+
+export const PRIMARY_BACKEND_NAME = 'primary';
+export const DEFAULT_FAILURE_THRESHOLD = 3;
+export const DEFAULT_COOLDOWN_SECONDS = 60;
+
+/** Health by profile and backend name, since every profile has its own "primary". */
+const health = new Map<string, BackendHealth>();
+
+/** Which circuit a candidate uses: its name within the profile the config was resolved for. */
+interface HealthTarget {
+  key: string;
+  name: string;
+  profile?: string;
+}
+
+function healthTarget(name: string, profile: string | undefined): HealthTarget {
+  return { key: JSON.stringify([profile ?? null, name]), name, ...(profile !== undefined && { profile }) };
+}
+
+/**
+ * Health of every backend that has been used, in the order first seen.
+ */
+export function getBackendHealth(): BackendHealth[] {
+  return [...health.values()].map((entry) => ({ ...entry }));
+}
+
+/** Forget all health, closing every circuit. */
+export function resetBackendHealth(): void {
+  health.clear();
+}
+
+/**
+ * Whether the circuit lets a send through now. An open circuit whose
+ * cooldown has passed lets exactly one probe through.
+ */
+function admit(target: HealthTarget, now: number): string | undefined {
+  const entry = health.get(target.key);
+  if (!entry || entry.state === 'closed') {
+    return undefined;
+  }
+  if (entry.state === 'half_open') {
+    return 'circuit half-open, probe in progress';
+  }
+  if (Date.parse(entry.openUntil ?? '') > now) {
+    return `circuit open until ${entry.openUntil}`;
+  }
+  entry.state = 'half_open';
+  return undefined;
+}
+
+function markSuccess(target: HealthTarget, now: number): void {
+  const previous = health.get(target.key);
+  health.set(target.key, {
+    ...previous,
+    name: target.name,
+    ...(target.profile !== undefined && { profile: target.profile }),
+    state: 'closed',
+    consecutiveFailures: 0,
+    openUntil: undefined,
+    lastSuccessAt: new Date(now).toISOString(),
+  });
+}
+
+/**
+ * A backend that rejected the notification itself is reachable: a pending
+ * probe closes the circuit, but the rejection does not count as a failure.
+ */
+function markRejected(target: HealthTarget): void {
+  const entry = health.get(target.key);
+  if (entry?.state === 'half_open') {
+    health.set(target.key, { ...entry, state: 'closed', consecutiveFailures: 0, openUntil: undefined });
+  }
+}
+
+/**
+ * A cancelled attempt says nothing about the backend: a pending probe goes
+ * back to open with its earlier `openUntil`, so the next notification probes.
+ */
+function markCancelled(target: HealthTarget): void {
+  const entry = health.get(target.key);
+  if (entry?.state === 'half_open') {
+    health.set(target.key, { ...entry, state: 'open' });
+  }
+}
+
+function markFailure(target: HealthTarget, error: string | undefined, now: number, config: PushNotificationConfig): void {
+  const previous = health.get(target.key);
+  const consecutiveFailures = (previous?.consecutiveFailures ?? 0) + 1;
+  // A failed probe re-opens the circuit right away.
+  const open =
+    previous?.state === 'half_open' || consecutiveFailures >= (config.failover?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD);
+  const cooldownMs = (config.failover?.cooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS) * 1000;
+  health.set(target.key, {
+    ...previous,
+    name: target.name,
+    ...(target.profile !== undefined && { profile: target.profile }),
+    state: open ? 'open' : 'closed',
+    consecutiveFailures,
+    openUntil: open ? new Date(now + cooldownMs).toISOString() : undefined,
+    lastError: error,
+    lastFailureAt: new Date(now).toISOString(),
+  });
+}
+
+/**
+ * The backends to try in order, each with the config it is resolved from.
+ */
+function failoverChain(config: PushNotificationConfig): Array<{ name: string; config: PushNotificationConfig }> {
+  return [
+    { name: PRIMARY_BACKEND_NAME, config },
+    ...(config.failover?.backends ?? []).map(({ name, ...overrides }) => ({ name, config: { ...config, ...overrides } })),
+  ];
+}
+
+/**
+ * The backend a payload for the default target was delivered by, from the
+ * result's `deliveredBy`; the plugin-level backend when there was no failover.
+ */
+export function resolveDeliveringBackend(config: PushNotificationConfig, deliveredBy: string | undefined): PushBackendResolution {
+  const candidate = failoverChain(config).find((entry) => entry.name === (deliveredBy ?? PRIMARY_BACKEND_NAME));
+  if (!candidate) {
+    return { error: `Backend "${deliveredBy}" is no longer configured` };
+  }
+  return resolvePushBackend(candidate.config);
+}
+
+export type SendToBackend = (backend: PushBackend) => Promise<PushBackendResult>;
+
+export interface RoutedSendResult {
+  /** With failover, `deliveredBy` and `backends` report the chain */
+  result: PushBackendResult;
+  /** The backend that delivered, else the last one tried; undefined when none could be resolved */
+  backend?: PushBackend;
+  /** The config `backend` was resolved from */
+  config?: PushNotificationConfig;
+}
+
+/**
+ * Send a payload through its recipient's backend, or through the failover
+ * chain. `send` makes the attempt, e.g. with retries.
+ */
+export async function sendWithFailover(
+  config: PushNotificationConfig,
+  payload: PushNotificationPayload,
+  send: SendToBackend,
+  signal?: AbortSignal,
+  now: () => number = Date.now
+): Promise<RoutedSendResult> {
+  if (payload.recipient !== undefined || !config.failover?.backends?.length) {
+    const { backend, error } = resolvePayloadBackend(config, payload);
+    if (!backend) {
+      return { result: { success: false, error, code: 'NOT_CONFIGURED' } };
+    }
+    const targetConfig = payload.recipient !== undefined ? resolveRecipientConfig(config, payload.recipient) : config;
+    return { result: await send(backend), backend, config: targetConfig };
+  }
+
+  // `config` has this profile applied (see applyProfile).
+  const profile = payload.profile ?? config.defaultProfile;
+  const backends: PushBackendAttempt[] = [];
+  let last: RoutedSendResult | undefined;
+  // Worth queueing for later when a backend failed transiently or was only skipped for its circuit.
+  let transient = false;
+
+  for (const candidate of failoverChain(config)) {
+    if (signal?.aborted) {
+      break;
+    }
+    const { backend, error } = resolvePushBackend(candidate.config);
+    if (!backend) {
+      backends.push({ name: candidate.name, status: 'skipped', error });
+      continue;
+    }
+    const unsupported = unsupportedContentFields(backend, payload);
+    if (unsupported.length > 0) {
+      backends.push({ name: candidate.name, backend: backend.name, status: 'skipped', error: `does not support ${unsupported.join(', ')}` });
+      continue;
+    }
+    const target = healthTarget(candidate.name, profile);
+    const closed = admit(target, now());
+    if (closed) {
+      backends.push({ name: candidate.name, backend: backend.name, status: 'skipped', error: closed });
+      transient = true;
+      last = last ?? { result: { success: false, error: closed, code: 'BACKEND_UNAVAILABLE' }, backend, config: candidate.config };
+      continue;
+    }
+
+    const result = await send(backend);
+    if (result.success) {
+      markSuccess(target, now());
+      backends.push({ name: candidate.name, backend: backend.name, status: 'sent' });
+      return { result: { ...result, deliveredBy: candidate.name, backends }, backend, config: candidate.config };
+    }
+    // Like retries, the circuit only counts transient failures, not a bad payload.
+    if (result.code === 'CANCELLED' || signal?.aborted) {
+      markCancelled(target);
+    } else if (result.retry) {
+      markFailure(target, result.error, now(), config);
+    } else {
+      markRejected(target);
+    }
+    backends.push({ name: candidate.name, backend: backend.name, status: 'failed', error: result.error });
+    transient = transient || Boolean(result.retry);
+    last = { result, backend, config: candidate.config };
+  }
+
+  const summary = backends.map((attempt) => `${attempt.name} (${attempt.error ?? 'Unknown error'})`).join(', ');
+  const { retry, ...failed } = last?.result ?? { success: false };
+  return {
+    result: {
+      ...failed,
+      success: false,
+      error: `All backends failed: ${summary}`,
+      // Without a last attempt, every backend was skipped for its config or content.
+      code: failed.code ?? 'NOT_CONFIGURED',
+      backends,
+      ...(transient && { retry: retry ?? {} }),
+    },
+    backend: last?.backend,
+    config: last?.config,
+  };
+}
+
+/**
+ * Send a payload through its recipient's backend, or the failover chain. A
+ * payload that can no longer be routed fails without a retry hint, so the
+ * outbox dead-letters it.
+ */
+export async function sendRoutedPayload(
+  config: PushNotificationConfig,
+  payload: PushNotificationPayload,
+  signal?: AbortSignal
+): Promise<PushBackendResult> {
+  const { result } = await sendWithFailover(
+    config,
+    payload,
+    (backend) => withRequestTimeout((requestSignal) => backend.send(payload, requestSignal), config.requestTimeoutMs, signal),
+    signal
+  );
+  return result;
+}
@@ -0,0 +1,88 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createHistory, parseHistoryTime } from './history';
+import type { PushHistoryRecord, PushNotificationPayload } from './types';
+
+function record(overrides: Partial<PushNotificationPayload> & { sentAt: string; success?: boolean; recipient?: string }) {
+  const { sentAt, success = true, recipient, ...payload } = overrides;
+  return {
+    sentAt,
+    payload: {
+      message: 'Build finished',
+      title: 'CI',
+      data: {},
+      priority: 'normal',
+      agentId: 'agent-1',
+      jobId: 'job-1',
+      timestamp: sentAt,
+      idempotencyKey: sentAt,
+      ...payload,
+    } as PushNotificationPayload,
+    target: { backend: 'http' as const, ...(recipient && { recipient }) },
+    success,
+    latencyMs: 12,
+  };
+}
+
+describe('notification history', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'push-history-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends records and queries them newest first', async () => {
+    const history = createHistory({ path: join(dir, 'history.jsonl') });
+    await history.append(record({ sentAt: '2024-01-01T08:00:00.000Z', message: 'Deploy started' }));
+    await history.append(record({ sentAt: '2024-01-01T09:00:00.000Z', priority: 'high', success: false }));
+    await history.append(record({ sentAt: '2024-01-01T10:00:00.000Z', agentId: 'agent-2', recipient: 'alice' }));
+
+    const all = await history.query();
+    expect(all.map((entry) => entry.sentAt)).toEqual([
+      '2024-01-01T10:00:00.000Z',
+      '2024-01-01T09:00:00.000Z',
+      '2024-01-01T08:00:00.000Z',
+    ]);
+    expect(all[0]?.id).toEqual(expect.any(String));
+
+    const sentAt = (entries: PushHistoryRecord[]) => entries.map((entry) => entry.sentAt);
+    expect(sentAt(await history.query({ text: 'DEPLOY' }))).toEqual(['2024-01-01T08:00:00.000Z']);
+    expect(sentAt(await history.query({ success: false }))).toEqual(['2024-01-01T09:00:00.000Z']);
+    expect(sentAt(await history.query({ priority: 'high' }))).toEqual(['2024-01-01T09:00:00.000Z']);
+    expect(sentAt(await history.query({ agentId: 'agent-2', recipient: 'alice' }))).toEqual(['2024-01-01T10:00:00.000Z']);
+    expect(
+      sentAt(await history.query({ since: new Date('2024-01-01T08:30:00Z'), until: new Date('2024-01-01T09:30:00Z') }))
+    ).toEqual(['2024-01-01T09:00:00.000Z']);
+    expect(sentAt(await history.query({ limit: 1 }))).toEqual(['2024-01-01T10:00:00.000Z']);
+  });
+
+  it('rotates by size and keeps at most maxFiles old files', async () => {
+    const path = join(dir, 'history.jsonl');
+    const history = createHistory({ path, maxFileBytes: 1024, maxFiles: 2 });
+
+    for (let hour = 0; hour < 10; hour++) {
+      await history.append(record({ sentAt: `2024-01-01T${String(hour).padStart(2, '0')}:00:00.000Z` }));
+    }
+
+    expect((await readdir(dir)).sort()).toEqual(['history.jsonl', 'history.jsonl.1', 'history.jsonl.2']);
+    const kept = await history.query({ limit: 100 });
+    expect(kept[0]?.sentAt).toBe('2024-01-01T09:00:00.000Z');
+    expect(kept.length).toBeLessThan(10);
+    // Still newest first across files.
+    expect(kept.map((entry) => entry.sentAt)).toEqual([...kept.map((entry) => entry.sentAt)].sort().reverse());
+  });
+
+  it('parses ISO times and durations', () => {
+    const now = Date.parse('2024-01-02T00:00:00.000Z');
+    expect(parseHistoryTime('24h', now)?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(parseHistoryTime('30m', now)?.toISOString()).toBe('2024-01-01T23:30:00.000Z');
+    expect(parseHistoryTime('2024-01-01T12:00:00Z', now)?.toISOString()).toBe('2024-01-01T12:00:00.000Z');
+    expect(parseHistoryTime('yesterday', now)).toBeUndefined();
+  });
+});
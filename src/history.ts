@@ -0,0 +1,175 @@
+/**
+ * Local notification history
+ *
+ * Every delivery is appended as one JSON line, so the file is never
+ * rewritten. When it grows past `maxFileBytes` it is renamed to
+ * `<path>.1` (older files shift to `.2`, `.3`, ...) and a new file is
+ * started; files beyond `maxFiles` are deleted.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { appendFile, mkdir, readFile, rename, rm, stat } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { DEFAULT_STATE_DIR, withFileLock } from './store';
+import type { HistoryConfig, PushHistoryQuery, PushHistoryRecord } from './types';
+
+export const DEFAULT_HISTORY_PATH = join(DEFAULT_STATE_DIR, 'history.jsonl');
+export const DEFAULT_HISTORY_MAX_FILE_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_HISTORY_MAX_FILES = 3;
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+export interface History {
+  path: string;
+  append: (record: Omit<PushHistoryRecord, 'id'>) => Promise<PushHistoryRecord>;
+  /** Matching records, newest first */
+  query: (filter?: PushHistoryQuery) => Promise<PushHistoryRecord[]>;
+}
+
+async function fileSize(path: string): Promise<number> {
+  try {
+    return (await stat(path)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+async function readLines(path: string): Promise<PushHistoryRecord[]> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const records: PushHistoryRecord[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(line) as PushHistoryRecord);
+    } catch {
+      // A line cut short by a crash; skip it.
+    }
+  }
+  return records;
+}
+
+function matches(record: PushHistoryRecord, filter: PushHistoryQuery): boolean {
+  const sentAt = Date.parse(record.sentAt);
+  const text = filter.text?.toLowerCase();
+  return (
+    (filter.since === undefined || sentAt >= filter.since.getTime()) &&
+    (filter.until === undefined || sentAt <= filter.until.getTime()) &&
+    (filter.agentId === undefined || record.payload.agentId === filter.agentId) &&
+    (filter.jobId === undefined || record.payload.jobId === filter.jobId) &&
+    (filter.priority === undefined || record.payload.priority === filter.priority) &&
+    (filter.success === undefined || record.success === filter.success) &&
+    (filter.recipient === undefined || record.target.recipient === filter.recipient) &&
+    (text === undefined ||
+      record.payload.title.toLowerCase().includes(text) ||
+      record.payload.message.toLowerCase().includes(text))
+  );
+}
+
+export function createHistory(config: HistoryConfig = {}): History {
+  const path = config.path || DEFAULT_HISTORY_PATH;
+  const maxFileBytes = config.maxFileBytes ?? DEFAULT_HISTORY_MAX_FILE_BYTES;
+  const maxFiles = config.maxFiles ?? DEFAULT_HISTORY_MAX_FILES;
+  const rotated = (index: number) => `${path}.${index}`;
+
+  const rotate = async () => {
+    await rm(rotated(maxFiles), { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      await rename(rotated(index), rotated(index + 1)).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      });
+    }
+    if (maxFiles > 0) {
+      await rename(path, rotated(1));
+    } else {
+      await rm(path, { force: true });
+    }
+  };
+
+  return {
+    path,
+
+    append: (entry) =>
+      withFileLock(path, async () => {
+        const record: PushHistoryRecord = { id: randomUUID(), ...entry };
+        const line = `${JSON.stringify(record)}\n`;
+        const size = await fileSize(path);
+        if (size > 0 && size + Buffer.byteLength(line) > maxFileBytes) {
+          await rotate();
+        }
+        await mkdir(dirname(path), { recursive: true });
+        await appendFile(path, line, 'utf8');
+        return record;
+      }),
+
+    query: (filter = {}) =>
+      withFileLock(path, async () => {
+        const limit = filter.limit ?? DEFAULT_HISTORY_LIMIT;
+        const found: PushHistoryRecord[] = [];
+        // Newest file first; within a file, newest line first.
+        const files = [path, ...Array.from({ length: maxFiles }, (_, index) => rotated(index + 1))];
+        for (const file of files) {
+          const records = await readLines(file);
+          for (let index = records.length - 1; index >= 0 && found.length < limit; index--) {
+            const record = records[index] as PushHistoryRecord;
+            if (matches(record, filter)) {
+              found.push(record);
+            }
+          }
+          if (found.length >= limit) {
+            break;
+          }
+        }
+        return found;
+      }),
+  };
+}
+
+/**
+ * History for the plugin config, or undefined when history is not enabled.
+ */
+export function resolveHistory(config: { history?: HistoryConfig }): History | undefined {
+  if (!config.history?.enabled) {
+    return undefined;
+  }
+  return createHistory(config.history);
+}
+
+/**
+ * Parse a time filter: an ISO 8601 time, or a duration back from now such
+ * as "30m", "24h" or "7d".
+ */
+export function parseHistoryTime(value: string, now: number = Date.now()): Date | undefined {
+  const duration = /^(\d+)\s*([mhd])$/i.exec(value.trim());
+  if (duration) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[(duration[2] as string).toLowerCase() as 'm' | 'h' | 'd'];
+    return new Date(now - Number(duration[1]) * unitMs);
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time);
+}
+
+/**
+ * One-line summary of a record, for the tool and the CLI.
+ */
+export function formatHistoryRecord(record: PushHistoryRecord): string {
+  const { payload, target } = record;
+  const to = target.recipient ? ` to ${target.recipient}` : '';
+  const outcome = record.success
+    ? `sent${record.receiptId ? ` (receipt ${record.receiptId})` : ''}`
+    : `failed: ${record.error ?? 'Unknown error'}${record.outboxId ? ` (queued in outbox ${record.outboxId})` : ''}`;
+  return `${record.sentAt} [${payload.priority}] "${payload.title}: ${payload.message}"${to} via ${target.backend}, ${outcome}, ${record.latencyMs} ms`;
+}
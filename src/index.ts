@@ -2,7 +2,9 @@
  * OpenClaw Push Notification Plugin
  *
  * A plugin that enables OpenClaw agents to send push notifications to users.
- * Supports various notification backends including Expo Push Notifications for React Native.
+ * Supports various notification backends: a self-hosted HTTP relay, the Expo
+ * Push API directly for React Native apps (set "backend": "expo"), chat
+ * webhooks (Slack, Discord, ntfy, generic) and browser Web Push ("webpush").
  *
  * Installation:
  *   npm install -g openclaw-push-notification
@@ -27,15 +29,44 @@
  * Usage in agent:
  *   /push --message "Task completed!"
  *   /push --message "Error occurred" --title "Alert" --priority high
+ *   /push --message "Stand-up in 5 minutes" --delaySeconds 300
+ *   /ask_user --question "Deploy to production?"
+ *   /push_progress --stage update --percent 30 --status "Step 3/10: indexing"
  */
 
-import { registerPushTool } from './tools/push';
-import { resolvePushPluginEntry } from './config';
+import { createPushDigest, createPushScheduler, registerPushTool } from './tools/push';
+import { registerPushScheduleTools } from './tools/schedule';
+import { registerPushStatusTool } from './tools/status';
+import { registerPushHistoryTool } from './tools/history';
+import { registerAskUserTool } from './tools/ask';
+import { registerPushProgressTool } from './tools/progress';
+import { registerPushCli, type RegisterCli } from './cli';
+import { resolvePushBackend } from './backends';
+import { generateVapidKeys } from './backends/webpush';
+import { validatePushConfig } from './config-schema';
+import { getBackendHealth } from './failover';
+import { createHistory } from './history';
+import { formatPrometheus } from './metrics';
+import { createOutbox } from './outbox';
+import { redactPayload } from './redaction';
+import { createPushServer } from './server';
+import { createMemoryNonceStore, createSignatureVerifier, signRequest } from './signing';
+import { afterSend, beforeSend } from './telemetry';
 import type {
+  BackendHealth,
   OpenClawAgentTool,
+  OpenClawAgentToolFactory,
+  PushBackend,
+  PushErrorCode,
   PushNotificationConfig,
   PushNotificationResult,
   PushPluginApiConfig,
+  PushProfileConfig,
+  PushProgressResult,
+  PushSendEvent,
+  PushSendStartEvent,
+  PushStatusResult,
+  SigningConfig,
 } from './types';
 
 /**
@@ -44,47 +75,72 @@ import type {
  */
 function registerPlugin(api: {
   registerTool: (
-    tool: OpenClawAgentTool<unknown, PushNotificationResult>,
+    tool: OpenClawAgentTool<unknown, unknown> | OpenClawAgentToolFactory<unknown, unknown>,
     opts?: { name?: string; names?: string[]; optional?: boolean }
   ) => void;
-  registerCli?: (setup: (program: { program: { command: (name: string) => { description: (desc: string) => { action: (handler: () => Promise<void>) => void } } } }) => void, options: { commands: string[] }) => void;
+  registerCli?: RegisterCli;
   config: PushPluginApiConfig;
 }): void {
-  // Register the push notification tool
-  registerPushTool(api);
+  // Scheduled notifications are shared by the push and schedule tools.
+  // Starting it delivers anything that came due while OpenClaw was not running.
+  const scheduler = createPushScheduler(api.config);
+  void scheduler.start().catch(() => undefined);
+  // Likewise, buffered digest notifications whose summary came due are sent now.
+  const digest = createPushDigest(api.config, scheduler);
+  void digest.start().catch(() => undefined);
 
-  // Optionally register CLI commands for testing
-  if (api.registerCli) {
-    api.registerCli(
-      ({ program }) => {
-        program
-          .command('push-notification:test')
-          .description('Test push notification configuration')
-          .action(async () => {
-            const entry = resolvePushPluginEntry(api.config);
-            const config = entry?.config;
-
-            if (!config?.backendUrl) {
-              console.log('Push notification plugin is not configured.');
-              console.log('Set plugins.entries["push-notification"].config.backendUrl in openclaw.json');
-              return;
-            }
-
-            if (entry?.enabled === false || config.enabled === false) {
-              console.log('Push notification plugin is disabled.');
-              return;
-            }
+  // Register the push notification tools
+  registerPushTool(api, { scheduler, digest });
+  registerPushStatusTool(api);
+  registerPushHistoryTool(api);
+  registerAskUserTool(api);
+  registerPushProgressTool(api);
+  registerPushScheduleTools(api, scheduler);
 
-            console.log('Push notification plugin is configured!');
-            console.log('Backend URL:', config.backendUrl);
-            console.log('Default Title:', config.defaultTitle || 'OpenClaw Agent');
-          });
-      },
-      { commands: ['push-notification:test'] }
-    );
+  // Optionally register CLI commands for testing and outbox maintenance
+  if (api.registerCli) {
+    registerPushCli({ registerCli: api.registerCli, config: api.config });
   }
 }
 
 export default registerPlugin;
-export { registerPushTool };
-export type { PushNotificationConfig, PushNotificationResult };
+export {
+  afterSend,
+  beforeSend,
+  createHistory,
+  createMemoryNonceStore,
+  createOutbox,
+  createPushDigest,
+  createPushScheduler,
+  createPushServer,
+  createSignatureVerifier,
+  formatPrometheus,
+  generateVapidKeys,
+  getBackendHealth,
+  redactPayload,
+  registerAskUserTool,
+  registerPushHistoryTool,
+  registerPushProgressTool,
+  registerPushScheduleTools,
+  registerPushStatusTool,
+  registerPushTool,
+  resolvePushBackend,
+  signRequest,
+  validatePushConfig,
+};
+export type {
+  BackendHealth,
+  PushBackend,
+  PushErrorCode,
+  PushNotificationConfig,
+  PushNotificationResult,
+  PushProfileConfig,
+  PushProgressResult,
+  PushSendEvent,
+  PushSendStartEvent,
+  PushStatusResult,
+  SigningConfig,
+};
+export type { AfterSendHook, BeforeSendHook } from './telemetry';
+export type { PushServerOptions, PushServerStore } from './server';
+export type { NonceStore, SignatureVerification, SignatureVerifierOptions } from './signing';
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildCategory, getResponseListener, resolveResponseMode, waitForResponse } from './interactive';
+import type { PushBackend, PushResponseResult } from './types';
+
+const actions = [
+  { id: 'approve', title: 'Deploy' },
+  { id: 'reject', title: 'Cancel', destructive: true },
+];
+
+function pollingBackend(...responses: PushResponseResult[]): PushBackend {
+  const getResponse = vi.fn();
+  for (const response of responses) {
+    getResponse.mockResolvedValueOnce(response);
+  }
+  getResponse.mockResolvedValue({ success: true, state: 'pending' });
+  return { name: 'http', send: vi.fn(), getResponse };
+}
+
+describe('buildCategory', () => {
+  it('derives a stable ID from the action IDs unless one is given', () => {
+    expect(buildCategory(actions)).toEqual({ id: 'openclaw_approve_reject', actions });
+    expect(buildCategory(actions, 'deploy').id).toBe('deploy');
+  });
+});
+
+describe('resolveResponseMode', () => {
+  it('uses the callback listener when one is configured', () => {
+    expect(resolveResponseMode()).toBe('poll');
+    expect(resolveResponseMode({ callback: { port: 8787 } })).toBe('callback');
+    expect(resolveResponseMode({ mode: 'poll', callback: { port: 8787 } })).toBe('poll');
+  });
+});
+
+describe('response listener', () => {
+  it('accepts one answer per response ID and rejects unknown actions', async () => {
+    const listener = await getResponseListener({ port: 0 });
+    const answer = listener.expect('r1', ['approve', 'reject']);
+    const url = listener.urlFor('r1');
+
+    expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/responses\/r1$/);
+    expect((await fetch(`${url}?action=delete`, { method: 'POST' })).status).toBe(400);
+    expect((await fetch(url, { method: 'POST', body: JSON.stringify({ action: 'approve' }) })).status).toBe(200);
+    await expect(answer).resolves.toMatchObject({ action: 'approve' });
+    expect((await fetch(`${url}?action=reject`, { method: 'POST' })).status).toBe(404);
+  });
+
+  it('is shared by callers with the same config and forgets released IDs', async () => {
+    const listener = await getResponseListener({ port: 0 });
+    expect(await getResponseListener({ port: 0 })).toBe(listener);
+
+    void listener.expect('r2', ['approve']);
+    listener.release('r2');
+
+    expect((await fetch(`${listener.urlFor('r2')}?action=approve`, { method: 'POST' })).status).toBe(404);
+  });
+
+  it('answers a malformed response ID with 400 and keeps running', async () => {
+    const listener = await getResponseListener({ port: 0 });
+    const malformed = listener.urlFor('r3').replace(/r3$/, '%ZZ');
+
+    const response = await fetch(`${malformed}?action=approve`, { method: 'POST' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Malformed response ID' });
+    expect((await fetch(`${listener.urlFor('r3')}?action=approve`, { method: 'POST' })).status).toBe(404);
+  });
+});
+
+describe('waitForResponse', () => {
+  it('polls the backend until the user answers', async () => {
+    const backend = pollingBackend(
+      { success: true, state: 'pending' },
+      { success: true, state: 'answered', action: 'reject', respondedAt: '2024-01-01T00:00:05.000Z' }
+    );
+
+    const result = await waitForResponse({ backend, responseId: 'r1', actionIds: ['approve', 'reject'], timeoutMs: 1000, pollIntervalMs: 1 });
+
+    expect(result).toEqual({ answered: true, action: 'reject', respondedAt: '2024-01-01T00:00:05.000Z' });
+    expect(backend.getResponse).toHaveBeenCalledTimes(2);
+  });
+
+  it('rides out a failed poll but gives up on a backend that keeps failing', async () => {
+    const failure = { success: false, error: 'Failed to look up response: 500 Internal Server Error' };
+    const recovering = pollingBackend(failure, { success: true, state: 'answered', action: 'approve' });
+    const failing = pollingBackend(failure, failure, failure);
+    const options = { responseId: 'r1', actionIds: ['approve'], timeoutMs: 1000, pollIntervalMs: 1 };
+
+    expect(await waitForResponse({ ...options, backend: recovering })).toMatchObject({ answered: true, action: 'approve' });
+    expect(await waitForResponse({ ...options, backend: failing })).toEqual({ answered: false, reason: 'error', error: failure.error });
+  });
+
+  it('times out without an answer', async () => {
+    const result = await waitForResponse({
+      backend: pollingBackend(),
+      responseId: 'r1',
+      actionIds: ['approve'],
+      timeoutMs: 20,
+      answer: new Promise(() => undefined),
+    });
+
+    expect(result).toEqual({ answered: false, reason: 'timeout' });
+  });
+
+  it('stops when the signal aborts', async () => {
+    const controller = new AbortController();
+    const waiting = waitForResponse({
+      backend: pollingBackend(),
+      responseId: 'r1',
+      actionIds: ['approve'],
+      timeoutMs: 1000,
+      pollIntervalMs: 1,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect(await waiting).toEqual({ answered: false, reason: 'cancelled' });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Interactive notifications
+ *
+ * Notifications can carry buttons (a category with actions). `ask_user`
+ * sends one and waits for the button the user pressed, learned either by
+ * polling the http backend or through a local listener that devices POST
+ * the choice to:
+ *
+ *   POST <publicUrl>/responses/<responseId>?action=<actionId>
+ *   POST <publicUrl>/responses/<responseId>   {"action": "<actionId>"}
+ *
+ * The response ID is a random UUID only given to the device, so it also
+ * serves as the credential for answering.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { abortableSleep } from './retry';
+import type { InteractiveConfig, PushAction, PushBackend, PushCategory } from './types';
+
+export const DEFAULT_ASK_TIMEOUT_SECONDS = 300;
+export const DEFAULT_RESPONSE_POLL_INTERVAL_MS = 2000;
+export const DEFAULT_CALLBACK_HOST = '127.0.0.1';
+/** Most buttons a notification may carry; iOS shows four, Android three. */
+export const MAX_ACTIONS = 4;
+
+/** Consecutive failed polls after which ask_user gives up. */
+const MAX_POLL_FAILURES = 3;
+
+/** Largest answer body the listener reads. */
+const MAX_CALLBACK_BODY_BYTES = 4096;
+
+/**
+ * Category for a set of buttons. Without an explicit ID, the same buttons
+ * always get the same category, so apps can register it once.
+ */
+export function buildCategory(actions: PushAction[], categoryId?: string): PushCategory {
+  return {
+    id: categoryId || `openclaw_${actions.map((action) => action.id).join('_')}`,
+    actions,
+  };
+}
+
+/**
+ * How answers arrive under this config.
+ */
+export function resolveResponseMode(config: InteractiveConfig = {}): 'poll' | 'callback' {
+  return config.mode ?? (config.callback ? 'callback' : 'poll');
+}
+
+export type ResponseWaitResult =
+  | { answered: true; action: string; respondedAt: string }
+  | { answered: false; reason: 'timeout' | 'cancelled' }
+  | { answered: false; reason: 'error'; error: string };
+
+interface PendingResponse {
+  actionIds: string[];
+  resolve: (answer: { action: string; respondedAt: string }) => void;
+}
+
+export interface ResponseListener {
+  /** URL the device posts the answer for `responseId` to */
+  urlFor: (responseId: string) => string;
+  /**
+   * Start accepting the answer for `responseId`. Call before sending, so an
+   * answer cannot arrive before anyone listens.
+   */
+  expect: (responseId: string, actionIds: string[]) => Promise<{ action: string; respondedAt: string }>;
+  /** Stop accepting the answer, e.g. after a timeout */
+  release: (responseId: string) => void;
+}
+
+function respond(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_CALLBACK_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/** The chosen action, from the `action` query parameter or a JSON body. */
+export function readAction(url: URL, body: string): string | undefined {
+  const fromQuery = url.searchParams.get('action');
+  if (fromQuery) {
+    return fromQuery;
+  }
+  try {
+    const { action } = JSON.parse(body) as { action?: unknown };
+    return typeof action === 'string' ? action : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const listeners = new Map<string, Promise<ResponseListener>>();
+
+async function startListener(callback: NonNullable<InteractiveConfig['callback']>): Promise<ResponseListener> {
+  const host = callback.host || DEFAULT_CALLBACK_HOST;
+  const pending = new Map<string, PendingResponse>();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const match = /^\/responses\/([^/]+)$/.exec(url.pathname);
+    if (req.method !== 'POST' || !match) {
+      respond(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch {
+      respond(res, 413, { error: 'Body too large' });
+      return;
+    }
+
+    const responseId = decodeURIComponent(match[1] as string);
+    const waiting = pending.get(responseId);
+    if (!waiting) {
+      respond(res, 404, { error: 'Unknown or expired response ID' });
+      return;
+    }
+    const action = readAction(url, body);
+    if (!action || !waiting.actionIds.includes(action)) {
+      respond(res, 400, { error: `Unknown action; expected one of ${waiting.actionIds.join(', ')}` });
+      return;
+    }
+
+    pending.delete(responseId);
+    waiting.resolve({ action, respondedAt: new Date().toISOString() });
+    respond(res, 200, { success: true });
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    try {
+      await handle(req, res);
+    } catch (error) {
+      // A rejection here would take down the whole process.
+      if (!res.headersSent) {
+        const malformed = error instanceof URIError;
+        respond(res, malformed ? 400 : 500, { error: malformed ? 'Malformed response ID' : 'Internal server error' });
+      }
+    }
+  });
+  // The listener stays up for later questions, but must not keep OpenClaw running.
+  server.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(callback.port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  const publicUrl = (callback.publicUrl || `http://${host}:${port}`).replace(/\/+$/, '');
+
+  return {
+    urlFor: (responseId) => `${publicUrl}/responses/${encodeURIComponent(responseId)}`,
+    expect: (responseId, actionIds) =>
+      new Promise((resolve) => {
+        pending.set(responseId, { actionIds, resolve });
+      }),
+    release: (responseId) => {
+      pending.delete(responseId);
+    },
+  };
+}
+
+/**
+ * The callback listener for this config, started on first use and shared by
+ * all `ask_user` calls.
+ */
+export function getResponseListener(callback: NonNullable<InteractiveConfig['callback']>): Promise<ResponseListener> {
+  const key = `${callback.host || DEFAULT_CALLBACK_HOST}:${callback.port}`;
+  const existing = listeners.get(key);
+  if (existing) {
+    return existing;
+  }
+  const starting = startListener(callback);
+  listeners.set(key, starting);
+  starting.catch(() => listeners.delete(key));
+  return starting;
+}
+
+/**
+ * Poll the backend until the user answers or `signal` aborts.
+ */
+async function pollForResponse(
+  backend: PushBackend & Required<Pick<PushBackend, 'getResponse'>>,
+  responseId: string,
+  actionIds: string[],
+  intervalMs: number,
+  signal: AbortSignal
+): Promise<ResponseWaitResult | undefined> {
+  let failures = 0;
+  while (!signal.aborted) {
+    const result = await backend.getResponse(responseId, signal);
+    if (signal.aborted) {
+      break;
+    }
+    if (!result.success) {
+      // Ride out a blip, but do not wait out the timeout on a backend that keeps failing.
+      failures += 1;
+      if (failures >= MAX_POLL_FAILURES) {
+        return { answered: false, reason: 'error', error: result.error ?? 'Unknown error' };
+      }
+      await abortableSleep(intervalMs, signal);
+      continue;
+    }
+    failures = 0;
+    if (result.state === 'answered' && result.action) {
+      if (!actionIds.includes(result.action)) {
+        return { answered: false, reason: 'error', error: `Backend reported unknown action "${result.action}"` };
+      }
+      return { answered: true, action: result.action, respondedAt: result.respondedAt ?? new Date().toISOString() };
+    }
+    await abortableSleep(intervalMs, signal);
+  }
+  return undefined;
+}
+
+/**
+ * Wait for the user's answer, until `timeoutMs` passes or `signal` aborts.
+ * In callback mode, `answer` is the promise from `ResponseListener.expect`.
+ */
+export async function waitForResponse(options: {
+  backend: PushBackend;
+  responseId: string;
+  actionIds: string[];
+  timeoutMs: number;
+  pollIntervalMs?: number;
+  answer?: Promise<{ action: string; respondedAt: string }>;
+  signal?: AbortSignal;
+}): Promise<ResponseWaitResult> {
+  const { signal } = options;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) {
+    controller.abort();
+  }
+
+  const stopped = new Promise<undefined>((resolve) => {
+    if (controller.signal.aborted) {
+      resolve(undefined);
+    }
+    controller.signal.addEventListener('abort', () => resolve(undefined), { once: true });
+  });
+
+  try {
+    let result: ResponseWaitResult | undefined;
+    if (options.answer) {
+      const answer = await Promise.race([options.answer, stopped]);
+      result = answer ? { answered: true, ...answer } : undefined;
+    } else if (options.backend.getResponse) {
+      result = await pollForResponse(
+        options.backend as PushBackend & Required<Pick<PushBackend, 'getResponse'>>,
+        options.responseId,
+        options.actionIds,
+        options.pollIntervalMs ?? DEFAULT_RESPONSE_POLL_INTERVAL_MS,
+        controller.signal
+      );
+    } else {
+      result = { answered: false, reason: 'error', error: `The "${options.backend.name}" backend cannot report answers` };
+    }
+    return result ?? { answered: false, reason: timedOut ? 'timeout' : 'cancelled' };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
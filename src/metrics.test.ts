@@ -0,0 +1,69 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createMetrics, formatPrometheus } from './metrics';
+import type { PushNotificationPayload, PushSendEvent } from './types';
+
+function event(outcome: PushSendEvent['outcome'], overrides: Partial<PushSendEvent> = {}): PushSendEvent {
+  const payload: PushNotificationPayload = {
+    message: 'Done',
+    title: 'OpenClaw Agent',
+    data: {},
+    priority: 'normal',
+    agentId: 'agent-1',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    idempotencyKey: 'key-1',
+  };
+  return { payload, backend: 'http', outcome, result: { success: outcome === 'sent' }, ...overrides };
+}
+
+describe('metrics', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'push-metrics-'));
+    path = join(dir, 'metrics.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('counts sends by label and buckets their latency', async () => {
+    const metrics = createMetrics({ path });
+
+    await metrics.record(event('sent', { latencyMs: 80 }));
+    await metrics.record(event('sent', { latencyMs: 1200 }));
+    await metrics.record(event('failed', { latencyMs: 40, result: { success: false, code: 'BACKEND_5XX' } }));
+    await metrics.record(event('suppressed', { result: { success: false, code: 'RATE_LIMITED' } }));
+
+    const text = formatPrometheus(await createMetrics({ path }).read());
+
+    expect(text).toContain('# TYPE openclaw_push_notifications_total counter');
+    expect(text).toContain(
+      'openclaw_push_notifications_total{backend="http",priority="normal",outcome="sent",code="",agent="agent-1"} 2'
+    );
+    expect(text).toContain(
+      'openclaw_push_notifications_total{backend="http",priority="normal",outcome="failed",code="BACKEND_5XX",agent="agent-1"} 1'
+    );
+    expect(text).toContain('outcome="suppressed",code="RATE_LIMITED"');
+    expect(text).toContain('# TYPE openclaw_push_send_duration_seconds histogram');
+    expect(text).toContain('openclaw_push_send_duration_seconds_bucket{backend="http",le="0.05"} 1');
+    expect(text).toContain('openclaw_push_send_duration_seconds_bucket{backend="http",le="0.1"} 2');
+    expect(text).toContain('openclaw_push_send_duration_seconds_bucket{backend="http",le="2.5"} 3');
+    expect(text).toContain('openclaw_push_send_duration_seconds_bucket{backend="http",le="+Inf"} 3');
+    expect(text).toContain('openclaw_push_send_duration_seconds_count{backend="http"} 3');
+  });
+
+  it('escapes label values', async () => {
+    const metrics = createMetrics({ path });
+    const quoted = event('sent');
+    quoted.payload.agentId = 'say "hi"\\n';
+
+    await metrics.record(quoted);
+
+    expect(formatPrometheus(await metrics.read())).toContain('agent="say \\"hi\\"\\\\n"');
+  });
+});
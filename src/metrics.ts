@@ -0,0 +1,147 @@
+/**
+ * Send metrics
+ *
+ * Counts notifications by backend, priority, outcome, error code and agent,
+ * and keeps a histogram of send latency per backend. The series live in a
+ * JSON file that every send updates, so the `push-notification:metrics` CLI
+ * (a separate process) can print them in the Prometheus text format.
+ */
+
+import { join } from 'node:path';
+import { DEFAULT_STATE_DIR, readJsonList, withFileLock, writeJsonList } from './store';
+import type { MetricsConfig, PushSendEvent } from './types';
+
+export const DEFAULT_METRICS_PATH = join(DEFAULT_STATE_DIR, 'metrics.json');
+
+/** Upper bounds of the latency buckets, in seconds. Retries make long sends common. */
+export const LATENCY_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export type NotificationLabels = Record<'backend' | 'priority' | 'outcome' | 'code' | 'agent', string>;
+
+interface CounterSeries {
+  metric: 'notifications';
+  labels: NotificationLabels;
+  value: number;
+}
+
+interface LatencySeries {
+  metric: 'latency';
+  labels: { backend: string };
+  /** Cumulative counts per bucket in LATENCY_BUCKETS_SECONDS */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export type MetricSeries = CounterSeries | LatencySeries;
+
+export interface PushMetrics {
+  path: string;
+  record: (event: PushSendEvent) => Promise<void>;
+  read: () => Promise<MetricSeries[]>;
+}
+
+const readSeries = (path: string) => readJsonList<MetricSeries>(path, 'series');
+const writeSeries = (path: string, series: MetricSeries[]) => writeJsonList(path, 'series', series);
+
+const sameLabels = (a: Record<string, string>, b: Record<string, string>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([key, value]) => b[key] === value);
+
+export function createMetrics(config: MetricsConfig = {}): PushMetrics {
+  const path = config.path || DEFAULT_METRICS_PATH;
+
+  return {
+    path,
+
+    record: (event) =>
+      withFileLock(path, async () => {
+        const series = await readSeries(path);
+        const labels: NotificationLabels = {
+          backend: event.backend,
+          priority: event.payload.priority,
+          outcome: event.outcome,
+          code: event.result.code ?? '',
+          agent: event.payload.agentId ?? 'unknown',
+        };
+        const counter = series.find(
+          (entry): entry is CounterSeries => entry.metric === 'notifications' && sameLabels(entry.labels, labels)
+        );
+        if (counter) {
+          counter.value += 1;
+        } else {
+          series.push({ metric: 'notifications', labels, value: 1 });
+        }
+
+        if (event.latencyMs !== undefined) {
+          const seconds = event.latencyMs / 1000;
+          let histogram = series.find(
+            (entry): entry is LatencySeries => entry.metric === 'latency' && entry.labels.backend === event.backend
+          );
+          if (!histogram) {
+            histogram = { metric: 'latency', labels: { backend: event.backend }, buckets: LATENCY_BUCKETS_SECONDS.map(() => 0), sum: 0, count: 0 };
+            series.push(histogram);
+          }
+          for (const [index, bound] of LATENCY_BUCKETS_SECONDS.entries()) {
+            if (seconds <= bound) {
+              histogram.buckets[index] += 1;
+            }
+          }
+          histogram.sum += seconds;
+          histogram.count += 1;
+        }
+
+        await writeSeries(path, series);
+      }),
+
+    read: () => withFileLock(path, () => readSeries(path)),
+  };
+}
+
+/**
+ * Metrics for the plugin config, or undefined when metrics are not enabled.
+ */
+export function resolveMetrics(config: { metrics?: MetricsConfig }): PushMetrics | undefined {
+  if (!config.metrics?.enabled) {
+    return undefined;
+  }
+  return createMetrics(config.metrics);
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${pairs.join(',')}}`;
+}
+
+/**
+ * The series in the Prometheus text exposition format.
+ */
+export function formatPrometheus(series: MetricSeries[]): string {
+  const lines = [
+    '# HELP openclaw_push_notifications_total Notifications by backend, priority, outcome, error code and agent.',
+    '# TYPE openclaw_push_notifications_total counter',
+  ];
+  for (const entry of series) {
+    if (entry.metric === 'notifications') {
+      lines.push(`openclaw_push_notifications_total${formatLabels(entry.labels)} ${entry.value}`);
+    }
+  }
+
+  lines.push(
+    '# HELP openclaw_push_send_duration_seconds Time spent sending a notification, including retries.',
+    '# TYPE openclaw_push_send_duration_seconds histogram'
+  );
+  for (const entry of series) {
+    if (entry.metric === 'latency') {
+      LATENCY_BUCKETS_SECONDS.forEach((bound, index) => {
+        const labels = formatLabels({ ...entry.labels, le: String(bound) });
+        lines.push(`openclaw_push_send_duration_seconds_bucket${labels} ${entry.buckets[index] ?? 0}`);
+      });
+      lines.push(`openclaw_push_send_duration_seconds_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`);
+      lines.push(`openclaw_push_send_duration_seconds_sum${formatLabels(entry.labels)} ${entry.sum}`);
+      lines.push(`openclaw_push_send_duration_seconds_count${formatLabels(entry.labels)} ${entry.count}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
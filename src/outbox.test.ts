@@ -0,0 +1,123 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createOutbox } from './outbox';
+import type { PushBackendResult, PushNotificationPayload } from './types';
+
+const target = { backend: 'http' as const, backendUrl: 'https://notify.example' };
+
+function payload(message: string): PushNotificationPayload {
+  return {
+    message,
+    title: 'OpenClaw Agent',
+    data: {},
+    priority: 'normal',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    idempotencyKey: `key-${message}`,
+  };
+}
+
+describe('outbox', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'push-outbox-'));
+    path = join(dir, 'nested', 'outbox.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists entries to disk in order', async () => {
+    const outbox = createOutbox({ path });
+    await outbox.enqueue(payload('first'), target, 'Failed to send notification: 503');
+    await outbox.enqueue(payload('second'), target);
+
+    const reopened = createOutbox({ path });
+    const entries = await reopened.list();
+
+    expect(entries.map((entry) => entry.payload.message)).toEqual(['first', 'second']);
+    expect(entries[0]).toMatchObject({ status: 'pending', attempts: 0, target, lastError: 'Failed to send notification: 503' });
+    expect(JSON.parse(await readFile(path, 'utf8')).entries).toHaveLength(2);
+  });
+
+  it('flushes oldest first and stops at the first transient failure', async () => {
+    const outbox = createOutbox({ path });
+    for (const message of ['a', 'b', 'c']) {
+      await outbox.enqueue(payload(message), target);
+    }
+    const send = vi
+      .fn<[PushNotificationPayload], Promise<PushBackendResult>>()
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce({ success: false, error: 'down', retry: {} });
+
+    const report = await outbox.flush(send);
+
+    expect(send.mock.calls.map(([sent]) => sent.message)).toEqual(['a', 'b']);
+    expect(report).toEqual({ sent: 1, dead: 0, remaining: 2, error: 'down' });
+    const entries = await outbox.list();
+    expect(entries.map((entry) => [entry.payload.message, entry.attempts])).toEqual([
+      ['b', 1],
+      ['c', 0],
+    ]);
+  });
+
+  it('dead-letters rejected, expired and exhausted entries', async () => {
+    let now = Date.parse('2024-01-01T00:00:00.000Z');
+    const outbox = createOutbox({ path, maxAgeSeconds: 60, maxAttempts: 1 }, () => now);
+    await outbox.enqueue(payload('old'), target);
+    now += 120_000;
+    await outbox.enqueue(payload('rejected'), target);
+    await outbox.enqueue(payload('flaky'), target);
+
+    const send = vi
+      .fn<[PushNotificationPayload], Promise<PushBackendResult>>()
+      .mockResolvedValueOnce({ success: false, error: 'bad payload' })
+      .mockResolvedValueOnce({ success: false, error: 'down', retry: {} });
+
+    const report = await outbox.flush(send);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(report).toMatchObject({ sent: 0, dead: 3, remaining: 0 });
+    const entries = await outbox.list();
+    expect(entries.map((entry) => [entry.status, entry.deadReason])).toEqual([
+      ['dead', 'expired'],
+      ['dead', 'rejected'],
+      ['dead', 'max_attempts'],
+    ]);
+
+    // Dead entries are not retried by later flushes.
+    await outbox.flush(send);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('expires entries whose own TTL has passed', async () => {
+    let now = Date.parse('2024-01-01T00:00:00.000Z');
+    const outbox = createOutbox({ path }, () => now);
+    await outbox.enqueue({ ...payload('stale'), ttlSeconds: 30 }, target);
+    await outbox.enqueue(payload('fresh'), target);
+    now += 60_000;
+    const send = vi.fn<[PushNotificationPayload], Promise<PushBackendResult>>().mockResolvedValue({ success: true });
+
+    const report = await outbox.flush(send);
+
+    expect(send.mock.calls.map(([sent]) => sent.message)).toEqual(['fresh']);
+    expect(report).toMatchObject({ sent: 1, dead: 1 });
+    expect((await outbox.list()).map((entry) => [entry.payload.message, entry.deadReason])).toEqual([['stale', 'expired']]);
+  });
+
+  it('purges all entries or only dead ones', async () => {
+    const outbox = createOutbox({ path });
+    await outbox.enqueue(payload('rejected'), target);
+    await outbox.flush(async () => ({ success: false, error: 'bad payload' }));
+    await outbox.enqueue(payload('pending'), target);
+
+    expect(await outbox.purge({ deadOnly: true })).toBe(1);
+    expect((await outbox.list()).map((entry) => entry.payload.message)).toEqual(['pending']);
+    expect(await outbox.purge()).toBe(1);
+    expect(await outbox.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Durable outbox for notifications that failed to send
+ *
+ * Entries live in a JSON file and are delivered oldest-first on flush.
+ * A transient failure stops the flush so ordering is preserved; a permanent
+ * failure, too many attempts or an entry past its max age moves the entry to
+ * the dead-letter state, where it stays until purged.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import { DEFAULT_STATE_DIR, readJsonList, withFileLock, writeJsonList } from './store';
+import type {
+  OutboxConfig,
+  OutboxEntry,
+  OutboxTarget,
+  PushBackendResult,
+  PushNotificationPayload,
+} from './types';
+
+export const DEFAULT_OUTBOX_PATH = join(DEFAULT_STATE_DIR, 'outbox.json');
+export const DEFAULT_OUTBOX_MAX_AGE_SECONDS = 24 * 60 * 60;
+export const DEFAULT_OUTBOX_MAX_ATTEMPTS = 10;
+
+export interface OutboxFlushReport {
+  sent: number;
+  dead: number;
+  remaining: number;
+  /** Error of the transient failure that stopped the flush, if any */
+  error?: string;
+}
+
+export interface Outbox {
+  path: string;
+  enqueue: (payload: PushNotificationPayload, target: OutboxTarget, lastError?: string) => Promise<OutboxEntry>;
+  list: () => Promise<OutboxEntry[]>;
+  flush: (send: (payload: PushNotificationPayload) => Promise<PushBackendResult>) => Promise<OutboxFlushReport>;
+  /** Remove entries; with `deadOnly` only dead-lettered ones. Returns how many were removed. */
+  purge: (options?: { deadOnly?: boolean }) => Promise<number>;
+}
+
+const readEntries = (path: string) => readJsonList<OutboxEntry>(path, 'entries');
+const writeEntries = (path: string, entries: OutboxEntry[]) => writeJsonList(path, 'entries', entries);
+
+export function createOutbox(config: OutboxConfig = {}, now: () => number = Date.now): Outbox {
+  const path = config.path || DEFAULT_OUTBOX_PATH;
+  const maxAgeMs = (config.maxAgeSeconds ?? DEFAULT_OUTBOX_MAX_AGE_SECONDS) * 1000;
+  const maxAttempts = config.maxAttempts ?? DEFAULT_OUTBOX_MAX_ATTEMPTS;
+
+  return {
+    path,
+
+    enqueue: (payload, target, lastError) =>
+      withFileLock(path, async () => {
+        const entries = await readEntries(path);
+        const entry: OutboxEntry = {
+          id: randomUUID(),
+          status: 'pending',
+          payload,
+          target,
+          enqueuedAt: new Date(now()).toISOString(),
+          attempts: 0,
+          lastError,
+        };
+        entries.push(entry);
+        await writeEntries(path, entries);
+        return entry;
+      }),
+
+    list: () => withFileLock(path, () => readEntries(path)),
+
+    flush: (send) =>
+      withFileLock(path, async () => {
+        const entries = await readEntries(path);
+        const report: OutboxFlushReport = { sent: 0, dead: 0, remaining: 0 };
+        const kept: OutboxEntry[] = [];
+        let stopped = false;
+
+        for (const entry of entries) {
+          if (entry.status === 'dead' || stopped) {
+            kept.push(entry);
+            continue;
+          }
+
+          // A notification with its own TTL is stale once that has passed.
+          const ttlMs = entry.payload.ttlSeconds !== undefined ? entry.payload.ttlSeconds * 1000 : Infinity;
+          if (now() - Date.parse(entry.enqueuedAt) > Math.min(maxAgeMs, ttlMs)) {
+            kept.push({ ...entry, status: 'dead', deadReason: 'expired' });
+            report.dead += 1;
+            continue;
+          }
+
+          const result = await send(entry.payload);
+          if (result.success) {
+            report.sent += 1;
+            continue;
+          }
+
+          const attempts = entry.attempts + 1;
+          const failed: OutboxEntry = { ...entry, attempts, lastError: result.error };
+          if (!result.retry) {
+            kept.push({ ...failed, status: 'dead', deadReason: 'rejected' });
+            report.dead += 1;
+          } else if (attempts >= maxAttempts) {
+            kept.push({ ...failed, status: 'dead', deadReason: 'max_attempts' });
+            report.dead += 1;
+          } else {
+            // Backend still unavailable: keep this and everything after it in order.
+            kept.push(failed);
+            report.error = result.error;
+            stopped = true;
+          }
+        }
+
+        report.remaining = kept.filter((entry) => entry.status === 'pending').length;
+        await writeEntries(path, kept);
+        return report;
+      }),
+
+    purge: (options = {}) =>
+      withFileLock(path, async () => {
+        const entries = await readEntries(path);
+        const kept = options.deadOnly ? entries.filter((entry) => entry.status !== 'dead') : [];
+        await writeEntries(path, kept);
+        return entries.length - kept.length;
+      }),
+  };
+}
+
+/**
+ * Outbox for the plugin config, or undefined when the outbox is not enabled.
+ */
+export function resolveOutbox(config: { outbox?: OutboxConfig }): Outbox | undefined {
+  if (!config.outbox?.enabled) {
+    return undefined;
+  }
+  return createOutbox(config.outbox);
+}
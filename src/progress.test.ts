@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createProgressThrottle, progressKey } from './progress';
+import { createFakeClock } from './test-utils';
+
+const START = Date.parse('2024-01-01T00:00:00.000Z');
+
+describe('progress throttle', () => {
+  it('sends the first update and holds only the latest one within the interval', () => {
+    const clock = createFakeClock(START);
+    const throttle = createProgressThrottle(clock);
+    const second = vi.fn().mockResolvedValue(undefined);
+    const third = vi.fn().mockResolvedValue(undefined);
+
+    expect(throttle.update('job:1', 30_000, vi.fn())).toEqual({ send: true });
+    clock.advance(10_000);
+    expect(throttle.update('job:1', 30_000, second)).toEqual({ send: false, sendAt: START + 30_000 });
+    clock.advance(5_000);
+    expect(throttle.update('job:1', 30_000, third)).toEqual({ send: false, sendAt: START + 30_000 });
+    expect(clock.pending()).toEqual([15_000]);
+
+    clock.advance(15_000);
+
+    expect(second).not.toHaveBeenCalled();
+    expect(third).toHaveBeenCalledTimes(1);
+    // The held update counts as sent, so the next one waits a full interval.
+    expect(throttle.update('job:1', 30_000, vi.fn())).toEqual({ send: false, sendAt: START + 60_000 });
+  });
+
+  it('sends right away once the interval has passed', () => {
+    const clock = createFakeClock(START);
+    const throttle = createProgressThrottle(clock);
+
+    throttle.update('job:1', 30_000, vi.fn());
+    clock.advance(30_000);
+
+    expect(throttle.update('job:1', 30_000, vi.fn())).toEqual({ send: true });
+    expect(clock.pending()).toEqual([]);
+  });
+
+  it('throttles each progress ID separately', () => {
+    const throttle = createProgressThrottle(createFakeClock(START));
+
+    throttle.update('job:1', 30_000, vi.fn());
+
+    expect(throttle.update('job:2', 30_000, vi.fn())).toEqual({ send: true });
+  });
+
+  it('drops the held update when the progress finishes', () => {
+    const clock = createFakeClock(START);
+    const throttle = createProgressThrottle(clock);
+    const held = vi.fn().mockResolvedValue(undefined);
+
+    throttle.update('job:1', 30_000, vi.fn());
+    throttle.update('job:1', 30_000, held);
+    throttle.finish('job:1');
+    clock.advance(30_000);
+
+    expect(held).not.toHaveBeenCalled();
+    expect(throttle.update('job:1', 30_000, vi.fn())).toEqual({ send: true });
+  });
+});
+
+describe('progressKey', () => {
+  it('is stable per ID and short enough for every backend', () => {
+    expect(progressKey('job:nightly-build')).toBe(progressKey('job:nightly-build'));
+    expect(progressKey('job:nightly-build')).not.toBe(progressKey('job:other'));
+    expect(progressKey('x'.repeat(255))).toMatch(/^progress-[0-9a-f]{16}$/);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Progress notification throttling
+ *
+ * Progress notifications for one job replace each other on the device, so
+ * only the latest state matters. At most one update per progress ID goes out
+ * per interval: an update that comes sooner is held, replacing any update
+ * already held, and sent when the interval is up. Finishing drops whatever
+ * is held so a late update cannot overwrite the final state. State is kept
+ * in memory for the lifetime of the plugin.
+ */
+
+import { createHash } from 'node:crypto';
+import { systemClock } from './timer';
+import type { Clock } from './types';
+
+export const DEFAULT_PROGRESS_INTERVAL_SECONDS = 30;
+
+export type ProgressDecision =
+  | { send: true }
+  | {
+      send: false;
+      /** When the held update goes out (epoch ms) */
+      sendAt: number;
+    };
+
+export interface ProgressThrottle {
+  /**
+   * Send `deliver` now, or hold it as the latest update when the last one
+   * for `id` went out less than `intervalMs` ago. A held update is delivered
+   * by the throttle; a decision to send now leaves delivery to the caller.
+   */
+  update: (id: string, intervalMs: number, deliver: () => Promise<unknown>) => ProgressDecision;
+  /** Forget `id`, dropping any held update. */
+  finish: (id: string) => void;
+}
+
+interface ProgressState {
+  lastSentAt: number;
+  intervalMs: number;
+  pending?: () => Promise<unknown>;
+  timer?: unknown;
+}
+
+/**
+ * Collapse and thread ID shared by every notification for a progress ID;
+ * hashed so any ID fits the backends' length limits.
+ */
+export function progressKey(id: string): string {
+  return `progress-${createHash('sha256').update(id).digest('hex').slice(0, 16)}`;
+}
+
+export function createProgressThrottle(clock: Clock = systemClock): ProgressThrottle {
+  const states = new Map<string, ProgressState>();
+
+  // Jobs that never finish would otherwise stay here forever.
+  const prune = (now: number): void => {
+    for (const [id, state] of states) {
+      if (state.timer === undefined && now - state.lastSentAt >= state.intervalMs) {
+        states.delete(id);
+      }
+    }
+  };
+
+  const flush = (id: string): void => {
+    const state = states.get(id);
+    if (!state?.pending) {
+      return;
+    }
+    const deliver = state.pending;
+    state.pending = undefined;
+    state.timer = undefined;
+    state.lastSentAt = clock.now();
+    void deliver().catch(() => undefined);
+  };
+
+  return {
+    update: (id, intervalMs, deliver) => {
+      const now = clock.now();
+      prune(now);
+      const state = states.get(id);
+      if (!state) {
+        states.set(id, { lastSentAt: now, intervalMs });
+        return { send: true };
+      }
+      state.intervalMs = intervalMs;
+      const sendAt = state.lastSentAt + intervalMs;
+      state.pending = deliver;
+      if (state.timer === undefined) {
+        state.timer = clock.setTimeout(() => flush(id), sendAt - now);
+      }
+      return { send: false, sendAt };
+    },
+    finish: (id) => {
+      const state = states.get(id);
+      if (state?.timer !== undefined) {
+        clock.clearTimeout(state.timer);
+      }
+      states.delete(id);
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateQuietHours, parseClockTime, quietHoursEnd } from './quiet-hours';
+import type { QuietHoursConfig } from './types';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('quiet hours', () => {
+  it('parses HH:MM clock times', () => {
+    expect(parseClockTime('07:30')).toBe(450);
+    expect(parseClockTime('7:05')).toBe(425);
+    expect(parseClockTime('24:00')).toBeUndefined();
+    expect(parseClockTime('noon')).toBeUndefined();
+  });
+
+  it('evaluates overnight windows in the configured time zone', () => {
+    const config: QuietHoursConfig = {
+      timeZone: 'America/New_York',
+      windows: [{ start: '22:00', end: '07:00' }],
+    };
+
+    // 2024-01-02 03:00 in New York (UTC-5)
+    expect(evaluateQuietHours(at('2024-01-02T08:00:00Z'), 'normal', config)).toEqual({
+      quiet: true,
+      action: 'defer',
+      until: at('2024-01-02T12:00:00Z'),
+    });
+    // 23:30 the evening before ends at 07:00 the next morning
+    expect(quietHoursEnd(at('2024-01-02T04:30:00Z'), config)).toBe(at('2024-01-02T12:00:00Z'));
+    expect(evaluateQuietHours(at('2024-01-02T15:00:00Z'), 'normal', config)).toEqual({ quiet: false });
+  });
+
+  it('applies default and configured actions per priority', () => {
+    const config: QuietHoursConfig = { windows: [{ start: '00:00', end: '06:00' }] };
+    const night = at('2024-01-01T02:00:00Z');
+
+    expect(evaluateQuietHours(night, 'low', config)).toMatchObject({ action: 'drop' });
+    expect(evaluateQuietHours(night, 'high', config)).toMatchObject({ action: 'send' });
+    expect(evaluateQuietHours(night, 'low', { ...config, actions: { low: 'defer' } })).toMatchObject({
+      action: 'defer',
+    });
+  });
+
+  it('reports an unknown time zone instead of throwing', () => {
+    const config: QuietHoursConfig = { timeZone: 'Mars/Base', windows: [{ start: '22:00', end: '07:00' }] };
+
+    expect(evaluateQuietHours(at('2024-01-02T08:00:00Z'), 'normal', config)).toEqual({
+      quiet: false,
+      error: expect.stringContaining('quietHours.timeZone "Mars/Base" cannot be used'),
+    });
+  });
+
+  it('limits windows to their start days and follows adjacent windows', () => {
+    const config: QuietHoursConfig = {
+      windows: [
+        { start: '22:00', end: '08:00', days: ['fri'] },
+        { start: '00:00', end: '00:00', days: ['sat', 'sun'] },
+      ],
+    };
+
+    // Friday 2024-01-05 23:00 UTC: quiet through the weekend until Monday midnight
+    expect(quietHoursEnd(at('2024-01-05T23:00:00Z'), config)).toBe(at('2024-01-08T00:00:00Z'));
+    // Thursday night is not covered
+    expect(evaluateQuietHours(at('2024-01-04T23:00:00Z'), 'normal', config)).toEqual({ quiet: false });
+  });
+
+  it('lands on the local end time across a DST change', () => {
+    const config: QuietHoursConfig = {
+      timeZone: 'Europe/Berlin',
+      windows: [{ start: '22:00', end: '07:00' }],
+    };
+
+    // Clocks go forward on 2024-03-31; 07:00 CEST is 05:00 UTC.
+    expect(quietHoursEnd(at('2024-03-30T22:00:00Z'), config)).toBe(at('2024-03-31T05:00:00Z'));
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Quiet hours (do-not-disturb)
+ *
+ * Windows are evaluated in the configured IANA time zone with Intl, so no
+ * time zone database is bundled. During quiet hours each priority is sent,
+ * deferred until the quiet period ends, or dropped.
+ */
+
+import type { PushPriority, QuietHoursAction, QuietHoursConfig, QuietHoursWindow, Weekday } from './types';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MINUTES_PER_DAY = 24 * 60;
+
+export const DEFAULT_QUIET_HOURS_ACTIONS: Record<PushPriority, QuietHoursAction> = {
+  low: 'drop',
+  normal: 'defer',
+  high: 'send',
+};
+
+export type QuietHoursDecision =
+  | {
+      quiet: false;
+      /** Set when the config cannot be evaluated, e.g. an unknown time zone */
+      error?: string;
+    }
+  | {
+      quiet: true;
+      action: QuietHoursAction;
+      /** When the quiet period ends (epoch ms) */
+      until: number;
+      error?: undefined;
+    };
+
+interface LocalTime {
+  weekday: number;
+  minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localTime(at: number, timeZone: string): LocalTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(at));
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    weekday: WEEKDAYS.indexOf(part('weekday').toLowerCase().slice(0, 3) as Weekday),
+    minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute')),
+  };
+}
+
+/**
+ * Minutes since midnight for "HH:MM", or undefined when malformed.
+ */
+export function parseClockTime(value: string): number | undefined {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+/**
+ * Minutes left in the window at the given local time, or 0 when outside it.
+ */
+function minutesLeftInWindow(window: QuietHoursWindow, local: LocalTime): number {
+  const start = parseClockTime(window.start);
+  const end = parseClockTime(window.end);
+  if (start === undefined || end === undefined) {
+    return 0;
+  }
+  const onDay = (weekday: number) => !window.days || window.days.includes(WEEKDAYS[(weekday + 7) % 7] as Weekday);
+  const m = local.minutes;
+
+  if (start < end) {
+    return onDay(local.weekday) && m >= start && m < end ? end - m : 0;
+  }
+  if (start === end) {
+    // Whole day: quiet until midnight, the next day is checked separately.
+    return onDay(local.weekday) ? MINUTES_PER_DAY - m : 0;
+  }
+  // Overnight window, e.g. 22:00-07:00.
+  if (onDay(local.weekday) && m >= start) {
+    return MINUTES_PER_DAY - m + end;
+  }
+  if (onDay(local.weekday - 1) && m < end) {
+    return end - m;
+  }
+  return 0;
+}
+
+function minutesLeft(config: QuietHoursConfig, local: LocalTime): number {
+  return Math.max(0, ...config.windows.map((window) => minutesLeftInWindow(window, local)));
+}
+
+/**
+ * When quiet hours covering `at` end, following adjacent or overlapping
+ * windows. Returns `at` itself when it is not in quiet hours.
+ */
+export function quietHoursEnd(at: number, config: QuietHoursConfig): number {
+  const timeZone = config.timeZone || 'UTC';
+  let until = at;
+  // A week of back-to-back windows is the longest meaningful chain.
+  for (let i = 0; i < 14; i++) {
+    const local = localTime(until, timeZone);
+    const left = minutesLeft(config, local);
+    if (left === 0) {
+      break;
+    }
+    const target = (local.minutes + left) % MINUTES_PER_DAY;
+    let next = until - (until % 60_000) + left * 60_000;
+    // Correct for a DST change inside the window so we land on the local end time.
+    const drift = target - localTime(next, timeZone).minutes;
+    if (Math.abs(drift) < MINUTES_PER_DAY / 2) {
+      next += drift * 60_000;
+    }
+    until = Math.max(next, until + 60_000 - (until % 60_000));
+  }
+  return until;
+}
+
+export function evaluateQuietHours(
+  at: number,
+  priority: PushPriority,
+  config: QuietHoursConfig | undefined
+): QuietHoursDecision {
+  if (!config?.windows?.length) {
+    return { quiet: false };
+  }
+  let until: number;
+  try {
+    until = quietHoursEnd(at, config);
+  } catch (error) {
+    // Intl throws a RangeError for time zones it does not know.
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { quiet: false, error: `quietHours.timeZone "${config.timeZone}" cannot be used: ${message}` };
+  }
+  if (until === at) {
+    return { quiet: false };
+  }
+  return {
+    quiet: true,
+    action: config.actions?.[priority] ?? DEFAULT_QUIET_HOURS_ACTIONS[priority],
+    until,
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './ratelimit';
+import type { PushNotificationPayload, PushPriority, RateLimitConfig } from './types';
+
+function payload(overrides: { agentId?: string; jobId?: string; priority?: PushPriority } = {}): PushNotificationPayload {
+  return {
+    message: 'Progress',
+    title: 'OpenClaw Agent',
+    data: {},
+    priority: overrides.priority ?? 'normal',
+    agentId: overrides.agentId ?? 'agent-1',
+    jobId: overrides.jobId ?? 'job-1',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    idempotencyKey: 'key',
+  };
+}
+
+describe('rate limiter', () => {
+  it('allows bursts up to capacity and refills over time', () => {
+    let now = 0;
+    const limiter = createRateLimiter(() => now);
+    const config: RateLimitConfig = { perAgent: { capacity: 2, refillPerMinute: 1 } };
+
+    expect(limiter.take(payload(), config).allowed).toBe(true);
+    expect(limiter.take(payload(), config).allowed).toBe(true);
+    expect(limiter.take(payload(), config)).toEqual({
+      allowed: false,
+      scope: 'agent agent-1',
+      limit: { capacity: 2, refillPerMinute: 1 },
+      retryAfterSeconds: 60,
+    });
+
+    now += 30_000;
+    expect(limiter.take(payload(), config)).toMatchObject({ allowed: false, retryAfterSeconds: 30 });
+    now += 30_000;
+    expect(limiter.take(payload(), config).allowed).toBe(true);
+  });
+
+  it('keeps separate buckets per agent and per job', () => {
+    const limiter = createRateLimiter(() => 0);
+    const config: RateLimitConfig = { perJob: { capacity: 1, refillPerMinute: 0 } };
+
+    expect(limiter.take(payload({ jobId: 'a' }), config).allowed).toBe(true);
+    expect(limiter.take(payload({ jobId: 'b' }), config).allowed).toBe(true);
+    expect(limiter.take(payload({ jobId: 'a' }), config)).toMatchObject({
+      allowed: false,
+      scope: 'job a',
+      retryAfterSeconds: undefined,
+    });
+  });
+
+  it('only takes tokens when every bucket has room', () => {
+    const limiter = createRateLimiter(() => 0);
+    const config: RateLimitConfig = {
+      global: { capacity: 2, refillPerMinute: 0 },
+      perAgent: { capacity: 1, refillPerMinute: 0 },
+    };
+
+    expect(limiter.take(payload({ agentId: 'noisy' }), config).allowed).toBe(true);
+    expect(limiter.take(payload({ agentId: 'noisy' }), config)).toMatchObject({ allowed: false, scope: 'agent noisy' });
+    // The rejected call did not use the global token.
+    expect(limiter.take(payload({ agentId: 'quiet' }), config).allowed).toBe(true);
+    expect(limiter.take(payload({ agentId: 'other' }), config)).toMatchObject({ allowed: false, scope: 'global' });
+  });
+
+  it('uses separate buckets for priority-specific limits', () => {
+    const limiter = createRateLimiter(() => 0);
+    const config: RateLimitConfig = {
+      global: { capacity: 1, refillPerMinute: 0 },
+      priorities: { high: { global: { capacity: 5, refillPerMinute: 0 } } },
+    };
+
+    expect(limiter.take(payload(), config).allowed).toBe(true);
+    expect(limiter.take(payload({ priority: 'low' }), config)).toMatchObject({ allowed: false, scope: 'global' });
+    expect(limiter.take(payload({ priority: 'high' }), config).allowed).toBe(true);
+    expect(limiter.take(payload({ priority: 'high' }), config).allowed).toBe(true);
+  });
+
+  it('allows everything without config', () => {
+    const limiter = createRateLimiter(() => 0);
+    expect(limiter.take(payload(), undefined)).toEqual({ allowed: true });
+  });
+});
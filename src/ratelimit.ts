@@ -0,0 +1,101 @@
+/**
+ * Token-bucket rate limiting for agent-initiated sends
+ *
+ * Buckets exist globally, per agent ID and per job ID, optionally split by
+ * priority. A send must fit into every applicable bucket; tokens are only
+ * taken when it does, so a rejected send does not drain the other buckets.
+ * State is kept in memory for the lifetime of the plugin.
+ */
+
+import type { PushNotificationPayload, RateLimitConfig, RateLimitScopes, TokenBucketConfig } from './types';
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      /** Human-readable bucket name, e.g. "agent agent-1" */
+      scope: string;
+      limit: TokenBucketConfig;
+      /** Undefined when the bucket never refills */
+      retryAfterSeconds?: number;
+    };
+
+export interface RateLimiter {
+  take: (payload: PushNotificationPayload, config: RateLimitConfig | undefined) => RateLimitDecision;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface AppliedBucket {
+  key: string;
+  scope: string;
+  limit: TokenBucketConfig;
+}
+
+function appliedBuckets(payload: PushNotificationPayload, config: RateLimitConfig): AppliedBucket[] {
+  const override: RateLimitScopes = config.priorities?.[payload.priority] ?? {};
+  const buckets: AppliedBucket[] = [];
+
+  const add = (name: keyof RateLimitScopes, id: string | undefined, scope: string) => {
+    const ownLimit = override[name];
+    const limit = ownLimit ?? config[name];
+    if (!limit) {
+      return;
+    }
+    // Priority-specific limits get their own bucket; defaults are shared.
+    const prefix = ownLimit ? `${payload.priority}:` : '';
+    buckets.push({
+      key: `${prefix}${name}:${id ?? ''}`,
+      scope: ownLimit ? `${scope} (${payload.priority} priority)` : scope,
+      limit,
+    });
+  };
+
+  add('global', undefined, 'global');
+  add('perAgent', payload.agentId ?? 'unknown', `agent ${payload.agentId ?? 'unknown'}`);
+  add('perJob', payload.jobId ?? 'unknown', `job ${payload.jobId ?? 'unknown'}`);
+  return buckets;
+}
+
+export function createRateLimiter(now: () => number = Date.now): RateLimiter {
+  const state = new Map<string, BucketState>();
+
+  const refill = (bucket: AppliedBucket, at: number): BucketState => {
+    const current = state.get(bucket.key) ?? { tokens: bucket.limit.capacity, updatedAt: at };
+    const elapsedMinutes = Math.max(0, at - current.updatedAt) / 60_000;
+    return {
+      tokens: Math.min(bucket.limit.capacity, current.tokens + elapsedMinutes * bucket.limit.refillPerMinute),
+      updatedAt: at,
+    };
+  };
+
+  return {
+    take: (payload, config) => {
+      if (!config) {
+        return { allowed: true };
+      }
+      const at = now();
+      const buckets = appliedBuckets(payload, config).map((bucket) => ({ bucket, current: refill(bucket, at) }));
+
+      const exhausted = buckets.find(({ current }) => current.tokens < 1);
+      if (exhausted) {
+        const { bucket, current } = exhausted;
+        const perSecond = bucket.limit.refillPerMinute / 60;
+        return {
+          allowed: false,
+          scope: bucket.scope,
+          limit: bucket.limit,
+          retryAfterSeconds: perSecond > 0 ? Math.ceil((1 - current.tokens) / perSecond) : undefined,
+        };
+      }
+
+      for (const { bucket, current } of buckets) {
+        state.set(bucket.key, { tokens: current.tokens - 1, updatedAt: at });
+      }
+      return { allowed: true };
+    },
+  };
+}
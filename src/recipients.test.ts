@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { resolvePayloadBackend, resolveRecipientConfig, resolveRecipientNames } from './recipients';
+import type { PushNotificationConfig } from './types';
+
+const config: PushNotificationConfig = {
+  backendUrl: 'https://notify.example',
+  apiKey: 'secret',
+  recipients: {
+    alice: { backend: 'expo', tokens: ['ExponentPushToken[alice]'] },
+    bob: { routingKey: 'bob@example.com' },
+    carol: {},
+  },
+  groups: {
+    team: ['alice', 'bob'],
+    broken: ['alice', 'dave'],
+  },
+};
+
+describe('resolveRecipientNames', () => {
+  it('expands groups and drops repeated names', () => {
+    expect(resolveRecipientNames(config, ['bob', 'team', 'carol'])).toEqual({ names: ['bob', 'alice', 'carol'] });
+  });
+
+  it('rejects unknown names and groups with unknown members', () => {
+    expect(resolveRecipientNames(config, ['erin', 'frank']).error).toBe(
+      'Unknown recipients "erin", "frank". Known recipients and groups: alice, bob, carol, team, broken'
+    );
+    expect(resolveRecipientNames(config, ['broken']).error).toBe('Group "broken" lists unknown recipient "dave"');
+    expect(resolveRecipientNames({}, ['alice']).error).toBe('Unknown recipient "alice". No recipients are configured');
+  });
+
+  it('does not treat inherited object keys as recipients', () => {
+    expect(resolveRecipientNames(config, ['constructor']).error).toContain('Unknown recipient "constructor"');
+  });
+});
+
+describe('resolveRecipientConfig', () => {
+  it('applies recipient overrides on top of the plugin config', () => {
+    expect(resolveRecipientConfig(config, 'alice')).toMatchObject({
+      backend: 'expo',
+      backendUrl: 'https://notify.example',
+      apiKey: 'secret',
+      expo: { tokens: ['ExponentPushToken[alice]'] },
+    });
+    expect(resolveRecipientConfig(config, 'zed')).toBeUndefined();
+  });
+});
+
+describe('resolvePayloadBackend', () => {
+  it('routes payloads by recipient', () => {
+    expect(resolvePayloadBackend(config, {}).backend?.name).toBe('http');
+    expect(resolvePayloadBackend(config, { recipient: 'alice' }).backend?.name).toBe('expo');
+    expect(resolvePayloadBackend(config, { recipient: 'zed' }).error).toBe('Recipient "zed" is no longer configured');
+  });
+});
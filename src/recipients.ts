@@ -0,0 +1,103 @@
+/**
+ * Named recipients and groups
+ *
+ * Recipients are defined in the plugin config, each optionally with its own
+ * backend, relay URL, routing key, Expo tokens or browser subscriptions;
+ * anything left out falls back to the plugin-level settings. Groups are
+ * named lists of recipients.
+ * The recipient name travels in the payload so scheduled and queued
+ * notifications are routed the same way when they are delivered later.
+ */
+
+import { resolvePushBackend, type PushBackendResolution } from './backends';
+import type { PushBackendOptions, PushNotificationConfig, PushNotificationPayload } from './types';
+
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+export type RecipientNamesResolution = { names: string[]; error?: undefined } | { names?: undefined; error: string };
+
+/**
+ * Expand recipient and group names from the `to` parameter into a list of
+ * distinct recipient names, in the order given.
+ */
+export function resolveRecipientNames(config: PushNotificationConfig, to: string[]): RecipientNamesResolution {
+  const recipients = config.recipients ?? {};
+  const groups = config.groups ?? {};
+  const names: string[] = [];
+  const unknown: string[] = [];
+
+  const add = (name: string) => {
+    if (!names.includes(name)) {
+      names.push(name);
+    }
+  };
+
+  for (const name of to) {
+    if (hasOwn(recipients, name)) {
+      add(name);
+    } else if (hasOwn(groups, name)) {
+      for (const member of groups[name] ?? []) {
+        if (!hasOwn(recipients, member)) {
+          return { error: `Group "${name}" lists unknown recipient "${member}"` };
+        }
+        add(member);
+      }
+    } else {
+      unknown.push(name);
+    }
+  }
+
+  if (unknown.length > 0) {
+    const known = [...Object.keys(recipients), ...Object.keys(groups)];
+    const hint = known.length > 0 ? `Known recipients and groups: ${known.join(', ')}` : 'No recipients are configured';
+    return { error: `Unknown recipient${unknown.length === 1 ? '' : 's'} ${unknown.map((n) => `"${n}"`).join(', ')}. ${hint}` };
+  }
+  if (names.length === 0) {
+    return { error: 'No recipients to send to' };
+  }
+  return { names };
+}
+
+/**
+ * Plugin config with the recipient's overrides applied, or undefined when
+ * the recipient is not configured.
+ */
+export function resolveRecipientConfig(
+  config: PushNotificationConfig,
+  name: string
+): PushNotificationConfig | undefined {
+  const recipient = config.recipients && hasOwn(config.recipients, name) ? config.recipients[name] : undefined;
+  if (!recipient) {
+    return undefined;
+  }
+  return {
+    ...config,
+    backend: recipient.backend ?? config.backend,
+    backendUrl: recipient.backendUrl ?? config.backendUrl,
+    expo: recipient.tokens ? { ...config.expo, tokens: recipient.tokens } : config.expo,
+    webpush:
+      recipient.subscriptions && config.webpush
+        ? { ...config.webpush, subscriptions: recipient.subscriptions }
+        : config.webpush,
+  };
+}
+
+/**
+ * Backend for a payload: the recipient's when it names one, else the default.
+ */
+export function resolvePayloadBackend(
+  config: PushNotificationConfig,
+  payload: Pick<PushNotificationPayload, 'recipient'>,
+  options: PushBackendOptions = {}
+): PushBackendResolution {
+  if (payload.recipient === undefined) {
+    return resolvePushBackend(config, options);
+  }
+  const recipientConfig = resolveRecipientConfig(config, payload.recipient);
+  if (!recipientConfig) {
+    return { error: `Recipient "${payload.recipient}" is no longer configured` };
+  }
+  return resolvePushBackend(recipientConfig, options);
+}
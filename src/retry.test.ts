@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computeBackoffDelay, parseRetryAfter, sendWithRetry, withRequestTimeout } from './retry';
+import type { PushBackendResult } from './types';
+
+const transientFailure: PushBackendResult = { success: false, error: 'Failed to send notification: 503', retry: {} };
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00.000Z');
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  it('doubles the delay per retry with jitter and caps it', () => {
+    const config = { initialDelayMs: 100, maxDelayMs: 1000 };
+    expect(computeBackoffDelay(1, config, () => 0)).toBe(50);
+    expect(computeBackoffDelay(1, config, () => 1)).toBe(100);
+    expect(computeBackoffDelay(3, config, () => 1)).toBe(400);
+    expect(computeBackoffDelay(10, config, () => 1)).toBe(1000);
+  });
+});
+
+describe('sendWithRetry', () => {
+  it('retries transient failures until success and counts attempts', async () => {
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce(transientFailure)
+      .mockResolvedValueOnce(transientFailure)
+      .mockResolvedValueOnce({ success: true, result: { ok: true } });
+    const sleep = vi.fn().mockResolvedValue(undefined);
+
+    const result = await sendWithRetry(send, { maxAttempts: 3, initialDelayMs: 100 }, undefined, { sleep, random: () => 1 });
+
+    expect(result).toEqual({ success: true, result: { ok: true }, attempts: 3 });
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+  });
+
+  it('stops at maxAttempts and keeps the retry hint on the final result', async () => {
+    const send = vi.fn().mockResolvedValue(transientFailure);
+    const sleep = vi.fn().mockResolvedValue(undefined);
+
+    const result = await sendWithRetry(send, { maxAttempts: 2 }, undefined, { sleep });
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ ...transientFailure, attempts: 2 });
+  });
+
+  it('does not retry permanent failures', async () => {
+    const send = vi.fn().mockResolvedValue({ success: false, error: 'bad request' });
+
+    const result = await sendWithRetry(send, undefined, undefined, { sleep: vi.fn() });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(result.attempts).toBe(1);
+  });
+
+  it('honors Retry-After capped at maxDelayMs', async () => {
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce({ ...transientFailure, retry: { afterMs: 60_000 } })
+      .mockResolvedValueOnce({ ...transientFailure, retry: { afterMs: 1_500 } })
+      .mockResolvedValueOnce({ success: true });
+    const sleep = vi.fn().mockResolvedValue(undefined);
+
+    await sendWithRetry(send, { maxAttempts: 3, maxDelayMs: 10_000 }, undefined, { sleep });
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([10_000, 1_500]);
+  });
+
+  it('gives up waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const send = vi.fn().mockResolvedValue(transientFailure);
+
+    const pending = sendWithRetry(send, { maxAttempts: 5, initialDelayMs: 60_000 }, controller.signal);
+    controller.abort();
+    const result = await pending;
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ success: false, attempts: 1 });
+  });
+});
+
+describe('withRequestTimeout', () => {
+  const hang = (signal: AbortSignal) =>
+    new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason), { once: true }));
+
+  it('aborts a request that takes longer than the timeout', async () => {
+    const error = await withRequestTimeout(hang, 20).catch((reason: unknown) => reason);
+
+    expect(error).toMatchObject({ name: 'TimeoutError', message: 'Request timed out after 20ms' });
+  });
+
+  it('passes on an abort from the caller', async () => {
+    const controller = new AbortController();
+    const pending = withRequestTimeout(hang, 10_000, controller.signal).catch((reason: unknown) => reason);
+    controller.abort(new Error('cancelled'));
+
+    expect(await pending).toMatchObject({ message: 'cancelled' });
+  });
+
+  it('returns the result of a request that finishes in time', async () => {
+    expect(await withRequestTimeout(async () => 'done', 1000)).toBe('done');
+  });
+});
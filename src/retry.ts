@@ -0,0 +1,141 @@
+/**
+ * Retry policy for backend sends
+ *
+ * Transient failures (HTTP 5xx, 408, 429 and network errors) are retried with
+ * exponential backoff and jitter. A `Retry-After` header from the backend
+ * replaces the computed delay. Waiting is cut short when the tool's
+ * AbortSignal fires. Each request is aborted after `requestTimeoutMs`, which
+ * counts as a transient failure.
+ */
+
+import type { PushBackendResult, RetryConfig } from './types';
+
+export const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+
+export interface RetryDeps {
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Backoff before the given retry (1 = first retry), using "equal jitter":
+ * half of the exponential delay is fixed, the other half is random.
+ */
+export function computeBackoffDelay(retry: number, config: RetryConfig = {}, random: () => number = Math.random): number {
+  const initialDelayMs = config.initialDelayMs ?? DEFAULT_RETRY_CONFIG.initialDelayMs;
+  const maxDelayMs = config.maxDelayMs ?? DEFAULT_RETRY_CONFIG.maxDelayMs;
+  const base = Math.min(maxDelayMs, initialDelayMs * 2 ** (retry - 1));
+  return Math.round(base / 2 + random() * (base / 2));
+}
+
+/**
+ * Wait `ms`, returning early when the signal aborts.
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run one backend request with a signal that aborts when `signal` does or
+ * after `timeoutMs`. A timed-out request rejects with a "TimeoutError".
+ */
+export async function withRequestTimeout<T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = setTimeout(
+    () => controller.abort(new DOMException(`Request timed out after ${timeoutMs}ms`, 'TimeoutError')),
+    timeoutMs
+  );
+  try {
+    return await request(controller.signal);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Run a backend send, retrying transient failures.
+ * The returned result reports how many attempts were made; `retry` is kept on
+ * the final result so callers can tell a transient failure from a permanent one.
+ */
+export async function sendWithRetry(
+  send: (signal?: AbortSignal) => Promise<PushBackendResult>,
+  config: RetryConfig | undefined,
+  signal?: AbortSignal,
+  deps: RetryDeps = {}
+): Promise<PushBackendResult> {
+  const maxAttempts = Math.max(1, config?.maxAttempts ?? DEFAULT_RETRY_CONFIG.maxAttempts);
+  const maxDelayMs = config?.maxDelayMs ?? DEFAULT_RETRY_CONFIG.maxDelayMs;
+  const sleep = deps.sleep ?? abortableSleep;
+  const random = deps.random ?? Math.random;
+
+  let attempts = 0;
+  for (;;) {
+    attempts += 1;
+    const result = await send(signal);
+    const { retry } = result;
+
+    if (result.success || !retry || attempts >= maxAttempts || signal?.aborted) {
+      return { ...result, attempts };
+    }
+
+    const delay = retry.afterMs !== undefined ? Math.min(retry.afterMs, maxDelayMs) : computeBackoffDelay(attempts, config, random);
+    await sleep(delay, signal);
+
+    if (signal?.aborted) {
+      return { ...result, attempts };
+    }
+  }
+}
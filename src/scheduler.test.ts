@@ -0,0 +1,94 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScheduler } from './scheduler';
+import { createFakeClock } from './test-utils';
+import type { PushNotificationPayload } from './types';
+
+function payload(message: string): PushNotificationPayload {
+  return {
+    message,
+    title: 'OpenClaw Agent',
+    data: {},
+    priority: 'normal',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    idempotencyKey: `key-${message}`,
+  };
+}
+
+const START = Date.parse('2024-01-01T00:00:00.000Z');
+
+describe('scheduler', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'push-scheduler-'));
+    path = join(dir, 'scheduled.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('arms a timer for the earliest entry and delivers it when due', async () => {
+    const clock = createFakeClock(START);
+    const deliver = vi.fn().mockResolvedValue({ success: true });
+    const scheduler = createScheduler({ path, deliver, clock });
+    await scheduler.start();
+
+    await scheduler.schedule(payload('later'), new Date(START + 7_200_000));
+    await scheduler.schedule(payload('sooner'), new Date(START + 60_000));
+
+    expect(clock.pending()).toEqual([60_000]);
+    expect((await scheduler.list()).map((entry) => entry.payload.message)).toEqual(['sooner', 'later']);
+
+    clock.advance(60_000);
+    await vi.waitFor(() => expect(deliver).toHaveBeenCalledTimes(1));
+    expect(deliver.mock.calls[0]?.[0]).toMatchObject({ message: 'sooner', timestamp: '2024-01-01T00:01:00.000Z' });
+    await vi.waitFor(() => expect(clock.pending()).toEqual([7_140_000]));
+    expect((await scheduler.list()).map((entry) => entry.payload.message)).toEqual(['later']);
+  });
+
+  it('survives restarts and delivers entries that came due while stopped', async () => {
+    const clock = createFakeClock(START);
+    const first = createScheduler({ path, deliver: vi.fn(), clock });
+    await first.schedule(payload('overdue'), new Date(START + 1_000));
+    await first.schedule(payload('future'), new Date(START + 3_600_000));
+    first.stop();
+
+    clock.advance(10_000);
+    const deliver = vi.fn().mockResolvedValue({ success: true });
+    const restarted = createScheduler({ path, deliver, clock });
+    await restarted.start();
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(deliver.mock.calls[0]?.[0]).toMatchObject({ message: 'overdue' });
+    expect((await restarted.list()).map((entry) => entry.payload.message)).toEqual(['future']);
+    expect(clock.pending()).toEqual([3_590_000]);
+  });
+
+  it('cancels entries by id', async () => {
+    const clock = createFakeClock(START);
+    const deliver = vi.fn();
+    const scheduler = createScheduler({ path, deliver, clock });
+    await scheduler.start();
+    const entry = await scheduler.schedule(payload('cancel me'), new Date(START + 60_000));
+
+    expect(await scheduler.cancel(entry.id)).toBe(true);
+    expect(await scheduler.cancel(entry.id)).toBe(false);
+    expect(await scheduler.list()).toEqual([]);
+    expect(clock.pending()).toEqual([]);
+  });
+
+  it('removes an entry even when delivery throws', async () => {
+    const clock = createFakeClock(START);
+    const deliver = vi.fn().mockRejectedValue(new Error('boom'));
+    const scheduler = createScheduler({ path, deliver, clock });
+    await scheduler.schedule(payload('due'), new Date(START));
+
+    expect(await scheduler.runDue()).toBe(1);
+    expect(await scheduler.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Local scheduler for delayed notifications
+ *
+ * Scheduled notifications are stored in a JSON file so they survive process
+ * restarts; `start` re-arms the timer from disk and delivers anything that
+ * came due while the process was down. A single timer tracks the earliest
+ * pending entry.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import { DEFAULT_STATE_DIR, readJsonList, withFileLock, writeJsonList } from './store';
+import { createRearmableTimer, deliverThenRemove, systemClock } from './timer';
+import type { Clock, PushNotificationPayload, ScheduledNotification, SchedulerConfig } from './types';
+
+export const DEFAULT_SCHEDULE_PATH = join(DEFAULT_STATE_DIR, 'scheduled.json');
+
+export interface PushScheduler {
+  path: string;
+  /** Load the schedule from disk, deliver overdue entries and arm the timer */
+  start: () => Promise<void>;
+  stop: () => void;
+  schedule: (payload: PushNotificationPayload, sendAt: Date) => Promise<ScheduledNotification>;
+  list: () => Promise<ScheduledNotification[]>;
+  /** Returns false when no pending notification has that ID */
+  cancel: (id: string) => Promise<boolean>;
+  /** Deliver every entry that is due now; returns how many were delivered */
+  runDue: () => Promise<number>;
+}
+
+export interface SchedulerOptions extends SchedulerConfig {
+  deliver: (payload: PushNotificationPayload) => Promise<unknown>;
+  clock?: Clock;
+}
+
+const readEntries = (path: string) => readJsonList<ScheduledNotification>(path, 'scheduled');
+const writeEntries = (path: string, entries: ScheduledNotification[]) => writeJsonList(path, 'scheduled', entries);
+
+function bySendAt(a: ScheduledNotification, b: ScheduledNotification): number {
+  return Date.parse(a.sendAt) - Date.parse(b.sendAt);
+}
+
+export function createScheduler(options: SchedulerOptions): PushScheduler {
+  const path = options.path || DEFAULT_SCHEDULE_PATH;
+  const clock = options.clock ?? systemClock;
+
+  const timer = createRearmableTimer({
+    clock,
+    nextDueAt: async () => {
+      const entries = await withFileLock(path, () => readEntries(path));
+      return entries.length > 0 ? Math.min(...entries.map((entry) => Date.parse(entry.sendAt))) : undefined;
+    },
+    fire: () => void runDue(),
+  });
+
+  const runDue = async (): Promise<number> => {
+    const delivered = await withFileLock(path, async () => {
+      const due = (await readEntries(path)).filter((entry) => Date.parse(entry.sendAt) <= clock.now()).sort(bySendAt);
+      for (const entry of due) {
+        await deliverThenRemove(
+          () => options.deliver({ ...entry.payload, timestamp: new Date(clock.now()).toISOString() }),
+          async () => writeEntries(path, (await readEntries(path)).filter((pending) => pending.id !== entry.id))
+        );
+      }
+      return due.length;
+    });
+    await timer.arm();
+    return delivered;
+  };
+
+  return {
+    path,
+
+    start: async () => {
+      timer.start();
+      await runDue();
+    },
+
+    stop: timer.stop,
+
+    schedule: async (payload, sendAt) => {
+      const entry: ScheduledNotification = {
+        id: randomUUID(),
+        sendAt: sendAt.toISOString(),
+        createdAt: new Date(clock.now()).toISOString(),
+        payload,
+      };
+      await withFileLock(path, async () => {
+        const entries = await readEntries(path);
+        entries.push(entry);
+        await writeEntries(path, entries.sort(bySendAt));
+      });
+      await timer.arm();
+      return entry;
+    },
+
+    list: () => withFileLock(path, () => readEntries(path)),
+
+    cancel: async (id) => {
+      const removed = await withFileLock(path, async () => {
+        const entries = await readEntries(path);
+        const remaining = entries.filter((entry) => entry.id !== id);
+        if (remaining.length === entries.length) {
+          return false;
+        }
+        await writeEntries(path, remaining);
+        return true;
+      });
+      if (removed) {
+        await timer.arm();
+      }
+      return removed;
+    },
+
+    runDue,
+  };
+}
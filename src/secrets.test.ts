@@ -0,0 +1,83 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { resolvePushBackend } from './backends';
+import { isSecretReference, resolveConfigSecrets, resolveSecret } from './secrets';
+import type { PushNotificationConfig } from './types';
+
+describe('secret references', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'push-secrets-'));
+    process.env.PUSH_TEST_TOKEN = 'env-secret';
+  });
+
+  afterEach(async () => {
+    delete process.env.PUSH_TEST_TOKEN;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('recognizes references', () => {
+    expect(isSecretReference('${PUSH_TEST_TOKEN}')).toBe(true);
+    expect(isSecretReference('Bearer ${PUSH_TEST_TOKEN}')).toBe(true);
+    expect(isSecretReference('file:/run/secrets/push')).toBe(true);
+    expect(isSecretReference('plain-api-key')).toBe(false);
+    expect(isSecretReference('$PUSH_TEST_TOKEN')).toBe(false);
+  });
+
+  it('interpolates environment variables', () => {
+    expect(resolveSecret('${PUSH_TEST_TOKEN}', 'apiKey')).toEqual({ value: 'env-secret' });
+    expect(resolveSecret('Bearer ${PUSH_TEST_TOKEN}', 'apiKey')).toEqual({ value: 'Bearer env-secret' });
+    expect(resolveSecret('plain-api-key', 'apiKey')).toEqual({ value: 'plain-api-key' });
+  });
+
+  it('reads secret files without the trailing newline', async () => {
+    const path = join(dir, 'api-key');
+    await writeFile(path, 'file-secret\n');
+
+    expect(resolveSecret(`file:${path}`, 'apiKey')).toEqual({ value: 'file-secret' });
+  });
+
+  it('names the field and reference that failed, never the secret', async () => {
+    const empty = join(dir, 'empty');
+    await writeFile(empty, '');
+
+    expect(resolveSecret('${PUSH_MISSING_TOKEN}', 'apiKey').error).toBe('apiKey: environment variable PUSH_MISSING_TOKEN is not set');
+    expect(resolveSecret(`file:${join(dir, 'missing')}`, 'signing.secret').error).toBe(
+      `signing.secret: cannot read secret file ${join(dir, 'missing')} (ENOENT)`
+    );
+    expect(resolveSecret(`file:${empty}`, 'apiKey').error).toBe(`apiKey: secret file ${empty} is empty`);
+    const partial = resolveSecret('${PUSH_TEST_TOKEN}:${PUSH_MISSING_TOKEN}', 'webhook.headers.Authorization');
+    expect(partial.error).not.toContain('env-secret');
+  });
+
+  it('resolves credential fields and webhook headers, leaving other fields alone', async () => {
+    const path = join(dir, 'slack');
+    await writeFile(path, 'https://hooks.slack.com/services/T000/B000/XXXX\n');
+    const config: PushNotificationConfig = {
+      apiKey: '${PUSH_TEST_TOKEN}',
+      defaultTitle: '${PUSH_TEST_TOKEN}',
+      slack: { webhookUrl: `file:${path}` },
+      webhook: { url: 'https://hooks.example/push', headers: { Authorization: 'Bearer ${PUSH_TEST_TOKEN}' } },
+    };
+
+    const { config: resolved } = resolveConfigSecrets(config);
+
+    expect(resolved).toEqual({
+      apiKey: 'env-secret',
+      defaultTitle: '${PUSH_TEST_TOKEN}',
+      slack: { webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXX' },
+      webhook: { url: 'https://hooks.example/push', headers: { Authorization: 'Bearer env-secret' } },
+    });
+    expect(config.apiKey).toBe('${PUSH_TEST_TOKEN}');
+  });
+
+  it('are resolved when the backend is created', () => {
+    expect(resolvePushBackend({ backendUrl: 'https://notify.example', apiKey: '${PUSH_MISSING_TOKEN}' })).toEqual({
+      error: 'Cannot resolve secret apiKey: environment variable PUSH_MISSING_TOKEN is not set',
+    });
+    expect(resolvePushBackend({ backendUrl: 'https://notify.example', apiKey: '${PUSH_TEST_TOKEN}' }).backend?.name).toBe('http');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Secret references in credential fields
+ *
+ * Instead of a plaintext value, a credential may be `${ENV_VAR}` (also inside
+ * a longer string, e.g. "Bearer ${TOKEN}") or `file:/path/to/secret`, whose
+ * contents are used without the trailing newline. References are resolved
+ * each time a backend is created, so rotated secrets are picked up without a
+ * restart. Errors name the field and the reference, never the secret.
+ */
+
+import { readFileSync } from 'node:fs';
+import type { PushNotificationConfig } from './types';
+
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+const FILE_PREFIX = 'file:';
+
+/** Credential fields that may hold references, as paths into the config. */
+const SECRET_FIELDS = [
+  ['apiKey'],
+  ['signing', 'secret'],
+  ['expo', 'accessToken'],
+  ['slack', 'webhookUrl'],
+  ['discord', 'webhookUrl'],
+  ['ntfy', 'accessToken'],
+  ['webhook', 'url'],
+  ['webpush', 'vapid', 'privateKey'],
+] as const;
+
+export type SecretResolution = { value: string; error?: undefined } | { value?: undefined; error: string };
+
+export function isSecretReference(value: string): boolean {
+  return value.startsWith(FILE_PREFIX) || new RegExp(ENV_REFERENCE.source).test(value);
+}
+
+/**
+ * The value of one credential. `field` only labels errors.
+ */
+export function resolveSecret(value: string, field: string): SecretResolution {
+  if (value.startsWith(FILE_PREFIX)) {
+    const path = value.slice(FILE_PREFIX.length);
+    let contents: string;
+    try {
+      contents = readFileSync(path, 'utf8').replace(/\r?\n$/, '');
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code ?? 'unreadable';
+      return { error: `${field}: cannot read secret file ${path} (${code})` };
+    }
+    if (!contents) {
+      return { error: `${field}: secret file ${path} is empty` };
+    }
+    return { value: contents };
+  }
+
+  const missing: string[] = [];
+  const resolved = value.replace(ENV_REFERENCE, (_, name: string) => {
+    const env = process.env[name];
+    if (!env) {
+      missing.push(name);
+      return '';
+    }
+    return env;
+  });
+  if (missing.length > 0) {
+    return { error: `${field}: environment variable ${missing.join(', ')} is not set` };
+  }
+  return { value: resolved };
+}
+
+type ConfigNode = Record<string, unknown>;
+
+/**
+ * Resolve a value at `path`, copying each object on the way so `config` is
+ * left untouched.
+ */
+function resolveAt(node: ConfigNode, path: readonly string[], label: string): { node: ConfigNode; error?: string } {
+  const [key, ...rest] = path as [string, ...string[]];
+  const value = node[key];
+  if (rest.length === 0) {
+    if (typeof value !== 'string') {
+      return { node };
+    }
+    const { value: resolved, error } = resolveSecret(value, label);
+    return error !== undefined ? { node, error } : { node: { ...node, [key]: resolved } };
+  }
+  if (!value || typeof value !== 'object') {
+    return { node };
+  }
+  const { node: child, error } = resolveAt(value as ConfigNode, rest, label);
+  return error !== undefined ? { node, error } : { node: { ...node, [key]: child } };
+}
+
+/**
+ * A copy of the config with every credential reference, and webhook header
+ * values, replaced by its value.
+ */
+export function resolveConfigSecrets(
+  config: PushNotificationConfig
+): { config: PushNotificationConfig; error?: undefined } | { config?: undefined; error: string } {
+  let node = config as ConfigNode;
+  for (const path of SECRET_FIELDS) {
+    const resolved = resolveAt(node, path, path.join('.'));
+    if (resolved.error !== undefined) {
+      return { error: resolved.error };
+    }
+    node = resolved.node;
+  }
+
+  const resolvedConfig = node as PushNotificationConfig;
+  const headers = resolvedConfig.webhook?.headers;
+  if (!headers || !resolvedConfig.webhook) {
+    return { config: resolvedConfig };
+  }
+  const resolvedHeaders: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const { value: header, error } = resolveSecret(value, `webhook.headers.${name}`);
+    if (error !== undefined) {
+      return { error };
+    }
+    resolvedHeaders[name] = header;
+  }
+  return { config: { ...resolvedConfig, webhook: { ...resolvedConfig.webhook, headers: resolvedHeaders } } };
+}
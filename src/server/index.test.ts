@@ -0,0 +1,248 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createHttpBackend } from '../backends/http';
+import { registerPushTool } from '../tools/push';
+import type { OpenClawAgentTool, PushNotificationPayload, PushNotificationResult } from '../types';
+import { createPushServer, type PushServerOptions } from './index';
+
+type ExpoMessage = { to: string; title?: string; body?: string };
+type ExpoReply = { status: number; body: unknown };
+
+const phone = 'ExponentPushToken[phone]';
+const tablet = 'ExponentPushToken[tablet]';
+
+const payload: PushNotificationPayload = {
+  message: 'Build finished',
+  title: 'CI',
+  data: { runId: 42 },
+  priority: 'normal',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  idempotencyKey: 'key-1',
+};
+
+let dataDir: string;
+let expo: Server;
+let expoUrl: string;
+let expoMessages: ExpoMessage[];
+let sendReply: (messages: ExpoMessage[]) => ExpoReply;
+let receiptReply: (ids: string[]) => ExpoReply;
+let server: Server | undefined;
+let serverUrl: string;
+
+const listen = async (target: Server): Promise<string> => {
+  await new Promise<void>((resolve) => target.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(target.address() as AddressInfo).port}`;
+};
+
+const close = (target: Server) => new Promise<void>((resolve) => target.close(() => resolve()));
+
+const startServer = async (options: PushServerOptions = {}) => {
+  server = createPushServer({ dataDir, expo: { baseUrl: expoUrl }, ...options });
+  serverUrl = await listen(server);
+};
+
+const request = async (method: string, path: string, body?: unknown, token?: string) => {
+  const response = await fetch(`${serverUrl}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+};
+
+const register = (token: string, routingKey?: string) => request('POST', '/api/devices', { token, routingKey });
+
+describe('reference server', () => {
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'push-server-'));
+    expoMessages = [];
+    sendReply = (messages) => ({ status: 200, body: { data: messages.map((message) => ({ status: 'ok', id: `ticket-${message.to}` })) } });
+    receiptReply = (ids) => ({ status: 200, body: { data: Object.fromEntries(ids.map((id) => [id, { status: 'ok' }])) } });
+    expo = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        let reply: ExpoReply;
+        if (req.url === '/--/api/v2/push/send') {
+          expoMessages.push(...(body as ExpoMessage[]));
+          reply = sendReply(body as ExpoMessage[]);
+        } else {
+          reply = receiptReply((body as { ids: string[] }).ids);
+        }
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    expoUrl = await listen(expo);
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await close(server);
+      server = undefined;
+    }
+    await close(expo);
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('delivers a notification from the push tool to every registered device', async () => {
+    await startServer({ apiKey: 'plugin-key' });
+    expect((await register(phone)).status).toBe(201);
+    await register(tablet);
+
+    let tool: OpenClawAgentTool<unknown, PushNotificationResult> | undefined;
+    registerPushTool({
+      config: { plugins: { entries: { 'push-notification': { config: { backendUrl: serverUrl, apiKey: 'plugin-key' } } } } },
+      registerTool: (registered) => {
+        tool = typeof registered === 'function' ? registered({}) : registered;
+      },
+    });
+    const result = await tool?.execute('call-1', { message: 'Build finished', title: 'CI' });
+
+    expect(result?.details).toMatchObject({ success: true, receiptId: expect.any(String) });
+    expect(expoMessages.map((message) => message.to).sort()).toEqual([phone, tablet]);
+    expect(expoMessages[0]).toMatchObject({ title: 'CI', body: 'Build finished' });
+  });
+
+  it('fans out only to devices with the routing key', async () => {
+    await startServer();
+    await register(phone, 'alice');
+    await register(tablet, 'bob');
+
+    const backend = createHttpBackend({ backendUrl: serverUrl });
+    expect(await backend.send({ ...payload, routingKey: 'alice' })).toMatchObject({ success: true });
+    expect(expoMessages.map((message) => message.to)).toEqual([phone]);
+
+    const missing = await backend.send({ ...payload, idempotencyKey: 'key-2', routingKey: 'carol' });
+    expect(missing).toMatchObject({ success: false, error: expect.stringContaining('No devices registered for routing key "carol"') });
+    expect(missing.retry).toBeUndefined();
+  });
+
+  it('answers a retried notification with the same receipt instead of sending it again', async () => {
+    await startServer();
+    await register(phone);
+    const backend = createHttpBackend({ backendUrl: serverUrl });
+
+    const first = await backend.send(payload);
+    const second = await backend.send(payload);
+
+    expect(second.receiptId).toBe(first.receiptId);
+    expect(expoMessages).toHaveLength(1);
+  });
+
+  it('looks up receipts and removes devices Expo reports as unregistered', async () => {
+    await startServer();
+    await register(phone);
+    await register(tablet);
+    receiptReply = (ids) => ({
+      status: 200,
+      body: {
+        data: Object.fromEntries(
+          ids.map((id) => [id, id === `ticket-${tablet}` ? { status: 'error', details: { error: 'DeviceNotRegistered' } } : { status: 'ok' }])
+        ),
+      },
+    });
+    const backend = createHttpBackend({ backendUrl: serverUrl });
+    const sent = await backend.send(payload);
+
+    const status = await backend.getStatus?.(sent.receiptId as string);
+
+    expect(status).toMatchObject({ success: true, state: 'delivered' });
+    expect((await request('GET', '/api/devices')).body.devices).toEqual([expect.objectContaining({ token: phone })]);
+  });
+
+  it('removes devices whose tickets come back unregistered', async () => {
+    await startServer();
+    await register(phone);
+    await register(tablet);
+    sendReply = (messages) => ({
+      status: 200,
+      body: {
+        data: messages.map((message) =>
+          message.to === tablet
+            ? { status: 'error', message: 'Not registered', details: { error: 'DeviceNotRegistered' } }
+            : { status: 'ok', id: `ticket-${message.to}` }
+        ),
+      },
+    });
+
+    expect(await createHttpBackend({ backendUrl: serverUrl }).send(payload)).toMatchObject({ success: true });
+    expect((await request('GET', '/api/devices')).body.devices).toEqual([expect.objectContaining({ token: phone })]);
+  });
+
+  it('asks the plugin to retry when Expo is unavailable', async () => {
+    await startServer();
+    await register(phone);
+    sendReply = () => ({ status: 503, body: { errors: [{ code: 'UNAVAILABLE', message: 'Try again later' }] } });
+
+    const result = await createHttpBackend({ backendUrl: serverUrl }).send(payload);
+
+    expect(result.success).toBe(false);
+    expect(result.retry).toBeDefined();
+  });
+
+  it('requires the API key, a valid signature and the device key', async () => {
+    await startServer({ apiKey: 'plugin-key', signingKeys: { k1: 'signing-secret' }, deviceKey: 'app-key' });
+
+    expect((await register(phone)).status).toBe(401);
+    expect((await request('POST', '/api/devices', { token: phone }, 'app-key')).status).toBe(201);
+
+    const unsigned = await createHttpBackend({ backendUrl: serverUrl, apiKey: 'plugin-key' }).send(payload);
+    expect(unsigned).toMatchObject({ success: false });
+    const wrongKey = await createHttpBackend({ backendUrl: serverUrl, apiKey: 'nope', signing: { secret: 'signing-secret', keyId: 'k1' } }).send(payload);
+    expect(wrongKey).toMatchObject({ success: false, error: expect.stringContaining('Invalid API key') });
+
+    const signed = createHttpBackend({ backendUrl: serverUrl, apiKey: 'plugin-key', signing: { secret: 'signing-secret', keyId: 'k1' } });
+    expect(await signed.send(payload)).toMatchObject({ success: true });
+    expect(expoMessages).toHaveLength(1);
+  });
+
+  it('validates notifications and device tokens', async () => {
+    await startServer();
+
+    const device = await register('not-a-token');
+    expect(device.status).toBe(400);
+    expect(device.body.error).toContain('token: Expected an Expo push token');
+
+    const notification = await request('POST', '/api/notifications/send', { ...payload, priority: 'urgent', extra: true });
+    expect(notification.status).toBe(400);
+    expect(notification.body.error).toMatch(/^Invalid notification: priority: .*; body: Unrecognized key/);
+  });
+
+  it('unregisters devices', async () => {
+    await startServer();
+    await register(phone);
+
+    expect((await request('DELETE', `/api/devices/${encodeURIComponent(phone)}`)).status).toBe(200);
+    expect((await request('DELETE', `/api/devices/${encodeURIComponent(phone)}`)).status).toBe(404);
+    expect((await request('GET', '/api/devices')).body.devices).toEqual([]);
+  });
+
+  it('records the first answer to a question', async () => {
+    await startServer();
+    const backend = createHttpBackend({ backendUrl: serverUrl });
+
+    expect(await backend.getResponse?.('resp-1')).toEqual({ success: true, state: 'pending' });
+
+    expect((await request('POST', '/api/notifications/responses/resp-1', { action: 'approve' })).status).toBe(200);
+    await request('POST', '/api/notifications/responses/resp-1?action=reject');
+
+    expect(await backend.getResponse?.('resp-1')).toMatchObject({ success: true, state: 'answered', action: 'approve' });
+  });
+
+  it('rejects unknown routes and methods', async () => {
+    await startServer();
+
+    expect((await request('GET', '/api/unknown')).status).toBe(404);
+    const wrongMethod = await request('PUT', '/api/notifications/send', {});
+    expect(wrongMethod.status).toBe(405);
+  });
+});
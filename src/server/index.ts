@@ -0,0 +1,284 @@
+/**
+ * Reference notification backend
+ *
+ * A small self-hostable server for the "http" backend, built on Node's
+ * http module. Apps register their Expo push tokens; notifications from the
+ * plugin fan out to the devices with their routing key through the Expo
+ * Push API. Receipt lookups ask Expo for the delivery state, and devices
+ * Expo reports as unregistered are removed. Run it with `openclaw-push-server`
+ * or embed it with `createPushServer`.
+ *
+ *   POST   /api/devices                               Register a device (device key)
+ *   DELETE /api/devices/:token                        Unregister a device (device key)
+ *   GET    /api/devices                               List devices (API key)
+ *   POST   /api/notifications/send                    Send a notification (API key)
+ *   GET    /api/notifications/receipts/:receiptId     Delivery state (API key)
+ *   GET    /api/notifications/responses/:responseId   ask_user answer (API key)
+ *   POST   /api/notifications/responses/:responseId   Answer from the device (device key)
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createExpoBackend } from '../backends/expo';
+import { formatIssues } from '../errors';
+import { readAction } from '../interactive';
+import { createSignatureVerifier } from '../signing';
+import { DeviceRegistrationSchema, PushPayloadSchema } from './schema';
+import { createServerStore, type PushServerStore } from './store';
+import type { ExpoBackendConfig, PushNotificationResponse, PushServerReceipt, PushTicket } from '../types';
+
+/** Notifications are small; anything bigger is rejected before parsing. */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface PushServerOptions {
+  /** Directory for the JSON files. Defaults to .openclaw/push-notification/server in the home directory */
+  dataDir?: string;
+  /** Bearer token the plugin sends as `apiKey`; required on the plugin's endpoints when set */
+  apiKey?: string;
+  /** Signing secrets by key ID; when set, the plugin's requests must be signed (its `signing` option) */
+  signingKeys?: Record<string, string>;
+  /** Bearer token apps send to register devices and answer questions; those endpoints are open when unset */
+  deviceKey?: string;
+  /** Expo Push API settings; the tokens are the registered devices */
+  expo?: Omit<ExpoBackendConfig, 'tokens'>;
+  /** Shared with another server instance or a test; created from `dataDir` when omitted */
+  store?: PushServerStore;
+}
+
+function respond(res: ServerResponse, status: number, body: object, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Compares digests so neither the length nor the content leaks through timing. */
+function bearerMatches(req: IncomingMessage, expected: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const given = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+const DEVICE_PATH = /^\/api\/devices\/([^/]+)$/;
+const RECEIPT_PATH = /^\/api\/notifications\/receipts\/([^/]+)$/;
+const RESPONSE_PATH = /^\/api\/notifications\/responses\/([^/]+)$/;
+
+/** Methods the endpoint at `path` accepts, or undefined when there is none. */
+function allowedMethods(path: string): string[] | undefined {
+  if (path === '/api/devices' || RESPONSE_PATH.test(path)) {
+    return ['GET', 'POST'];
+  }
+  if (DEVICE_PATH.test(path)) {
+    return ['DELETE'];
+  }
+  if (path === '/api/notifications/send') {
+    return ['POST'];
+  }
+  if (RECEIPT_PATH.test(path)) {
+    return ['GET'];
+  }
+  return undefined;
+}
+
+/** Tokens Expo says no longer belong to an installed app. */
+function unregisteredTokens(tickets: PushTicket[] = []): string[] {
+  return tickets.filter((ticket) => ticket.code === 'DeviceNotRegistered').map((ticket) => ticket.token);
+}
+
+export function createPushServer(options: PushServerOptions = {}): Server {
+  const store = options.store ?? createServerStore(options.dataDir);
+  const verify = options.signingKeys ? createSignatureVerifier({ keys: options.signingKeys }) : undefined;
+  const expo = (tokens: string[]) => createExpoBackend({ ...options.expo, tokens });
+
+  /** Why a request from the plugin is rejected, if it is. */
+  const checkPlugin = async (req: IncomingMessage, body: string): Promise<string | undefined> => {
+    if (options.apiKey && !bearerMatches(req, options.apiKey)) {
+      return 'Invalid API key';
+    }
+    if (verify) {
+      const check = await verify({ headers: req.headers, body });
+      return check.valid ? undefined : check.error;
+    }
+    return undefined;
+  };
+  const checkDevice = (req: IncomingMessage): string | undefined =>
+    options.deviceKey && !bearerMatches(req, options.deviceKey) ? 'Invalid device key' : undefined;
+
+  const send = async (res: ServerResponse, body: string): Promise<void> => {
+    const parsed = PushPayloadSchema.safeParse(parseJson(body));
+    if (!parsed.success) {
+      respond(res, 400, { success: false, error: `Invalid notification: ${formatIssues(parsed.error, 'body')}` });
+      return;
+    }
+    const payload = parsed.data;
+
+    // A retry of a notification that already went out gets the same receipt.
+    const previous = await store.findReceiptByIdempotencyKey(payload.idempotencyKey);
+    if (previous) {
+      const response: PushNotificationResponse = { success: true, receiptId: previous.id };
+      respond(res, 200, response);
+      return;
+    }
+
+    const devices = await store.devicesFor(payload.routingKey);
+    if (devices.length === 0) {
+      const error = payload.routingKey ? `No devices registered for routing key "${payload.routingKey}"` : 'No devices registered';
+      const response: PushNotificationResponse = { success: false, error, code: 'NO_DEVICES' };
+      respond(res, 404, response);
+      return;
+    }
+
+    const result = await expo(devices.map((device) => device.token)).send(payload);
+    await store.removeDevices(unregisteredTokens(result.tickets));
+    if (!result.success) {
+      const error = result.tickets?.find((ticket) => ticket.status === 'error')?.error ?? result.error ?? 'Unknown error';
+      const failure: PushNotificationResponse = { success: false, error, code: result.code };
+      if (result.retry) {
+        // 503 makes the plugin retry, honouring Retry-After.
+        const retryAfter = result.retry.afterMs !== undefined ? { 'Retry-After': String(Math.ceil(result.retry.afterMs / 1000)) } : undefined;
+        respond(res, 503, failure, retryAfter);
+      } else {
+        respond(res, 422, failure);
+      }
+      return;
+    }
+
+    const receipt: PushServerReceipt = {
+      id: randomUUID(),
+      idempotencyKey: payload.idempotencyKey,
+      createdAt: new Date().toISOString(),
+      tickets: result.tickets ?? [],
+    };
+    await store.saveReceipt(receipt);
+    const response: PushNotificationResponse = { success: true, receiptId: receipt.id };
+    respond(res, 200, response);
+  };
+
+  const lookUpReceipt = async (res: ServerResponse, receiptId: string): Promise<void> => {
+    const receipt = await store.getReceipt(receiptId);
+    if (!receipt) {
+      respond(res, 404, { error: 'Unknown or expired receipt' });
+      return;
+    }
+    const tokenByTicket = new Map(
+      receipt.tickets.filter((ticket) => ticket.id).map((ticket) => [ticket.id as string, ticket.token])
+    );
+    const status = await expo([]).getStatus?.([...tokenByTicket.keys()].join(','));
+    if (!status?.success) {
+      respond(res, 502, { error: status?.error ?? 'Receipt lookup failed' });
+      return;
+    }
+    const gone = (status.receipts ?? [])
+      .filter((deviceReceipt) => deviceReceipt.state === 'unregistered')
+      .map((deviceReceipt) => tokenByTicket.get(deviceReceipt.id))
+      .filter((token): token is string => token !== undefined);
+    await store.removeDevices(gone);
+    respond(res, 200, { status: status.state, ...(status.reason && { reason: status.reason }) });
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse, body: string): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.replace(/\/+$/, '');
+    const method = req.method ?? 'GET';
+    const deviceMatch = DEVICE_PATH.exec(path);
+    const receiptMatch = RECEIPT_PATH.exec(path);
+    const responseMatch = RESPONSE_PATH.exec(path);
+
+    const allowed = allowedMethods(path);
+    if (!allowed) {
+      respond(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (!allowed.includes(method)) {
+      respond(res, 405, { error: 'Method not allowed' }, { Allow: allowed.join(', ') });
+      return;
+    }
+
+    // Apps register and answer; everything else comes from the plugin.
+    const fromDevice = (path === '/api/devices' && method === 'POST') || deviceMatch || (responseMatch && method === 'POST');
+    const denied = fromDevice ? checkDevice(req) : await checkPlugin(req, body);
+    if (denied) {
+      respond(res, 401, { success: false, error: denied });
+      return;
+    }
+
+    if (path === '/api/devices' && method === 'POST') {
+      const parsed = DeviceRegistrationSchema.safeParse(parseJson(body));
+      if (!parsed.success) {
+        respond(res, 400, { success: false, error: `Invalid device: ${formatIssues(parsed.error, 'body')}` });
+        return;
+      }
+      respond(res, 201, { success: true, device: await store.registerDevice(parsed.data) });
+    } else if (path === '/api/devices') {
+      respond(res, 200, { devices: await store.listDevices() });
+    } else if (deviceMatch) {
+      const removed = await store.unregisterDevice(decodeURIComponent(deviceMatch[1] as string));
+      respond(res, removed ? 200 : 404, removed ? { success: true } : { success: false, error: 'Unknown device' });
+    } else if (receiptMatch) {
+      await lookUpReceipt(res, decodeURIComponent(receiptMatch[1] as string));
+    } else if (responseMatch && method === 'POST') {
+      const action = readAction(url, body);
+      if (!action) {
+        respond(res, 400, { success: false, error: 'Missing action' });
+        return;
+      }
+      const responseId = decodeURIComponent(responseMatch[1] as string);
+      await store.saveAnswer({ responseId, action, respondedAt: new Date().toISOString() });
+      respond(res, 200, { success: true });
+    } else if (responseMatch) {
+      const answer = await store.getAnswer(decodeURIComponent(responseMatch[1] as string));
+      if (!answer) {
+        respond(res, 404, { status: 'pending' });
+        return;
+      }
+      respond(res, 200, { status: 'answered', action: answer.action, respondedAt: answer.respondedAt });
+    } else {
+      await send(res, body);
+    }
+  };
+
+  return createServer(async (req, res) => {
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch {
+      respond(res, 413, { error: 'Body too large' });
+      return;
+    }
+    try {
+      await route(req, res, body);
+    } catch {
+      // Store I/O problems; the plugin retries 5xx responses.
+      if (!res.headersSent) {
+        respond(res, 500, { error: 'Internal server error' });
+      }
+    }
+  });
+}
+
+export { createServerStore, DEFAULT_SERVER_DATA_DIR, type PushServerStore } from './store';
@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+/**
+ * Runs the reference notification backend, configured from the environment:
+ *
+ *   PUSH_SERVER_PORT             Port to listen on (default 8787)
+ *   PUSH_SERVER_HOST             Interface to bind (default 127.0.0.1)
+ *   PUSH_SERVER_DATA_DIR         Where devices and receipts are stored
+ *   PUSH_SERVER_API_KEY          Bearer token the plugin must send (its `apiKey`)
+ *   PUSH_SERVER_SIGNING_SECRET   Secret the plugin signs requests with (its `signing.secret`)
+ *   PUSH_SERVER_SIGNING_KEY_ID   Key ID of that secret (default "default")
+ *   PUSH_SERVER_DEVICE_KEY       Bearer token apps must send to register devices and answer
+ *   EXPO_ACCESS_TOKEN            Expo access token, when enhanced push security is on
+ *   EXPO_BASE_URL                Expo Push API base URL (for testing)
+ */
+
+import type { AddressInfo } from 'node:net';
+import { createPushServer } from './index';
+
+const env = process.env;
+const port = Number(env.PUSH_SERVER_PORT ?? 8787);
+const host = env.PUSH_SERVER_HOST ?? '127.0.0.1';
+
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  console.error(`PUSH_SERVER_PORT must be a port number, got "${env.PUSH_SERVER_PORT}"`);
+  process.exit(1);
+}
+
+const server = createPushServer({
+  dataDir: env.PUSH_SERVER_DATA_DIR || undefined,
+  apiKey: env.PUSH_SERVER_API_KEY || undefined,
+  deviceKey: env.PUSH_SERVER_DEVICE_KEY || undefined,
+  signingKeys: env.PUSH_SERVER_SIGNING_SECRET
+    ? { [env.PUSH_SERVER_SIGNING_KEY_ID || 'default']: env.PUSH_SERVER_SIGNING_SECRET }
+    : undefined,
+  expo: {
+    accessToken: env.EXPO_ACCESS_TOKEN || undefined,
+    baseUrl: env.EXPO_BASE_URL || undefined,
+  },
+});
+
+server.listen(port, host, () => {
+  const address = server.address() as AddressInfo;
+  console.log(`Push notification server listening on http://${address.address}:${address.port}`);
+  if (!env.PUSH_SERVER_API_KEY && !env.PUSH_SERVER_SIGNING_SECRET) {
+    console.warn('Warning: neither PUSH_SERVER_API_KEY nor PUSH_SERVER_SIGNING_SECRET is set; anyone who can reach the server can send notifications');
+  }
+  if (!env.PUSH_SERVER_DEVICE_KEY) {
+    console.warn('Warning: PUSH_SERVER_DEVICE_KEY is not set; anyone who can reach the server can register or remove devices and answer questions');
+  }
+});
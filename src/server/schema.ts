@@ -0,0 +1,63 @@
+/**
+ * Request schemas for the reference server
+ *
+ * `PushPayloadSchema` accepts exactly the PushNotificationPayload the plugin
+ * sends; the checks at the bottom fail to compile when the two drift apart.
+ */
+
+import { z } from 'zod';
+import type { PushNotificationPayload, PushServerDevice } from '../types';
+
+const PushActionSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  destructive: z.boolean().optional(),
+}).strict();
+
+export const PushPayloadSchema = z.object({
+  message: z.string().min(1),
+  title: z.string(),
+  data: z.record(z.unknown()),
+  priority: z.enum(['low', 'normal', 'high']),
+  jobId: z.string().optional(),
+  agentId: z.string().optional(),
+  timestamp: z.string().datetime({ offset: true }),
+  idempotencyKey: z.string().min(1),
+  recipient: z.string().optional(),
+  routingKey: z.string().optional(),
+  profile: z.string().optional(),
+  origin: z.object({
+    sessionId: z.string().optional(),
+    channelId: z.string().optional(),
+    userId: z.string().optional(),
+  }).strict().optional(),
+  category: z.object({
+    id: z.string().min(1),
+    actions: z.array(PushActionSchema),
+  }).strict().optional(),
+  responseId: z.string().optional(),
+  responseUrl: z.string().optional(),
+  url: z.string().optional(),
+  imageUrl: z.string().optional(),
+  subtitle: z.string().optional(),
+  sound: z.string().optional(),
+  badge: z.number().int().min(0).optional(),
+  threadId: z.string().optional(),
+  collapseKey: z.string().optional(),
+  ttlSeconds: z.number().int().min(0).optional(),
+  channelId: z.string().optional(),
+}).strict();
+
+export const DeviceRegistrationSchema = z.object({
+  token: z.string().regex(/^Expo(nent)?PushToken\[.+\]$/, 'Expected an Expo push token, e.g. "ExponentPushToken[xxxx]"'),
+  routingKey: z.string().min(1).optional(),
+  name: z.string().min(1).max(100).optional(),
+}).strict();
+
+// Keeps the schemas and the shared types in step, in both directions.
+const _payloadSchemaMatchesType: z.ZodType<PushNotificationPayload, z.ZodTypeDef, unknown> = PushPayloadSchema;
+const _payloadSchemaCoversType: Record<Exclude<keyof PushNotificationPayload, keyof z.infer<typeof PushPayloadSchema>>, never> = {};
+const _deviceSchemaMatchesType: z.ZodType<Omit<PushServerDevice, 'registeredAt'>, z.ZodTypeDef, unknown> = DeviceRegistrationSchema;
+void _payloadSchemaMatchesType;
+void _payloadSchemaCoversType;
+void _deviceSchemaMatchesType;
@@ -0,0 +1,118 @@
+/**
+ * Storage for the reference server: registered devices, receipts and
+ * answers, each in a JSON file under one directory.
+ */
+
+import { join } from 'node:path';
+import { DEFAULT_STATE_DIR, readJsonList, withFileLock, writeJsonList } from '../store';
+import type { PushServerAnswer, PushServerDevice, PushServerReceipt } from '../types';
+
+export const DEFAULT_SERVER_DATA_DIR = join(DEFAULT_STATE_DIR, 'server');
+
+/** Expo keeps receipts for about a day, so older ones cannot be looked up anyway. Answers are kept as long. */
+export const RECEIPT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export interface PushServerStore {
+  dir: string;
+  /** Add a device, or update the routing key and name of a known token */
+  registerDevice: (device: Omit<PushServerDevice, 'registeredAt'>) => Promise<PushServerDevice>;
+  /** Returns false when the token was not registered */
+  unregisterDevice: (token: string) => Promise<boolean>;
+  removeDevices: (tokens: string[]) => Promise<void>;
+  listDevices: () => Promise<PushServerDevice[]>;
+  /** Devices registered with exactly this routing key (or without one) */
+  devicesFor: (routingKey: string | undefined) => Promise<PushServerDevice[]>;
+  saveReceipt: (receipt: PushServerReceipt) => Promise<void>;
+  getReceipt: (id: string) => Promise<PushServerReceipt | undefined>;
+  findReceiptByIdempotencyKey: (key: string) => Promise<PushServerReceipt | undefined>;
+  /** The first answer counts; later ones for the same response are ignored */
+  saveAnswer: (answer: PushServerAnswer) => Promise<PushServerAnswer>;
+  getAnswer: (responseId: string) => Promise<PushServerAnswer | undefined>;
+}
+
+export function createServerStore(dir: string = DEFAULT_SERVER_DATA_DIR, now: () => number = Date.now): PushServerStore {
+  const devicesPath = join(dir, 'devices.json');
+  const receiptsPath = join(dir, 'receipts.json');
+  const answersPath = join(dir, 'answers.json');
+
+  const readDevices = () => readJsonList<PushServerDevice>(devicesPath, 'devices');
+  const writeDevices = (devices: PushServerDevice[]) => writeJsonList(devicesPath, 'devices', devices);
+  const readReceipts = async () =>
+    (await readJsonList<PushServerReceipt>(receiptsPath, 'receipts')).filter(
+      (receipt) => now() - Date.parse(receipt.createdAt) <= RECEIPT_RETENTION_MS
+    );
+  const readAnswers = async () =>
+    (await readJsonList<PushServerAnswer>(answersPath, 'answers')).filter(
+      (answer) => now() - Date.parse(answer.respondedAt) <= RECEIPT_RETENTION_MS
+    );
+
+  return {
+    dir,
+
+    registerDevice: (device) =>
+      withFileLock(devicesPath, async () => {
+        const devices = await readDevices();
+        const existing = devices.find((known) => known.token === device.token);
+        const registered: PushServerDevice = {
+          token: device.token,
+          ...(device.routingKey && { routingKey: device.routingKey }),
+          ...(device.name && { name: device.name }),
+          registeredAt: existing?.registeredAt ?? new Date(now()).toISOString(),
+        };
+        await writeDevices([...devices.filter((known) => known.token !== device.token), registered]);
+        return registered;
+      }),
+
+    unregisterDevice: (token) =>
+      withFileLock(devicesPath, async () => {
+        const devices = await readDevices();
+        const remaining = devices.filter((device) => device.token !== token);
+        if (remaining.length === devices.length) {
+          return false;
+        }
+        await writeDevices(remaining);
+        return true;
+      }),
+
+    removeDevices: async (tokens) => {
+      if (tokens.length === 0) {
+        return;
+      }
+      await withFileLock(devicesPath, async () => {
+        const devices = await readDevices();
+        await writeDevices(devices.filter((device) => !tokens.includes(device.token)));
+      });
+    },
+
+    listDevices: () => withFileLock(devicesPath, readDevices),
+
+    devicesFor: async (routingKey) =>
+      (await withFileLock(devicesPath, readDevices)).filter((device) => device.routingKey === routingKey),
+
+    // Expired receipts are dropped whenever a new one is written.
+    saveReceipt: (receipt) =>
+      withFileLock(receiptsPath, async () => {
+        const receipts = await readReceipts();
+        await writeJsonList(receiptsPath, 'receipts', [...receipts, receipt]);
+      }),
+
+    getReceipt: async (id) => (await withFileLock(receiptsPath, readReceipts)).find((receipt) => receipt.id === id),
+
+    findReceiptByIdempotencyKey: async (key) =>
+      (await withFileLock(receiptsPath, readReceipts)).find((receipt) => receipt.idempotencyKey === key),
+
+    saveAnswer: (answer) =>
+      withFileLock(answersPath, async () => {
+        const answers = await readAnswers();
+        const existing = answers.find((known) => known.responseId === answer.responseId);
+        if (existing) {
+          return existing;
+        }
+        await writeJsonList(answersPath, 'answers', [...answers, answer]);
+        return answer;
+      }),
+
+    getAnswer: async (responseId) =>
+      (await withFileLock(answersPath, readAnswers)).find((answer) => answer.responseId === responseId),
+  };
+}
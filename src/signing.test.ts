@@ -0,0 +1,99 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createHttpBackend } from './backends/http';
+import { createSignatureVerifier, signRequest } from './signing';
+import type { PushNotificationPayload } from './types';
+
+const NOW = Date.UTC(2024, 0, 1);
+const body = JSON.stringify({ message: 'hi' });
+
+describe('request signing', () => {
+  const verifier = () => createSignatureVerifier({ keys: { current: 'new-secret', previous: 'old-secret' }, now: () => NOW });
+
+  it('accepts requests signed with any active key', async () => {
+    const verify = verifier();
+
+    const signed = signRequest(body, { secret: 'old-secret', keyId: 'previous' }, NOW);
+
+    expect(signed['X-OpenClaw-Signature']).toMatch(/^v1=[0-9a-f]{64}$/);
+    expect(await verify({ headers: signed, body: Buffer.from(body) })).toEqual({ valid: true, keyId: 'previous' });
+    expect(await verify({ headers: new Headers(signRequest(body, { secret: 'new-secret', keyId: 'current' }, NOW)), body })).toEqual({
+      valid: true,
+      keyId: 'current',
+    });
+  });
+
+  it('rejects tampered bodies, unknown keys and missing headers', async () => {
+    const verify = verifier();
+    const headers = signRequest(body, { secret: 'new-secret', keyId: 'current' }, NOW);
+
+    expect(await verify({ headers, body: body.replace('hi', 'bye') })).toMatchObject({ valid: false, reason: 'invalid_signature' });
+    expect(await verify({ headers: signRequest(body, { secret: 'new-secret' }, NOW), body })).toMatchObject({
+      valid: false,
+      reason: 'unknown_key',
+    });
+    expect(await verify({ headers: {}, body })).toMatchObject({ valid: false, reason: 'missing_headers' });
+  });
+
+  it('enforces the clock-skew window and rejects replayed nonces', async () => {
+    const verify = verifier();
+    const signing = { secret: 'new-secret', keyId: 'current' };
+
+    expect(await verify({ headers: signRequest(body, signing, NOW - 301_000), body })).toMatchObject({ reason: 'expired' });
+    expect(await verify({ headers: signRequest(body, signing, NOW + 301_000), body })).toMatchObject({ reason: 'expired' });
+
+    const headers = signRequest(body, signing, NOW - 60_000);
+    expect((await verify({ headers, body })).valid).toBe(true);
+    expect(await verify({ headers, body })).toMatchObject({ valid: false, reason: 'replayed' });
+  });
+
+  describe('http backend', () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+      server = undefined;
+    });
+
+    it('signs every attempt so the backend can verify it', async () => {
+      const verify = createSignatureVerifier({ keys: { k1: 's3cret' } });
+      const checks: unknown[] = [];
+      server = createServer((req: IncomingMessage, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', async () => {
+          const check = await verify({ headers: req.headers, body: Buffer.concat(chunks) });
+          checks.push(check);
+          res.writeHead(check.valid ? 200 : 401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(check.valid ? { receiptId: 'r-1', status: 'delivered' } : { error: check.error }));
+        });
+      });
+      await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+      const backendUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const backend = createHttpBackend({ backendUrl, signing: { secret: 's3cret', keyId: 'k1' } });
+      const payload: PushNotificationPayload = {
+        message: 'Done',
+        title: 'OpenClaw Agent',
+        data: {},
+        priority: 'normal',
+        jobId: 'job-1',
+        agentId: 'agent-1',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        idempotencyKey: 'key-1',
+      };
+
+      expect(await backend.send(payload)).toMatchObject({ success: true, receiptId: 'r-1' });
+      expect(await backend.send(payload)).toMatchObject({ success: true });
+      expect(await backend.getStatus?.('r-1')).toMatchObject({ success: true, state: 'delivered' });
+      expect(checks).toEqual([
+        { valid: true, keyId: 'k1' },
+        { valid: true, keyId: 'k1' },
+        { valid: true, keyId: 'k1' },
+      ]);
+
+      const unsigned = createHttpBackend({ backendUrl });
+      expect(await unsigned.send(payload)).toMatchObject({ success: false, error: 'Failed to send notification: Request is not signed' });
+    });
+  });
+});
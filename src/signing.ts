@@ -0,0 +1,162 @@
+/**
+ * HMAC request signing
+ *
+ * Requests to the "http" backend can be signed with a shared secret so a
+ * leaked API key alone is not enough to push to users. The signature is
+ * HMAC-SHA256 over `<timestamp>.<nonce>.<raw body>`, hex-encoded:
+ *
+ *   X-OpenClaw-Key-Id:    which secret signed the request
+ *   X-OpenClaw-Timestamp: Unix time in seconds
+ *   X-OpenClaw-Nonce:     random, unique per request
+ *   X-OpenClaw-Signature: v1=<hex HMAC>
+ *
+ * `createSignatureVerifier` checks these headers on the backend side. It only
+ * needs the headers and the raw body, so it works with Express, Fastify or
+ * plain Node `http`.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { SigningConfig } from './types';
+
+export const SIGNATURE_HEADERS = {
+  keyId: 'x-openclaw-key-id',
+  timestamp: 'x-openclaw-timestamp',
+  nonce: 'x-openclaw-nonce',
+  signature: 'x-openclaw-signature',
+} as const;
+
+export const DEFAULT_SIGNING_KEY_ID = 'default';
+
+/** Accepted difference between the signing time and the verifier's clock. */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const SIGNATURE_VERSION = 'v1';
+
+function computeSignature(secret: string, timestamp: string, nonce: string, body: string | Uint8Array): Buffer {
+  return createHmac('sha256', secret).update(`${timestamp}.${nonce}.`).update(body).digest();
+}
+
+/**
+ * Signature headers for one request. Every call (and so every retry) gets a
+ * fresh timestamp and nonce.
+ */
+export function signRequest(
+  body: string | Uint8Array,
+  config: SigningConfig,
+  now: number = Date.now(),
+  nonce: string = randomBytes(16).toString('hex')
+): Record<string, string> {
+  const timestamp = String(Math.floor(now / 1000));
+  return {
+    'X-OpenClaw-Key-Id': config.keyId || DEFAULT_SIGNING_KEY_ID,
+    'X-OpenClaw-Timestamp': timestamp,
+    'X-OpenClaw-Nonce': nonce,
+    'X-OpenClaw-Signature': `${SIGNATURE_VERSION}=${computeSignature(config.secret, timestamp, nonce, body).toString('hex')}`,
+  };
+}
+
+/**
+ * Remembers nonces until they expire. `add` returns false when the nonce was
+ * already seen. Use a shared store (e.g. Redis SET NX EX) when several
+ * backend instances verify requests.
+ */
+export interface NonceStore {
+  add: (nonce: string, expiresAt: number) => boolean | Promise<boolean>;
+}
+
+export function createMemoryNonceStore(now: () => number = Date.now): NonceStore {
+  const seen = new Map<string, number>();
+  return {
+    add: (nonce, expiresAt) => {
+      const at = now();
+      for (const [key, expiry] of seen) {
+        if (expiry <= at) {
+          seen.delete(key);
+        }
+      }
+      if (seen.has(nonce)) {
+        return false;
+      }
+      seen.set(nonce, expiresAt);
+      return true;
+    },
+  };
+}
+
+export interface SignatureVerifierOptions {
+  /**
+   * Accepted secrets by key ID. Keep the old key listed while senders move
+   * to a new one, then remove it.
+   */
+  keys: Record<string, string>;
+  toleranceSeconds?: number;
+  /** Defaults to an in-memory store for a single process */
+  nonceStore?: NonceStore;
+  now?: () => number;
+}
+
+export type SignatureFailure = 'missing_headers' | 'unknown_key' | 'expired' | 'invalid_signature' | 'replayed';
+
+export type SignatureVerification =
+  | { valid: true; keyId: string }
+  | { valid: false; reason: SignatureFailure; error: string };
+
+/** Node/Express/Fastify header objects, or Fetch API `Headers`. */
+export type RequestHeaders =
+  | Record<string, string | string[] | undefined>
+  | { get: (name: string) => string | null };
+
+function readHeader(headers: RequestHeaders, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return (headers as { get: (name: string) => string | null }).get(name) ?? undefined;
+  }
+  const record = headers as Record<string, string | string[] | undefined>;
+  const value = record[name] ?? Object.entries(record).find(([key]) => key.toLowerCase() === name)?.[1];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Create a verifier for signed requests. Pass the request headers and the
+ * raw body exactly as received (before JSON parsing).
+ */
+export function createSignatureVerifier(
+  options: SignatureVerifierOptions
+): (request: { headers: RequestHeaders; body: string | Uint8Array }) => Promise<SignatureVerification> {
+  const now = options.now ?? Date.now;
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const nonceStore = options.nonceStore ?? createMemoryNonceStore(now);
+
+  return async ({ headers, body }) => {
+    const keyId = readHeader(headers, SIGNATURE_HEADERS.keyId);
+    const timestamp = readHeader(headers, SIGNATURE_HEADERS.timestamp);
+    const nonce = readHeader(headers, SIGNATURE_HEADERS.nonce);
+    const signature = readHeader(headers, SIGNATURE_HEADERS.signature);
+    if (!keyId || !timestamp || !nonce || !signature) {
+      return { valid: false, reason: 'missing_headers', error: 'Request is not signed' };
+    }
+
+    const secret = Object.prototype.hasOwnProperty.call(options.keys, keyId) ? options.keys[keyId] : undefined;
+    if (!secret) {
+      return { valid: false, reason: 'unknown_key', error: `Unknown signing key "${keyId}"` };
+    }
+
+    const signedAt = Number(timestamp);
+    if (!/^\d+$/.test(timestamp) || Math.abs(now() / 1000 - signedAt) > tolerance) {
+      return { valid: false, reason: 'expired', error: 'Request timestamp is outside the accepted window' };
+    }
+
+    const expected = computeSignature(secret, timestamp, nonce, body);
+    const [version, hex] = signature.split('=', 2);
+    const actual = version === SIGNATURE_VERSION && hex && /^[0-9a-f]+$/i.test(hex) ? Buffer.from(hex, 'hex') : undefined;
+    if (!actual || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return { valid: false, reason: 'invalid_signature', error: 'Signature does not match' };
+    }
+
+    // Checked last so unsigned traffic cannot fill the nonce store.
+    const fresh = await nonceStore.add(`${keyId}:${nonce}`, (signedAt + tolerance) * 1000);
+    if (!fresh) {
+      return { valid: false, reason: 'replayed', error: 'Nonce was already used' };
+    }
+    return { valid: true, keyId };
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Small JSON file store shared by the outbox and the scheduler
+ *
+ * Writes go to a temp file which is then renamed over the target, so a crash
+ * never leaves a half-written file. Operations on the same path are
+ * serialized within the process with `withFileLock`.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+/** Directory for the plugin's local state files. */
+export const DEFAULT_STATE_DIR = join(homedir(), '.openclaw', 'push-notification');
+
+const locks = new Map<string, Promise<unknown>>();
+
+export function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(path) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  locks.set(path, next.catch(() => undefined));
+  return next;
+}
+
+/**
+ * Read the array stored under `key`, or an empty array when the file does not exist.
+ */
+export async function readJsonList<T>(path: string, key: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const parsed = JSON.parse(raw) as Record<string, unknown>;
+  const list = parsed[key];
+  return Array.isArray(list) ? (list as T[]) : [];
+}
+
+export async function writeJsonList<T>(path: string, key: string, list: T[]): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify({ [key]: list }, null, 2), 'utf8');
+  await rename(tmp, path);
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { afterSend, beforeSend, emitBeforeSend, formatSendLog, recordSend } from './telemetry';
+import type { PushNotificationPayload, PushSendEvent } from './types';
+
+const payload: PushNotificationPayload = {
+  message: 'Your code is 123456',
+  title: 'Login for alice@example.com',
+  data: { token: 'secret' },
+  priority: 'normal',
+  agentId: 'agent-1',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  idempotencyKey: 'key-1',
+};
+
+const failed: PushSendEvent = {
+  payload,
+  backend: 'http',
+  outcome: 'failed',
+  latencyMs: 120,
+  result: { success: false, code: 'AUTH', attempts: 1, error: 'Rejected api_key=abcdef123456' },
+};
+
+describe('telemetry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('calls hooks until they are removed and ignores their failures', async () => {
+    const before = vi.fn();
+    const after = vi.fn().mockRejectedValue(new Error('collector down'));
+    const removeBefore = beforeSend(before);
+    const removeAfter = afterSend(after);
+    const removeThrowing = afterSend(() => {
+      throw new Error('broken hook');
+    });
+
+    emitBeforeSend({ payload, backend: 'http' });
+    await recordSend(failed, {});
+    removeBefore();
+    removeAfter();
+    removeThrowing();
+    emitBeforeSend({ payload, backend: 'http' });
+    await recordSend(failed, {});
+
+    expect(before).toHaveBeenCalledTimes(1);
+    expect(before).toHaveBeenCalledWith({ payload, backend: 'http' });
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(after).toHaveBeenCalledWith(failed);
+  });
+
+  it('logs sends as JSON without the message and with secrets masked', () => {
+    const line = JSON.parse(formatSendLog(failed, {}, Date.parse('2024-01-01T00:00:01.000Z')));
+
+    expect(line).toEqual({
+      time: '2024-01-01T00:00:01.000Z',
+      level: 'error',
+      msg: 'push.failed',
+      backend: 'http',
+      priority: 'normal',
+      title: 'Login for [REDACTED:email]',
+      agentId: 'agent-1',
+      idempotencyKey: 'key-1',
+      latencyMs: 120,
+      attempts: 1,
+      code: 'AUTH',
+      error: 'Rejected api_key=[REDACTED:apiKey]',
+    });
+  });
+
+  it('writes log lines at or above the configured level', async () => {
+    const write = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    await recordSend({ ...failed, outcome: 'sent', result: { success: true } }, { logging: { enabled: true, level: 'warn' } });
+    await recordSend(failed, { logging: { enabled: true, level: 'warn' } });
+    await recordSend(failed, {});
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(String(write.mock.calls[0]?.[0])).toMatch(/^\{"time":.*"msg":"push\.failed".*\}\n$/);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Telemetry for every send: lifecycle hooks, structured logs and metrics
+ *
+ * Host apps register `beforeSend` / `afterSend` hooks to feed their own
+ * telemetry. Hooks only observe: their errors are swallowed and they are not
+ * awaited, so a slow or broken hook never delays or fails a notification.
+ */
+
+import { resolveMetrics } from './metrics';
+import { redactText } from './redaction';
+import type { LogLevel, PushNotificationConfig, PushSendEvent, PushSendOutcome, PushSendStartEvent } from './types';
+
+export type BeforeSendHook = (event: PushSendStartEvent) => void | Promise<void>;
+export type AfterSendHook = (event: PushSendEvent) => void | Promise<void>;
+
+const beforeSendHooks = new Set<BeforeSendHook>();
+const afterSendHooks = new Set<AfterSendHook>();
+
+/**
+ * Call `hook` before each notification goes to its backend. Returns a
+ * function that removes the hook.
+ */
+export function beforeSend(hook: BeforeSendHook): () => void {
+  beforeSendHooks.add(hook);
+  return () => beforeSendHooks.delete(hook);
+}
+
+/**
+ * Call `hook` after each send, including sends suppressed by dedup, rate
+ * limits, quiet hours or redaction. Returns a function that removes the hook.
+ */
+export function afterSend(hook: AfterSendHook): () => void {
+  afterSendHooks.add(hook);
+  return () => afterSendHooks.delete(hook);
+}
+
+function runHooks<T>(hooks: Set<(event: T) => void | Promise<void>>, event: T): void {
+  for (const hook of hooks) {
+    try {
+      void Promise.resolve(hook(event)).catch(() => undefined);
+    } catch {
+      // Hooks are observers; their failures must not affect the send.
+    }
+  }
+}
+
+export function emitBeforeSend(event: PushSendStartEvent): void {
+  runHooks(beforeSendHooks, event);
+}
+
+const LOG_LEVELS: LogLevel[] = ['info', 'warn', 'error'];
+
+const OUTCOME_LEVELS: Record<PushSendOutcome, LogLevel> = {
+  sent: 'info',
+  suppressed: 'info',
+  queued: 'warn',
+  failed: 'error',
+};
+
+/**
+ * The log line for a send. Message, data and links are left out; the title
+ * and error are masked with the redaction rules.
+ */
+export function formatSendLog(event: PushSendEvent, config: PushNotificationConfig, now: number = Date.now()): string {
+  const { payload, result } = event;
+  const entry = {
+    time: new Date(now).toISOString(),
+    level: OUTCOME_LEVELS[event.outcome],
+    msg: `push.${event.outcome}`,
+    backend: event.backend,
+    priority: payload.priority,
+    title: redactText(payload.title, config.redaction),
+    agentId: payload.agentId,
+    jobId: payload.jobId,
+    recipient: payload.recipient,
+    idempotencyKey: payload.idempotencyKey,
+    latencyMs: event.latencyMs,
+    attempts: result.attempts,
+    receiptId: result.receiptId,
+    outboxId: result.outboxId,
+    code: result.code,
+    error: result.error !== undefined ? redactText(result.error, config.redaction) : undefined,
+  };
+  return JSON.stringify(entry);
+}
+
+/**
+ * Record a finished send: metrics, a log line and the `afterSend` hooks.
+ */
+export async function recordSend(event: PushSendEvent, config: PushNotificationConfig): Promise<void> {
+  runHooks(afterSendHooks, event);
+
+  const minLevel = LOG_LEVELS.indexOf(config.logging?.level ?? 'info');
+  if (config.logging?.enabled && LOG_LEVELS.indexOf(OUTCOME_LEVELS[event.outcome]) >= minLevel) {
+    process.stderr.write(`${formatSendLog(event, config)}\n`);
+  }
+
+  try {
+    await resolveMetrics(config)?.record(event);
+  } catch {
+    // Metrics I/O problems must not change the outcome of this send.
+  }
+}
+
+/**
+ * Outcome of a delivery attempt.
+ */
+export function sendOutcome(result: { success: boolean; outboxId?: string }): PushSendOutcome {
+  if (result.success) {
+    return 'sent';
+  }
+  return result.outboxId ? 'queued' : 'failed';
+}
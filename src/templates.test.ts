@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { describeTemplate, renderTemplate } from './templates';
+import type { PushNotificationConfig, PushTemplateConfig } from './types';
+
+const buildFailed: PushTemplateConfig = {
+  description: 'A CI build failed',
+  title: 'Build failed: {{project}}',
+  body: '{{ project }} failed on {{branch}} after {{minutes}} minutes',
+  priority: 'high',
+  data: { category: 'ci' },
+  variables: {
+    branch: { default: 'main' },
+    minutes: { type: 'number' },
+  },
+};
+
+const config: PushNotificationConfig = {
+  templates: {
+    'build-failed': buildFailed,
+    'report-ready': { body: 'Your report is ready' },
+  },
+};
+
+describe('renderTemplate', () => {
+  it('substitutes variables and applies defaults', () => {
+    expect(renderTemplate(config, 'build-failed', { project: 'api', minutes: 12 })).toEqual({
+      rendered: {
+        title: 'Build failed: api',
+        message: 'api failed on main after 12 minutes',
+        priority: 'high',
+        data: { category: 'ci' },
+      },
+    });
+    expect(renderTemplate(config, 'report-ready').rendered).toEqual({
+      title: undefined,
+      message: 'Your report is ready',
+      priority: undefined,
+      data: {},
+    });
+  });
+
+  it('reports missing, mistyped and unknown variables together', () => {
+    expect(renderTemplate(config, 'build-failed', { minutes: '12', projcet: 'api' }).error).toBe(
+      'Template "build-failed": missing variable project; unknown variable projcet; variable minutes must be a number'
+    );
+  });
+
+  it('treats inherited object properties as unknown variables', () => {
+    expect(renderTemplate(config, 'report-ready', { constructor: 'x', toString: 'y' }).error).toBe(
+      'Template "report-ready": unknown variables constructor, toString'
+    );
+  });
+
+  it('rejects unknown templates', () => {
+    expect(renderTemplate(config, 'deploy').error).toBe('Unknown template "deploy". Known templates: build-failed, report-ready');
+    expect(renderTemplate({}, 'toString').error).toBe('Unknown template "toString". No templates are configured');
+  });
+});
+
+describe('describeTemplate', () => {
+  it('lists variables with optional markers and types', () => {
+    expect(describeTemplate('build-failed', buildFailed)).toBe(
+      'build-failed (branch?, minutes: number, project) - A CI build failed'
+    );
+  });
+});
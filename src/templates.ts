@@ -0,0 +1,111 @@
+/**
+ * Notification templates
+ *
+ * Templates are defined in the plugin config so agents send consistent
+ * wording for recurring events. `{{name}}` placeholders in the title and
+ * body are replaced with typed variables; every problem is reported before
+ * anything is sent.
+ */
+
+import type { PushNotificationConfig, PushPriority, PushTemplateConfig, TemplateVariableConfig } from './types';
+
+export type TemplateVariables = Record<string, string | number | boolean>;
+
+export interface RenderedTemplate {
+  title?: string;
+  message: string;
+  priority?: PushPriority;
+  data: Record<string, unknown>;
+}
+
+export type TemplateRenderResult =
+  | { rendered: RenderedTemplate; error?: undefined }
+  | { rendered?: undefined; error: string };
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+
+/**
+ * Declared variables plus any placeholder in the title or body, which
+ * counts as a required string.
+ */
+export function templateVariables(template: PushTemplateConfig): Record<string, TemplateVariableConfig> {
+  const variables: Record<string, TemplateVariableConfig> = { ...template.variables };
+  for (const pattern of [template.title ?? '', template.body]) {
+    for (const match of pattern.matchAll(PLACEHOLDER)) {
+      const name = match[1] as string;
+      variables[name] = variables[name] ?? {};
+    }
+  }
+  return variables;
+}
+
+function substitute(pattern: string, values: TemplateVariables): string {
+  return pattern.replace(PLACEHOLDER, (_placeholder, name: string) => String(values[name]));
+}
+
+export function renderTemplate(
+  config: PushNotificationConfig,
+  name: string,
+  variables: TemplateVariables = {}
+): TemplateRenderResult {
+  const templates = config.templates ?? {};
+  const template = Object.prototype.hasOwnProperty.call(templates, name) ? templates[name] : undefined;
+  if (!template) {
+    const known = Object.keys(templates);
+    const hint = known.length > 0 ? `Known templates: ${known.join(', ')}` : 'No templates are configured';
+    return { error: `Unknown template "${name}". ${hint}` };
+  }
+
+  const declared = templateVariables(template);
+  const values: TemplateVariables = {};
+  const problems: string[] = [];
+
+  const unknown = Object.keys(variables).filter((key) => !Object.prototype.hasOwnProperty.call(declared, key));
+  if (unknown.length > 0) {
+    problems.push(`unknown variable${unknown.length === 1 ? '' : 's'} ${unknown.join(', ')}`);
+  }
+
+  const missing: string[] = [];
+  for (const [key, variable] of Object.entries(declared)) {
+    const value = Object.prototype.hasOwnProperty.call(variables, key) ? variables[key] : variable.default;
+    if (value === undefined) {
+      missing.push(key);
+      continue;
+    }
+    const type = variable.type ?? 'string';
+    if (typeof value !== type) {
+      problems.push(`variable ${key} must be a ${type}`);
+      continue;
+    }
+    values[key] = value;
+  }
+  if (missing.length > 0) {
+    problems.unshift(`missing variable${missing.length === 1 ? '' : 's'} ${missing.join(', ')}`);
+  }
+
+  if (problems.length > 0) {
+    return { error: `Template "${name}": ${problems.join('; ')}` };
+  }
+
+  return {
+    rendered: {
+      title: template.title !== undefined ? substitute(template.title, values) : undefined,
+      message: substitute(template.body, values),
+      priority: template.priority,
+      data: { ...template.data },
+    },
+  };
+}
+
+/**
+ * Short description of a template's variables for the tool description,
+ * e.g. "build-failed (project, url?)"; optional variables end in "?".
+ */
+export function describeTemplate(name: string, template: PushTemplateConfig): string {
+  const variables = Object.entries(templateVariables(template)).map(([key, variable]) => {
+    const type = variable.type && variable.type !== 'string' ? `: ${variable.type}` : '';
+    return `${key}${variable.default !== undefined ? '?' : ''}${type}`;
+  });
+  const description = template.description ? ` - ${template.description}` : '';
+  return `${name} (${variables.join(', ')})${description}`;
+}
@@ -0,0 +1,42 @@
+/**
+ * Helpers shared by the tests; not part of the build.
+ */
+
+import type { Clock } from './types';
+
+export type FakeClock = Clock & {
+  /** Move time forward, firing every timer that comes due */
+  advance: (ms: number) => void;
+  /** Delays (ms from now) of the timers still waiting */
+  pending: () => number[];
+};
+
+/**
+ * A clock whose time only moves with `advance`.
+ */
+export function createFakeClock(start: number): FakeClock {
+  let now = start;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+  return {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      timers.set(id, { at: now + ms, callback });
+      return id;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    },
+    advance: (ms) => {
+      now += ms;
+      for (const [id, timer] of [...timers]) {
+        if (timer.at <= now) {
+          timers.delete(id);
+          timer.callback();
+        }
+      }
+    },
+    pending: () => [...timers.values()].map((timer) => timer.at - now),
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Timers shared by the scheduler and the digest
+ *
+ * Both keep pending work in a JSON file (see ./store) and a single timer for
+ * whatever comes due first. The timer is re-armed from the file after every
+ * change, and entries are removed from the file only once delivered.
+ */
+
+import type { Clock } from './types';
+
+/** setTimeout cannot wait longer than 2^31-1 ms; longer waits are re-armed. */
+export const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => {
+    const handle = setTimeout(callback, ms);
+    // Pending schedules must not keep a CLI process alive.
+    handle.unref?.();
+    return handle;
+  },
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface RearmableTimer {
+  /** Set the timer for the next due time, replacing the current one. Does nothing until started */
+  arm: () => Promise<void>;
+  start: () => void;
+  stop: () => void;
+}
+
+export interface RearmableTimerOptions {
+  clock: Clock;
+  /** When the earliest pending entry is due (epoch ms), or undefined when nothing is pending */
+  nextDueAt: () => Promise<number | undefined>;
+  /** Called when the timer fires; usually delivers what is due and arms again */
+  fire: () => void;
+}
+
+export function createRearmableTimer(options: RearmableTimerOptions): RearmableTimer {
+  const { clock } = options;
+  let timer: unknown;
+  let running = false;
+  // Only the latest arm() may set the timer when several overlap.
+  let generation = 0;
+
+  const disarm = () => {
+    if (timer !== undefined) {
+      clock.clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+
+  return {
+    arm: async () => {
+      const current = ++generation;
+      disarm();
+      if (!running) {
+        return;
+      }
+      const next = await options.nextDueAt();
+      if (current !== generation || next === undefined) {
+        return;
+      }
+      const delay = Math.min(Math.max(0, next - clock.now()), MAX_TIMER_DELAY_MS);
+      timer = clock.setTimeout(() => {
+        timer = undefined;
+        options.fire();
+      }, delay);
+    },
+
+    start: () => {
+      running = true;
+    },
+
+    stop: () => {
+      running = false;
+      disarm();
+    },
+  };
+}
+
+/**
+ * Deliver one due entry, then `remove` it from its file. Removing only after
+ * delivery means a crash in between re-sends with the same idempotency key.
+ */
+export async function deliverThenRemove(deliver: () => Promise<unknown>, remove: () => Promise<void>): Promise<void> {
+  try {
+    await deliver();
+  } catch {
+    // Delivery reports failures in its result (and the outbox keeps them); never block the timer.
+  }
+  await remove();
+}
@@ -0,0 +1,198 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resetBackendHealth } from '../failover';
+import { createOutbox } from '../outbox';
+import type { OpenClawAgentTool, PushAskResult, PushNotificationConfig, PushPluginApiConfig } from '../types';
+import { registerAskUserTool } from './ask';
+
+type AskTool = OpenClawAgentTool<unknown, PushAskResult>;
+
+const originalFetch = globalThis.fetch;
+
+function createRegisteredTool(config: PushNotificationConfig): AskTool {
+  let tool: AskTool | undefined;
+  const apiConfig: PushPluginApiConfig = { plugins: { entries: { 'push-notification': { config } } } };
+  registerAskUserTool({
+    config: apiConfig,
+    registerTool: (createTool) => {
+      tool = createTool({ sessionId: 'session-1' });
+    },
+  });
+  if (!tool) {
+    throw new Error('ask_user tool was not registered');
+  }
+  return tool;
+}
+
+const sentBody = (fetchMock: ReturnType<typeof vi.fn>, index = 0) =>
+  JSON.parse(String((fetchMock.mock.calls[index]?.[1] as RequestInit).body));
+
+describe('ask_user tool', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('registers tool metadata in OpenClaw format', () => {
+    const tool = createRegisteredTool({ backendUrl: 'https://notify.example' });
+
+    expect(tool.name).toBe('ask_user');
+    expect(tool.parameters).toMatchObject({ type: 'object', required: ['question'], additionalProperties: false });
+  });
+
+  it('sends the question with buttons and polls the relay for the choice', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true, receiptId: 'receipt-1' }), { status: 200 }))
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ status: 'answered', action: 'approve', respondedAt: '2024-01-01T00:01:00.000Z' }), { status: 200 })
+      );
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await createRegisteredTool({ backendUrl: 'https://notify.example' }).execute('tool-call-1', {
+      question: 'Deploy api v2.3 to production?',
+      options: [
+        { id: 'approve', title: 'Deploy' },
+        { id: 'reject', title: 'Cancel', destructive: true },
+      ],
+    });
+
+    const payload = sentBody(fetchMock);
+    expect(payload).toMatchObject({
+      message: 'Deploy api v2.3 to production?',
+      priority: 'high',
+      category: { id: 'openclaw_approve_reject', actions: [{ id: 'approve', title: 'Deploy' }, { id: 'reject', title: 'Cancel', destructive: true }] },
+      responseId: expect.any(String),
+    });
+    expect(fetchMock.mock.calls[1]?.[0]).toBe(`https://notify.example/api/notifications/responses/${payload.responseId}`);
+    expect(result.details).toEqual({
+      success: true,
+      action: 'approve',
+      actionTitle: 'Deploy',
+      respondedAt: '2024-01-01T00:01:00.000Z',
+      responseId: payload.responseId,
+      receiptId: 'receipt-1',
+    });
+    expect(result.content[0]?.text).toBe('The user chose "Deploy" (approve).');
+  });
+
+  it('receives the choice on the callback listener', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ success: true }), { status: 200 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const asking = createRegisteredTool({ backendUrl: 'https://notify.example', interactive: { callback: { port: 0 } } }).execute(
+      'tool-call-1',
+      { question: 'Delete the staging database?' }
+    );
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    const { responseUrl, category } = sentBody(fetchMock);
+    expect(category.actions.map((action: { id: string }) => action.id)).toEqual(['yes', 'no']);
+
+    const answer = await originalFetch(`${responseUrl}?action=no`, { method: 'POST' });
+
+    expect(answer.status).toBe(200);
+    expect((await asking).details).toMatchObject({ success: true, action: 'no', actionTitle: 'No' });
+  });
+
+  it('reports a timeout as no consent', async () => {
+    globalThis.fetch = vi.fn().mockImplementation(async (url: string) =>
+      url.includes('/responses/')
+        ? new Response(JSON.stringify({ error: 'Not found' }), { status: 404 })
+        : new Response(JSON.stringify({ success: true }), { status: 200 })
+    ) as unknown as typeof fetch;
+
+    const result = await createRegisteredTool({ backendUrl: 'https://notify.example', interactive: { pollIntervalMs: 250 } }).execute(
+      'tool-call-1',
+      { question: 'Rotate the production keys?', timeoutSeconds: 1 }
+    );
+
+    expect(result.details).toMatchObject({ success: false, timedOut: true, code: 'TIMEOUT' });
+    expect(result.content[0]?.text).toContain('Treat this as no consent');
+  });
+
+  it('does not queue a failed question in the outbox', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'ask-tool-outbox-'));
+    const outboxPath = join(dir, 'outbox.json');
+    try {
+      globalThis.fetch = vi.fn().mockResolvedValue(new Response('Bad Gateway', { status: 502 })) as unknown as typeof fetch;
+
+      const result = await createRegisteredTool({
+        backendUrl: 'https://notify.example',
+        retry: { maxAttempts: 1 },
+        outbox: { enabled: true, path: outboxPath },
+      }).execute('tool-call-1', { question: 'Deploy?' });
+
+      expect(result.details.success).toBe(false);
+      expect(result.content[0]?.text).toContain('Could not get an answer from the user');
+      expect(await createOutbox({ path: outboxPath }).list()).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('polls the failover backend that delivered the question', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      if (url.startsWith('https://primary.example')) {
+        return new Response('Service Unavailable', { status: 503 });
+      }
+      return url.includes('/responses/')
+        ? new Response(JSON.stringify({ status: 'answered', action: 'yes' }), { status: 200 })
+        : new Response(JSON.stringify({ success: true, receiptId: 'receipt-2' }), { status: 200 });
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    try {
+      const result = await createRegisteredTool({
+        backendUrl: 'https://primary.example',
+        retry: { maxAttempts: 1 },
+        failover: { backends: [{ name: 'secondary', backendUrl: 'https://secondary.example' }] },
+      }).execute('tool-call-1', { question: 'Deploy?' });
+
+      expect(result.details).toMatchObject({ success: true, action: 'yes', receiptId: 'receipt-2' });
+      expect(String(fetchMock.mock.calls[2]?.[0])).toMatch(/^https:\/\/secondary\.example\/api\/notifications\/responses\//);
+    } finally {
+      resetBackendHealth();
+    }
+  });
+
+  it('reports a listener that cannot start as a configuration problem', async () => {
+    const occupied = createServer();
+    await new Promise<void>((resolve) => occupied.listen(0, '127.0.0.1', resolve));
+    const fetchMock = vi.fn();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    try {
+      const result = await createRegisteredTool({
+        backendUrl: 'https://notify.example',
+        interactive: { callback: { port: (occupied.address() as AddressInfo).port, host: '127.0.0.1' } },
+      }).execute('tool-call-1', { question: 'Deploy?' });
+
+      expect(result.details).toMatchObject({ success: false, code: 'NOT_CONFIGURED' });
+      expect(result.details.error).toContain('Failed to start the response listener');
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      await new Promise<void>((resolve) => occupied.close(() => resolve()));
+    }
+  });
+
+  it('fails without sending when answers cannot be received', async () => {
+    const fetchMock = vi.fn();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const config: PushNotificationConfig = {
+      backend: 'slack',
+      slack: { webhookUrl: 'https://hooks.slack.example/services/T/B/x' },
+      recipients: { alice: {}, bob: {} },
+      groups: { team: ['alice', 'bob'] },
+    };
+
+    const unsupported = await createRegisteredTool(config).execute('tool-call-1', { question: 'Deploy?' });
+    const group = await createRegisteredTool(config).execute('tool-call-2', { question: 'Deploy?', to: 'team' });
+
+    expect(unsupported.details).toMatchObject({ success: false, code: 'NOT_SUPPORTED' });
+    expect(unsupported.details.error).toContain('"slack" backend cannot report answers');
+    expect(group.details.error).toBe('"team" resolves to 2 recipients; ask_user needs exactly one');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Ask User Tool for OpenClaw
+ *
+ * Sends a notification with buttons and waits for the one the user presses,
+ * so agents can gate risky work on explicit consent. The answer comes back by
+ * polling the http backend or through the local callback listener (see
+ * ../interactive). No answer before the timeout means no consent.
+ *
+ * Questions are always sent right away: quiet hours, rate limits and dedup do
+ * not apply, and a failed send is not queued in the outbox, since a late
+ * question would find nobody waiting for the answer. Redaction applies as
+ * for push.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { resolveEnabledPushConfig } from '../config';
+import { parseToolInput } from '../errors';
+import { resolveDeliveringBackend } from '../failover';
+import {
+  buildCategory,
+  DEFAULT_ASK_TIMEOUT_SECONDS,
+  getResponseListener,
+  resolveResponseMode,
+  waitForResponse,
+  type ResponseListener,
+} from '../interactive';
+import { resolvePayloadBackend, resolveRecipientNames } from '../recipients';
+import { redactPayload } from '../redaction';
+import { PUSH_ACTIONS_PARAMETER, PushActionsSchema, resolveAttribution, sendPushPayload } from './push';
+import type {
+  OpenClawAgentTool,
+  OpenClawAgentToolFactory,
+  PushAction,
+  PushAskResult,
+  PushNotificationPayload,
+  PushPluginApiConfig,
+  ToolExecutionContext,
+  ToolExecutionResult,
+} from '../types';
+
+/** Longest an agent may wait for an answer. */
+const MAX_ASK_TIMEOUT_SECONDS = 3600;
+
+const DEFAULT_OPTIONS: PushAction[] = [
+  { id: 'yes', title: 'Yes' },
+  { id: 'no', title: 'No' },
+];
+
+const AskUserSchema = z.object({
+  question: z.string().min(1).describe('The question to ask the user'),
+  title: z.string().optional().describe('Optional notification title. Defaults to the configured defaultTitle'),
+  options: PushActionsSchema.optional().describe('Buttons to choose from. Defaults to Yes / No'),
+  priority: z.enum(['low', 'normal', 'high']).optional().describe('Notification priority. Defaults to high'),
+  timeoutSeconds: z.number().int().min(1).max(MAX_ASK_TIMEOUT_SECONDS).optional().describe('How long to wait for an answer'),
+  to: z.string().min(1).optional().describe('Optional recipient name from the plugin config; defaults to the user'),
+  categoryId: z.string().min(1).optional().describe('Optional category ID for the buttons; derived from the option IDs when omitted'),
+});
+
+type AskUserInput = z.infer<typeof AskUserSchema>;
+
+function formatToolText(result: PushAskResult): string {
+  if (result.code === 'REDACTION_BLOCKED') {
+    return `The question was not sent: ${result.error}. Ask again without the secret or personal data.`;
+  }
+  if (result.success) {
+    return `The user chose "${result.actionTitle}" (${result.action}).`;
+  }
+  if (result.timedOut) {
+    return `${result.error}. Treat this as no consent: do not go ahead with anything that needed it.`;
+  }
+  if (result.code === 'CANCELLED') {
+    return 'The question was cancelled before the user answered. Treat this as no consent.';
+  }
+  return `Could not get an answer from the user: ${result.error ?? 'Unknown error'}. Treat this as no consent.`;
+}
+
+async function executeAskUser(
+  params: AskUserInput,
+  config: PushPluginApiConfig,
+  context: ToolExecutionContext,
+  signal?: AbortSignal
+): Promise<PushAskResult> {
+  const { config: pluginConfig, error: configError, code } = resolveEnabledPushConfig(config);
+  if (!pluginConfig) {
+    return { success: false, error: configError, code };
+  }
+
+  // A question goes to exactly one person; whoever answers first would speak for a group.
+  let recipient: string | undefined;
+  if (params.to !== undefined) {
+    const { names, error } = resolveRecipientNames(pluginConfig, [params.to]);
+    if (!names) {
+      return { success: false, code: 'INVALID_INPUT', error };
+    }
+    if (names.length !== 1) {
+      return { success: false, code: 'INVALID_INPUT', error: `"${params.to}" resolves to ${names.length} recipients; ask_user needs exactly one` };
+    }
+    recipient = names[0];
+  }
+
+  const { backend, error: backendError } = resolvePayloadBackend(pluginConfig, { recipient });
+  if (!backend) {
+    return { success: false, code: 'NOT_CONFIGURED', error: backendError };
+  }
+
+  const interactive = pluginConfig.interactive ?? {};
+  const mode = resolveResponseMode(interactive);
+  if (mode === 'callback' && !interactive.callback) {
+    return { success: false, code: 'NOT_SUPPORTED', error: 'interactive.mode is "callback" but interactive.callback is not configured' };
+  }
+  if (mode === 'poll' && !backend.getResponse) {
+    return {
+      success: false,
+      code: 'NOT_SUPPORTED',
+      error: `The "${backend.name}" backend cannot report answers; configure interactive.callback to receive them directly`,
+    };
+  }
+
+  const options = params.options ?? DEFAULT_OPTIONS;
+  const actionIds = options.map((option) => option.id);
+  const responseId = randomUUID();
+
+  let listener: ResponseListener | undefined;
+  let answer: Promise<{ action: string; respondedAt: string }> | undefined;
+  if (mode === 'callback' && interactive.callback) {
+    try {
+      listener = await getResponseListener(interactive.callback);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, code: 'NOT_CONFIGURED', error: `Failed to start the response listener: ${errorMessage}` };
+    }
+    // Listen before sending, so a quick answer is not missed.
+    answer = listener.expect(responseId, actionIds);
+  }
+
+  const routingKey = recipient ? pluginConfig.recipients?.[recipient]?.routingKey : undefined;
+  const built: PushNotificationPayload = {
+    message: params.question,
+    title: params.title || pluginConfig.defaultTitle || 'OpenClaw Agent',
+    data: {},
+    priority: params.priority ?? 'high',
+    ...resolveAttribution(context),
+    timestamp: new Date().toISOString(),
+    idempotencyKey: responseId,
+    category: buildCategory(options, params.categoryId),
+    responseId,
+    ...(listener && { responseUrl: listener.urlFor(responseId) }),
+    ...(recipient && { recipient }),
+    ...(routingKey && { routingKey }),
+  };
+
+  try {
+    const { payload, redactions, blocked } = redactPayload(built, pluginConfig.redaction);
+    if (blocked) {
+      return {
+        success: false,
+        code: 'REDACTION_BLOCKED',
+        redactions,
+        error: `The question contains ${blocked.map((redaction) => `${redaction.rule} in ${redaction.field}`).join(', ')}`,
+      };
+    }
+    const found = redactions.length > 0 ? { redactions } : {};
+
+    const sent = await sendPushPayload(payload, config, signal, { outbox: false });
+    if (!sent.success) {
+      return { success: false, responseId, error: sent.error, code: sent.code, ...found };
+    }
+
+    // With failover the question may have gone out through another backend, which records the answer.
+    // A recipient's questions only go through the recipient's backend.
+    const { backend: answering, error: answeringError } =
+      recipient === undefined ? resolveDeliveringBackend(pluginConfig, sent.deliveredBy) : { backend, error: undefined };
+    if (!answering) {
+      return { success: false, responseId, receiptId: sent.receiptId, code: 'NOT_CONFIGURED', error: answeringError, ...found };
+    }
+    if (mode === 'poll' && !answering.getResponse) {
+      return {
+        success: false,
+        responseId,
+        receiptId: sent.receiptId,
+        code: 'NOT_SUPPORTED',
+        error: `The question was delivered by the "${answering.name}" backend, which cannot report answers`,
+        ...found,
+      };
+    }
+
+    const timeoutSeconds = params.timeoutSeconds ?? interactive.timeoutSeconds ?? DEFAULT_ASK_TIMEOUT_SECONDS;
+    const result = await waitForResponse({
+      backend: answering,
+      responseId,
+      actionIds,
+      timeoutMs: timeoutSeconds * 1000,
+      pollIntervalMs: interactive.pollIntervalMs,
+      answer,
+      signal,
+    });
+
+    if (result.answered) {
+      return {
+        success: true,
+        action: result.action,
+        actionTitle: options.find((option) => option.id === result.action)?.title,
+        respondedAt: result.respondedAt,
+        responseId,
+        receiptId: sent.receiptId,
+        ...found,
+      };
+    }
+    const unanswered = { success: false, responseId, receiptId: sent.receiptId, ...found };
+    if (result.reason === 'error') {
+      return { ...unanswered, code: 'BACKEND_UNAVAILABLE', error: result.error };
+    }
+    return result.reason === 'timeout'
+      ? { ...unanswered, code: 'TIMEOUT', timedOut: true, error: `The user did not answer within ${timeoutSeconds}s` }
+      : { ...unanswered, code: 'CANCELLED', error: 'Cancelled before the user answered' };
+  } finally {
+    listener?.release(responseId);
+  }
+}
+
+/**
+ * Register the ask_user tool with OpenClaw
+ */
+export function registerAskUserTool(api: {
+  registerTool: (
+    tool: OpenClawAgentToolFactory<unknown, PushAskResult>,
+    opts?: { name?: string; names?: string[]; optional?: boolean }
+  ) => void;
+  config: PushPluginApiConfig;
+}): void {
+  const createTool = (context: ToolExecutionContext): OpenClawAgentTool<unknown, PushAskResult> => ({
+    name: 'ask_user',
+    label: 'Ask User',
+    description: `Ask the user a question through a push notification with buttons, and wait for their choice.
+Use this before risky or irreversible actions (deploying, deleting data, spending money) to get explicit consent.
+The result is the option the user picked. If they do not answer before the timeout, treat it as no consent
+and do not go ahead. The question is sent immediately, even during quiet hours.`,
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        question: {
+          type: 'string' as const,
+          description: 'The question to ask, e.g. "Deploy api v2.3 to production?"',
+        },
+        title: {
+          type: 'string' as const,
+          description: 'Optional notification title. Defaults to the configured defaultTitle',
+        },
+        options: {
+          ...PUSH_ACTIONS_PARAMETER,
+          description: 'Buttons to choose from, e.g. [{"id": "approve", "title": "Deploy"}, {"id": "reject", "title": "Cancel", "destructive": true}]. Defaults to Yes / No',
+        },
+        priority: {
+          type: 'string' as const,
+          enum: ['low', 'normal', 'high'],
+          default: 'high',
+          description: 'Notification priority. Defaults to high',
+        },
+        timeoutSeconds: {
+          type: 'integer' as const,
+          minimum: 1,
+          maximum: MAX_ASK_TIMEOUT_SECONDS,
+          description: `How long to wait for an answer, in seconds. Defaults to the configured timeout, else ${DEFAULT_ASK_TIMEOUT_SECONDS}`,
+        },
+        to: {
+          type: 'string' as const,
+          description: 'Optional recipient name from the plugin config (a single person). Defaults to the user',
+        },
+        categoryId: {
+          type: 'string' as const,
+          description: 'Optional category ID for the buttons, if the app registered one; derived from the option IDs when omitted',
+        },
+      },
+      required: ['question'],
+      additionalProperties: false,
+    },
+    execute: async (
+      _toolCallId: string,
+      input: unknown,
+      signal?: AbortSignal
+    ): Promise<ToolExecutionResult<PushAskResult>> => {
+      // Validate input
+      const { params, error } = parseToolInput(AskUserSchema, input);
+
+      const details: PushAskResult = params
+        ? await executeAskUser(params, api.config, context, signal)
+        : { success: false, code: 'INVALID_INPUT', error };
+      return {
+        content: [{ type: 'text', text: formatToolText(details) }],
+        details,
+      };
+    },
+  });
+
+  api.registerTool(createTool, { name: 'ask_user' });
+}
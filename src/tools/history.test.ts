@@ -0,0 +1,80 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OpenClawAgentTool, OpenClawAgentToolFactory, PushHistoryResult, PushNotificationResult, PushPluginApiConfig } from '../types';
+import { registerPushHistoryTool } from './history';
+import { registerPushTool } from './push';
+
+describe('push_history tool', () => {
+  const originalFetch = globalThis.fetch;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'push-history-tool-'));
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function registerTools(history: { enabled: boolean; path?: string }) {
+    const tools = new Map<string, OpenClawAgentTool<unknown, unknown>>();
+    const registerTool = (registered: OpenClawAgentTool<unknown, unknown> | OpenClawAgentToolFactory<unknown, unknown>) => {
+      const tool = typeof registered === 'function' ? registered({}) : registered;
+      tools.set(tool.name, tool);
+    };
+    const config: PushPluginApiConfig = {
+      plugins: {
+        entries: {
+          'push-notification': { config: { backendUrl: 'https://notify.example', retry: { maxAttempts: 1 }, history } },
+        },
+      },
+    };
+    registerPushTool({ config, registerTool });
+    registerPushHistoryTool({ config, registerTool });
+    return {
+      push: tools.get('push') as OpenClawAgentTool<unknown, PushNotificationResult>,
+      history: tools.get('push_history') as OpenClawAgentTool<unknown, PushHistoryResult>,
+    };
+  }
+
+  it('finds notifications sent through the push tool', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ receiptId: 'r-1' }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Bad payload' }), { status: 400 })) as unknown as typeof fetch;
+    const tools = registerTools({ enabled: true, path: join(dir, 'history.jsonl') });
+
+    await tools.push.execute('call-1', { message: 'Nightly backup finished', title: 'Backup' });
+    await tools.push.execute('call-2', { message: 'Disk almost full', priority: 'high' });
+
+    const found = await tools.history.execute('call-3', { text: 'backup', since: '24h' });
+    expect(found.details.records).toHaveLength(1);
+    expect(found.details.records?.[0]).toMatchObject({
+      payload: { title: 'Backup', message: 'Nightly backup finished' },
+      target: { backend: 'http', backendUrl: 'https://notify.example' },
+      success: true,
+      receiptId: 'r-1',
+      latencyMs: expect.any(Number),
+    });
+    expect(found.content[0]?.text).toContain('"Backup: Nightly backup finished" via http, sent (receipt r-1)');
+
+    const failed = await tools.history.execute('call-4', { success: false });
+    expect(failed.details.records?.map((record) => record.error)).toEqual(['Failed to send notification: Bad payload']);
+
+    const none = await tools.history.execute('call-5', { text: 'deploy' });
+    expect(none.content[0]?.text).toBe('No matching notifications were sent.');
+  });
+
+  it('explains how to enable history', async () => {
+    const tools = registerTools({ enabled: false });
+
+    const result = await tools.history.execute('call-1', {});
+
+    expect(result.details.success).toBe(false);
+    expect(result.details.error).toContain('history.enabled');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Push History Tool for OpenClaw
+ *
+ * Lets agents look up notifications sent earlier, e.g. to check whether the
+ * user was already told about something before notifying them again.
+ * Requires `history.enabled` in the plugin config.
+ */
+
+import { z } from 'zod';
+import { resolveEnabledPushConfig } from '../config';
+import { parseToolInput } from '../errors';
+import { DEFAULT_HISTORY_LIMIT, formatHistoryRecord, parseHistoryTime, resolveHistory } from '../history';
+import type {
+  OpenClawAgentTool,
+  PushHistoryQuery,
+  PushHistoryResult,
+  PushPluginApiConfig,
+  ToolExecutionResult,
+} from '../types';
+
+const PushHistorySchema = z.object({
+  text: z.string().min(1).optional().describe('Text to look for in the title or message (case-insensitive)'),
+  since: z.string().min(1).optional().describe('Only notifications sent at or after this ISO 8601 time, or within a duration such as "24h" or "7d"'),
+  until: z.string().min(1).optional().describe('Only notifications sent at or before this ISO 8601 time, or before a duration such as "1h" ago'),
+  agentId: z.string().min(1).optional().describe('Only notifications sent by this agent'),
+  jobId: z.string().min(1).optional().describe('Only notifications sent by this job'),
+  priority: z.enum(['low', 'normal', 'high']).optional().describe('Only notifications with this priority'),
+  success: z.boolean().optional().describe('true for delivered notifications only, false for failed ones only'),
+  recipient: z.string().min(1).optional().describe('Only notifications sent to this recipient'),
+  limit: z.number().int().min(1).max(100).optional().describe(`Maximum number of notifications to return, newest first (default ${DEFAULT_HISTORY_LIMIT})`),
+});
+
+type PushHistoryInput = z.infer<typeof PushHistorySchema>;
+
+function formatToolText(result: PushHistoryResult): string {
+  if (!result.success) {
+    return `Push history lookup failed: ${result.error ?? 'Unknown error'}`;
+  }
+  if (!result.records?.length) {
+    return 'No matching notifications were sent.';
+  }
+  const lines = result.records.map((record) => `- ${formatHistoryRecord(record)}`);
+  return `Matching notifications, newest first:\n${lines.join('\n')}`;
+}
+
+async function executePushHistory(params: PushHistoryInput, config: PushPluginApiConfig): Promise<PushHistoryResult> {
+  const { config: pluginConfig, error: configError, code } = resolveEnabledPushConfig(config);
+  if (!pluginConfig) {
+    return { success: false, error: configError, code };
+  }
+
+  const history = resolveHistory(pluginConfig);
+  if (!history) {
+    return {
+      success: false,
+      code: 'NOT_CONFIGURED',
+      error: 'Notification history is not enabled. Set plugins.entries["push-notification"].config.history.enabled to true in openclaw.json',
+    };
+  }
+
+  const since = params.since !== undefined ? parseHistoryTime(params.since) : undefined;
+  const until = params.until !== undefined ? parseHistoryTime(params.until) : undefined;
+  if ((params.since !== undefined && !since) || (params.until !== undefined && !until)) {
+    return { success: false, code: 'INVALID_INPUT', error: 'since and until must be ISO 8601 times or durations such as "24h"' };
+  }
+
+  const query: PushHistoryQuery = {
+    text: params.text,
+    since,
+    until,
+    agentId: params.agentId,
+    jobId: params.jobId,
+    priority: params.priority,
+    success: params.success,
+    recipient: params.recipient,
+    limit: params.limit,
+  };
+  try {
+    return { success: true, records: await history.query(query) };
+  } catch (queryError) {
+    return { success: false, code: 'STORAGE_ERROR', error: queryError instanceof Error ? queryError.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Register the push history tool with OpenClaw
+ */
+export function registerPushHistoryTool(api: {
+  registerTool: (
+    tool: OpenClawAgentTool<unknown, PushHistoryResult>,
+    opts?: { name?: string; names?: string[]; optional?: boolean }
+  ) => void;
+  config: PushPluginApiConfig;
+}): void {
+  const tool: OpenClawAgentTool<unknown, PushHistoryResult> = {
+    name: 'push_history',
+    label: 'Push Notification History',
+    description: `Look up push notifications sent earlier, newest first.
+Before notifying the user about something, search for it with text (and since, e.g. "24h") to check whether they were already told; do not send it again if so.`,
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        text: {
+          type: 'string' as const,
+          description: 'Text to look for in the title or message (case-insensitive)',
+        },
+        since: {
+          type: 'string' as const,
+          description: 'Only notifications sent at or after this ISO 8601 time, or within a duration such as "24h" or "7d"',
+        },
+        until: {
+          type: 'string' as const,
+          description: 'Only notifications sent at or before this ISO 8601 time, or before a duration such as "1h" ago',
+        },
+        agentId: {
+          type: 'string' as const,
+          description: 'Only notifications sent by this agent',
+        },
+        jobId: {
+          type: 'string' as const,
+          description: 'Only notifications sent by this job',
+        },
+        priority: {
+          type: 'string' as const,
+          enum: ['low', 'normal', 'high'],
+          description: 'Only notifications with this priority',
+        },
+        success: {
+          type: 'boolean' as const,
+          description: 'true for delivered notifications only, false for failed ones only',
+        },
+        recipient: {
+          type: 'string' as const,
+          description: 'Only notifications sent to this recipient',
+        },
+        limit: {
+          type: 'integer' as const,
+          minimum: 1,
+          maximum: 100,
+          description: `Maximum number of notifications to return (default ${DEFAULT_HISTORY_LIMIT})`,
+        },
+      },
+      additionalProperties: false,
+    },
+    execute: async (_toolCallId: string, input: unknown): Promise<ToolExecutionResult<PushHistoryResult>> => {
+      // Validate input
+      const { params, error } = parseToolInput(PushHistorySchema, input ?? {});
+
+      const details: PushHistoryResult = params
+        ? await executePushHistory(params, api.config)
+        : { success: false, code: 'INVALID_INPUT', error };
+      return {
+        content: [{ type: 'text', text: formatToolText(details) }],
+        details,
+      };
+    },
+  };
+
+  api.registerTool(tool);
+}
@@ -3,11 +3,88 @@
  */
 
 export type {
+  BackendHealth,
+  Clock,
+  DedupConfig,
+  DigestConfig,
+  DigestEntry,
+  DiscordBackendConfig,
+  ExpoBackendConfig,
+  FailoverBackendConfig,
+  FailoverConfig,
+  HistoryConfig,
+  InteractiveConfig,
+  LoggingConfig,
+  LogLevel,
+  MetricsConfig,
+  NtfyBackendConfig,
+  OutboxConfig,
+  OutboxEntry,
+  OutboxTarget,
+  ProgressConfig,
+  PushAction,
+  PushAskResult,
+  PushBackend,
+  PushBackendAttempt,
+  PushBackendOptions,
+  PushBackendResult,
+  PushBackendName,
+  PushCategory,
+  PushContentField,
+  PushDeliveryState,
+  PushDigestResult,
+  PushErrorCode,
+  PushHistoryQuery,
+  PushHistoryRecord,
+  PushHistoryResult,
   PushNotificationConfig,
   PushNotificationInput,
   PushNotificationPayload,
   PushNotificationResult,
   PushNotificationResponse,
+  PushPriority,
+  PushProfileConfig,
+  PushProgressResult,
+  PushProgressStage,
+  PushReceipt,
+  PushRecipientConfig,
+  PushRecipientResult,
+  PushRedaction,
+  PushResponseResult,
+  PushRichContent,
+  PushScheduleResult,
+  PushSendEvent,
+  PushSendOutcome,
+  PushSendStartEvent,
+  PushServerAnswer,
+  PushServerDevice,
+  PushServerReceipt,
+  PushStatusResult,
+  PushTemplateConfig,
+  PushTicket,
+  QuietHoursAction,
+  QuietHoursConfig,
+  QuietHoursWindow,
+  RateLimitConfig,
+  RateLimitScopes,
+  RedactionAction,
+  RedactionConfig,
+  RedactionDetector,
+  RedactionRule,
+  RetryConfig,
+  ScheduledNotification,
+  SchedulerConfig,
+  SigningConfig,
+  SlackBackendConfig,
+  TemplateVariableConfig,
+  TemplateVariableType,
+  TokenBucketConfig,
+  VapidConfig,
+  WebhookBackendConfig,
+  WebPushBackendConfig,
+  WebPushSubscription,
+  Weekday,
   PluginConfig,
+  OpenClawAgentToolFactory,
   ToolExecutionContext,
 } from '../types';
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeClock, type FakeClock } from '../test-utils';
+import type { Clock, OpenClawAgentTool, PushNotificationConfig, PushProgressResult, ToolExecutionContext } from '../types';
+import { registerPushProgressTool } from './progress';
+
+type ProgressTool = OpenClawAgentTool<unknown, PushProgressResult>;
+
+const originalFetch = globalThis.fetch;
+const START = Date.parse('2024-01-01T08:00:00.000Z');
+
+function createRegisteredTool(
+  config: PushNotificationConfig,
+  clock: Clock,
+  context: ToolExecutionContext = { sessionId: 'session-1' }
+): ProgressTool {
+  let tool: ProgressTool | undefined;
+  registerPushProgressTool(
+    {
+      config: { plugins: { entries: { 'push-notification': { config } } } },
+      registerTool: (createTool) => {
+        tool = createTool(context);
+      },
+    },
+    { clock }
+  );
+  if (!tool) {
+    throw new Error('push_progress tool was not registered');
+  }
+  return tool;
+}
+
+const sentBody = (fetchMock: ReturnType<typeof vi.fn>, index = 0) =>
+  JSON.parse(String((fetchMock.mock.calls[index]?.[1] as RequestInit).body));
+
+describe('push_progress tool', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    vi.stubEnv('OPENCLAW_JOB_ID', '');
+    vi.stubEnv('JOB_ID', '');
+    fetchMock = vi.fn().mockImplementation(async () => new Response(JSON.stringify({ success: true, receiptId: 'receipt-1' }), { status: 200 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    clock = createFakeClock(START);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('sends every stage with the same thread and collapse key', async () => {
+    vi.stubEnv('OPENCLAW_JOB_ID', 'nightly-build');
+    const tool = createRegisteredTool({ backendUrl: 'https://notify.example', progress: { minIntervalSeconds: 1 } }, clock);
+
+    const started = await tool.execute('tool-call-1', { stage: 'start', status: 'Indexing', title: 'Nightly build' });
+    clock.advance(1_000);
+    await tool.execute('tool-call-2', { stage: 'update', status: 'Step 3/10: indexing', percent: 30 });
+    const finished = await tool.execute('tool-call-3', { stage: 'finish', outcome: 'failure', status: 'tests did not pass' });
+
+    const [start, update, finish] = [0, 1, 2].map((index) => sentBody(fetchMock, index));
+    expect(started.details).toEqual({ success: true, progressId: 'job:nightly-build', stage: 'start', receiptId: 'receipt-1' });
+    expect(start).toMatchObject({ message: 'Indexing', title: 'Nightly build', priority: 'low', jobId: 'nightly-build' });
+    expect(update).toMatchObject({
+      message: 'Step 3/10: indexing (30%)',
+      priority: 'low',
+      data: { progress: { id: 'job:nightly-build', stage: 'update', percent: 30 } },
+    });
+    expect(finish).toMatchObject({ message: 'Failed: tests did not pass', priority: 'high', data: { progress: { outcome: 'failure' } } });
+    expect(start.collapseKey).toMatch(/^progress-[0-9a-f]{16}$/);
+    for (const payload of [start, update, finish]) {
+      expect(payload).toMatchObject({ threadId: start.collapseKey, collapseKey: start.collapseKey });
+    }
+    expect(finished.content[0]?.text).toBe('Finish notification sent for "job:nightly-build".');
+  });
+
+  it('sends only the latest update within the interval and forces the finish through', async () => {
+    const tool = createRegisteredTool({ backendUrl: 'https://notify.example' }, clock);
+
+    await tool.execute('tool-call-1', { stage: 'start' });
+    const held = await tool.execute('tool-call-2', { stage: 'update', percent: 10 });
+    await tool.execute('tool-call-3', { stage: 'update', percent: 20 });
+
+    expect(held.details).toMatchObject({ success: true, throttled: true, sendAt: '2024-01-01T08:00:30.000Z' });
+    expect(held.content[0]?.text).toContain('no need to retry');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    clock.advance(30_000);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    expect(sentBody(fetchMock, 1)).toMatchObject({ message: 'In progress (20%)', timestamp: '2024-01-01T08:00:30.000Z' });
+
+    await tool.execute('tool-call-4', { stage: 'update', percent: 90 });
+    const finished = await tool.execute('tool-call-5', { stage: 'finish', outcome: 'success' });
+    clock.advance(30_000);
+
+    expect(finished.details).toMatchObject({ success: true, stage: 'finish' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(sentBody(fetchMock, 2)).toMatchObject({ message: 'Done', priority: 'normal' });
+  });
+
+  it('derives the progress ID from the session when there is no job', async () => {
+    const tool = createRegisteredTool({ backendUrl: 'https://notify.example' }, clock, { sessionId: 'session-7' });
+
+    const result = await tool.execute('tool-call-1', { stage: 'start' });
+
+    expect(result.details.progressId).toBe('session:session-7');
+  });
+
+  it('leaves out replacement fields the backend cannot deliver', async () => {
+    const tool = createRegisteredTool({ backend: 'expo', expo: { tokens: ['ExponentPushToken[phone]'] } }, clock);
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ data: [{ status: 'ok', id: 'ticket-1' }] }), { status: 200 }));
+
+    const result = await tool.execute('tool-call-1', { stage: 'start', status: 'Indexing' });
+
+    expect(result.details).toMatchObject({ success: true });
+    const [message] = sentBody(fetchMock);
+    expect(message).toMatchObject({ body: 'Indexing', data: { progress: { id: 'session:session-1', stage: 'start' } } });
+    expect(message.collapseKey).toBeUndefined();
+  });
+
+  it('skips updates during quiet hours but still sends the finish', async () => {
+    // 08:00 UTC is 03:00 in New York.
+    const tool = createRegisteredTool(
+      {
+        backendUrl: 'https://notify.example',
+        quietHours: { timeZone: 'America/New_York', windows: [{ start: '22:00', end: '07:00' }] },
+      },
+      clock
+    );
+
+    const update = await tool.execute('tool-call-1', { stage: 'update', percent: 50 });
+    const finish = await tool.execute('tool-call-2', { stage: 'finish', outcome: 'success' });
+
+    expect(update.details).toMatchObject({ success: false, code: 'QUIET_HOURS' });
+    expect(update.content[0]?.text).toContain('the finish notification will still be sent');
+    expect(finish.details).toMatchObject({ success: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('requires an outcome to finish', async () => {
+    const tool = createRegisteredTool({ backendUrl: 'https://notify.example' }, clock);
+
+    const missing = await tool.execute('tool-call-1', { stage: 'finish' });
+    const misplaced = await tool.execute('tool-call-2', { stage: 'update', outcome: 'success' });
+
+    expect(missing.details).toEqual({ success: false, code: 'INVALID_INPUT', error: 'Invalid input: outcome: Required when stage is "finish"' });
+    expect(misplaced.details.error).toBe('Invalid input: outcome: Only allowed when stage is "finish"');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
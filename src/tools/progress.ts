@@ -0,0 +1,297 @@
+/**
+ * Progress Tool for OpenClaw
+ *
+ * Keeps the user posted on long-running jobs with a single notification that
+ * is replaced in place: push_progress starts it, updates it with a percentage
+ * and status text, and finishes it with success or failure. Every
+ * notification for a job shares one thread and collapse key, derived from the
+ * job or session, so agents do not have to track an ID.
+ *
+ * Updates are throttled per job (see ../progress) and never queued in the
+ * outbox, since a late update is already stale. Start and update are low
+ * priority and skipped during quiet hours; the finish notification always
+ * goes out right away. Dedup, rate limits and digests do not apply.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { unsupportedContentFields } from '../backends';
+import { resolveEnabledPushConfig } from '../config';
+import { describeRetryAdvice, parseToolInput } from '../errors';
+import { createProgressThrottle, DEFAULT_PROGRESS_INTERVAL_SECONDS, progressKey, type ProgressThrottle } from '../progress';
+import { evaluateQuietHours } from '../quiet-hours';
+import { resolvePayloadBackend } from '../recipients';
+import { describeRedactions, redactPayload } from '../redaction';
+import { systemClock } from '../timer';
+import { resolveAttribution, sendPushPayload } from './push';
+import type {
+  Clock,
+  OpenClawAgentTool,
+  OpenClawAgentToolFactory,
+  PushNotificationPayload,
+  PushPluginApiConfig,
+  PushProgressResult,
+  ToolExecutionContext,
+  ToolExecutionResult,
+} from '../types';
+
+const ProgressSchema = z.object({
+  stage: z.enum(['start', 'update', 'finish']).describe('start when the job begins, update as it goes, finish when it is done'),
+  status: z.string().min(1).max(256).optional().describe('Short status text, e.g. "Step 3/10: indexing"'),
+  percent: z.number().min(0).max(100).optional().describe('Optional completion percentage'),
+  outcome: z.enum(['success', 'failure']).optional().describe('How the job ended; required when stage is finish'),
+  title: z.string().optional().describe('Optional notification title. Defaults to the configured defaultTitle'),
+  progressId: z.string().min(1).max(255).optional().describe('Optional ID for the progress notification; derived from the job or session when omitted'),
+}).refine((input) => input.stage !== 'finish' || input.outcome !== undefined, {
+  message: 'Required when stage is "finish"',
+  path: ['outcome'],
+}).refine((input) => input.stage === 'finish' || input.outcome === undefined, {
+  message: 'Only allowed when stage is "finish"',
+  path: ['outcome'],
+});
+
+type ProgressInput = z.infer<typeof ProgressSchema>;
+
+/**
+ * Per-registration state shared by every call of the progress tool.
+ */
+interface ProgressToolDeps {
+  throttle: ProgressThrottle;
+  clock: Clock;
+}
+
+/**
+ * The job the notification tracks, else the session, else the agent.
+ */
+function resolveProgressId(
+  attribution: Pick<PushNotificationPayload, 'jobId' | 'agentId'>,
+  context: ToolExecutionContext
+): string {
+  if (attribution.jobId && attribution.jobId !== 'unknown') {
+    return `job:${attribution.jobId}`;
+  }
+  if (context.sessionId) {
+    return `session:${context.sessionId}`;
+  }
+  return `agent:${attribution.agentId ?? 'unknown'}`;
+}
+
+/** Notification text, e.g. "Step 3/10: indexing (30%)" or "Failed: tests did not pass". */
+function describeProgress(params: ProgressInput): string {
+  if (params.stage === 'finish') {
+    const label = params.outcome === 'failure' ? 'Failed' : 'Done';
+    return params.status ? `${label}: ${params.status}` : label;
+  }
+  const status = params.status ?? (params.stage === 'start' ? 'Started' : 'In progress');
+  return params.percent !== undefined ? `${status} (${Math.round(params.percent)}%)` : status;
+}
+
+function formatToolText(result: PushProgressResult): string {
+  if (result.code === 'REDACTION_BLOCKED') {
+    return `Progress notification not sent: ${result.error}. Send it again without the secret or personal data.`;
+  }
+  if (result.redactions?.length) {
+    const { redactions, ...rest } = result;
+    return `${formatToolText(rest)}\nSensitive content found: ${describeRedactions(redactions)}.`;
+  }
+  if (result.throttled) {
+    return `Progress update held back: an update for "${result.progressId}" was sent recently. It goes out at ${result.sendAt} unless a newer update replaces it; no need to retry.`;
+  }
+  if (result.success) {
+    return result.stage === 'finish'
+      ? `Finish notification sent for "${result.progressId}".`
+      : `Progress notification sent for "${result.progressId}".`;
+  }
+  if (result.code === 'QUIET_HOURS') {
+    return `${result.error}. Keep going; the finish notification will still be sent.`;
+  }
+  return `Progress notification not sent: ${result.error ?? 'Unknown error'}. ${describeRetryAdvice(result.code)}`;
+}
+
+async function executeProgress(
+  params: ProgressInput,
+  config: PushPluginApiConfig,
+  deps: ProgressToolDeps,
+  context: ToolExecutionContext,
+  signal?: AbortSignal
+): Promise<PushProgressResult> {
+  const { throttle, clock } = deps;
+  const { config: pluginConfig, error: configError, code } = resolveEnabledPushConfig(config);
+  if (!pluginConfig) {
+    return { success: false, error: configError, code };
+  }
+
+  const { backend, error: backendError } = resolvePayloadBackend(pluginConfig, {});
+  if (!backend) {
+    return { success: false, code: 'NOT_CONFIGURED', error: backendError };
+  }
+
+  const attribution = resolveAttribution(context);
+  const progressId = params.progressId ?? resolveProgressId(attribution, context);
+  const { stage } = params;
+
+  if (stage !== 'finish') {
+    const quiet = evaluateQuietHours(clock.now(), 'low', pluginConfig.quietHours);
+    if (quiet.error) {
+      return { success: false, progressId, stage, code: 'NOT_CONFIGURED', error: quiet.error };
+    }
+    if (quiet.quiet && quiet.action !== 'send') {
+      return {
+        success: false,
+        progressId,
+        stage,
+        code: 'QUIET_HOURS',
+        error: `Quiet hours are active until ${new Date(quiet.until).toISOString()}, so progress updates are not sent`,
+      };
+    }
+  }
+
+  // Backends that cannot replace notifications still get the ID in the data.
+  const key = progressKey(progressId);
+  const supports = (field: 'threadId' | 'collapseKey') => unsupportedContentFields(backend, { [field]: key }).length === 0;
+  let priority: PushNotificationPayload['priority'] = 'low';
+  if (stage === 'finish') {
+    priority = params.outcome === 'failure' ? 'high' : 'normal';
+  }
+  const built: PushNotificationPayload = {
+    message: describeProgress(params),
+    title: params.title || pluginConfig.defaultTitle || 'OpenClaw Agent',
+    data: {
+      progress: {
+        id: progressId,
+        stage,
+        ...(params.percent !== undefined && { percent: params.percent }),
+        ...(params.outcome && { outcome: params.outcome }),
+      },
+    },
+    priority,
+    ...attribution,
+    timestamp: new Date(clock.now()).toISOString(),
+    idempotencyKey: randomUUID(),
+    ...(supports('threadId') && { threadId: key }),
+    ...(supports('collapseKey') && { collapseKey: key }),
+  };
+
+  const { payload, redactions, blocked } = redactPayload(built, pluginConfig.redaction);
+  if (blocked) {
+    return {
+      success: false,
+      progressId,
+      stage,
+      code: 'REDACTION_BLOCKED',
+      redactions,
+      error: `The progress notification contains ${blocked.map((redaction) => `${redaction.rule} in ${redaction.field}`).join(', ')}`,
+    };
+  }
+  const found = redactions.length > 0 ? { redactions } : {};
+
+  if (stage === 'finish') {
+    // Whatever update is still held would overwrite the final state.
+    throttle.finish(progressId);
+  } else {
+    if (stage === 'start') {
+      throttle.finish(progressId);
+    }
+    const intervalSeconds = pluginConfig.progress?.minIntervalSeconds ?? DEFAULT_PROGRESS_INTERVAL_SECONDS;
+    // A held update is stamped when it is actually sent.
+    const deliverLater = () =>
+      sendPushPayload({ ...payload, timestamp: new Date(clock.now()).toISOString() }, config, undefined, { outbox: false });
+    const decision = throttle.update(progressId, intervalSeconds * 1000, deliverLater);
+    if (!decision.send) {
+      return { success: true, progressId, stage, throttled: true, sendAt: new Date(decision.sendAt).toISOString(), ...found };
+    }
+  }
+
+  // Progress is stale once late, but the final state should still reach the user.
+  const sent = await sendPushPayload(payload, config, signal, { outbox: stage === 'finish' });
+  if (!sent.success) {
+    return { success: false, progressId, stage, error: sent.error, code: sent.code, ...found };
+  }
+  return { success: true, progressId, stage, receiptId: sent.receiptId, ...found };
+}
+
+export interface ProgressToolOptions {
+  clock?: Clock;
+}
+
+/**
+ * Register the push_progress tool with OpenClaw
+ */
+export function registerPushProgressTool(
+  api: {
+    registerTool: (
+      tool: OpenClawAgentToolFactory<unknown, PushProgressResult>,
+      opts?: { name?: string; names?: string[]; optional?: boolean }
+    ) => void;
+    config: PushPluginApiConfig;
+  },
+  options: ProgressToolOptions = {}
+): void {
+  const clock = options.clock ?? systemClock;
+  const deps: ProgressToolDeps = { throttle: createProgressThrottle(clock), clock };
+
+  // One tool per session, sharing the throttle above.
+  const createTool = (context: ToolExecutionContext): OpenClawAgentTool<unknown, PushProgressResult> => ({
+    name: 'push_progress',
+    label: 'Push Progress',
+    description: `Show the progress of a long-running job in a single push notification that is updated in place.
+Call it with stage "start" when the job begins, "update" with a percent and/or status text as it goes
+(e.g. "Step 3/10: indexing"), and "finish" with outcome "success" or "failure" when it is done.
+Updates close together are combined: only the latest is sent, so update as often as is natural.
+The notification is tied to the current job or session; pass progressId only to track several jobs at once.
+Progress updates are skipped during quiet hours; the finish notification is always sent.`,
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        stage: {
+          type: 'string' as const,
+          enum: ['start', 'update', 'finish'],
+          description: 'start when the job begins, update as it goes, finish when it is done',
+        },
+        status: {
+          type: 'string' as const,
+          description: 'Short status text, e.g. "Step 3/10: indexing"',
+        },
+        percent: {
+          type: 'number' as const,
+          minimum: 0,
+          maximum: 100,
+          description: 'Optional completion percentage',
+        },
+        outcome: {
+          type: 'string' as const,
+          enum: ['success', 'failure'],
+          description: 'How the job ended. Required when stage is finish',
+        },
+        title: {
+          type: 'string' as const,
+          description: 'Optional notification title; pass the same one at every stage. Defaults to the configured defaultTitle',
+        },
+        progressId: {
+          type: 'string' as const,
+          description: 'Optional ID for the progress notification. Defaults to the current job or session',
+        },
+      },
+      required: ['stage'],
+      additionalProperties: false,
+    },
+    execute: async (
+      _toolCallId: string,
+      input: unknown,
+      signal?: AbortSignal
+    ): Promise<ToolExecutionResult<PushProgressResult>> => {
+      // Validate input
+      const { params, error } = parseToolInput(ProgressSchema, input);
+
+      const details: PushProgressResult = params
+        ? await executeProgress(params, api.config, deps, context, signal)
+        : { success: false, code: 'INVALID_INPUT', error };
+      return {
+        content: [{ type: 'text', text: formatToolText(details) }],
+        details,
+      };
+    },
+  });
+
+  api.registerTool(createTool, { name: 'push_progress' });
+}
@@ -7,160 +7,781 @@
  * - User attention is required
  * - Any other event that warrants notification
  *
- * The tool sends notifications via a configurable backend service,
- * which can then deliver to various platforms (React Native/Expo, web, etc.)
+ * The tool sends notifications via a configurable backend (see ../backends):
+ * either a relay service that delivers to various platforms, or the Expo
+ * Push API directly.
  */
 
+import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
-import { resolvePushPluginEntry } from '../config';
+import { resolveEnabledPushConfig, resolvePushPluginEntry } from '../config';
+import { createDeduplicator, type Deduplicator } from '../dedup';
+import { createDigest, shouldDigest, type PushDigest } from '../digest';
+import { describeRetryAdvice, parseToolInput } from '../errors';
+import { sendRoutedPayload, sendWithFailover } from '../failover';
+import { resolveOutbox } from '../outbox';
+import { resolveHistory } from '../history';
+import { PUSH_CONTENT_FIELDS, unsupportedContentFields } from '../backends';
+import { buildCategory, MAX_ACTIONS } from '../interactive';
+import { evaluateQuietHours } from '../quiet-hours';
+import { describeRedactions, redactPayload } from '../redaction';
+import { resolvePayloadBackend, resolveRecipientNames } from '../recipients';
+import { createRateLimiter, type RateLimiter } from '../ratelimit';
+import { sendWithRetry, withRequestTimeout } from '../retry';
+import { emitBeforeSend, recordSend, sendOutcome } from '../telemetry';
+import { createScheduler, type PushScheduler } from '../scheduler';
+import { describeTemplate, renderTemplate, type TemplateRenderResult } from '../templates';
+import { systemClock } from '../timer';
 import type {
+  Clock,
   OpenClawAgentTool,
+  OpenClawAgentToolFactory,
+  OutboxTarget,
+  PushBackendResult,
+  PushErrorCode,
+  PushNotificationConfig,
   PushNotificationPayload,
   PushNotificationResult,
   PushPluginApiConfig,
+  PushRecipientResult,
+  PushRichContent,
+  ToolExecutionContext,
   ToolExecutionResult,
 } from '../types';
 
+/** Buttons on an interactive notification; platforms show at most a few. */
+export const PushActionsSchema = z
+  .array(
+    z.object({
+      id: z.string().min(1).max(64).regex(/^[A-Za-z0-9_-]+$/, 'Expected letters, digits, "_" or "-"'),
+      title: z.string().min(1).max(40),
+      destructive: z.boolean().optional(),
+    })
+  )
+  .min(1)
+  .max(MAX_ACTIONS)
+  .refine((actions) => new Set(actions.map((action) => action.id)).size === actions.length, {
+    message: 'Action IDs must be unique',
+  });
+
+/** JSON schema for PushActionsSchema, shared by the tools that accept buttons. */
+export const PUSH_ACTIONS_PARAMETER = {
+  type: 'array' as const,
+  minItems: 1,
+  maxItems: MAX_ACTIONS,
+  items: {
+    type: 'object' as const,
+    properties: {
+      id: { type: 'string' as const, pattern: '^[A-Za-z0-9_-]+$', description: 'Reported back as the choice, e.g. "approve"' },
+      title: { type: 'string' as const, description: 'Button label, e.g. "Deploy"' },
+      destructive: { type: 'boolean' as const, description: 'Show the button as destructive where supported' },
+    },
+    required: ['id', 'title'],
+    additionalProperties: false,
+  },
+};
+
+/** Longest TTL push services honor (FCM, APNs and Web Push allow 28 days or less). */
+const MAX_TTL_SECONDS = 28 * 24 * 60 * 60;
+
 // Schema for tool input validation
 const PushSchema = z.object({
-  message: z.string().min(1).describe('The notification message to send to the user'),
-  title: z.string().optional().describe('Optional notification title. Defaults to configured defaultTitle'),
+  message: z.string().min(1).optional().describe('The notification message to send to the user. Required unless template is given'),
+  title: z.string().optional().describe('Optional notification title. Defaults to the template title or configured defaultTitle'),
   data: z.record(z.unknown()).optional().describe('Optional additional data payload to include with the notification'),
-  priority: z.enum(['low', 'normal', 'high']).optional().default('normal').describe('Notification priority: low, normal, or high'),
+  priority: z.enum(['low', 'normal', 'high']).optional().describe('Notification priority: low, normal, or high. Defaults to the template priority or normal'),
+  idempotencyKey: z.string().min(1).max(255).optional().describe('Optional key identifying this notification; reuse it when re-sending the same notification so the backend can drop duplicates'),
+  sendAt: z.string().datetime({ offset: true }).optional().describe('Optional ISO 8601 time to deliver the notification at instead of now'),
+  delaySeconds: z.number().int().positive().optional().describe('Optional delay in seconds before the notification is delivered'),
+  to: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).optional().describe('Optional recipient or group name(s) from the plugin config; defaults to the user'),
+  template: z.string().min(1).optional().describe('Optional name of a configured template to render instead of message'),
+  variables: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe('Values for the template placeholders'),
+  actions: PushActionsSchema.optional().describe('Optional buttons to show with the notification'),
+  categoryId: z.string().min(1).optional().describe('Optional category ID for the buttons; derived from the action IDs when omitted'),
+  url: z.string().url().optional().describe('Optional link or app deep link opened when the notification is tapped'),
+  imageUrl: z.string().url().regex(/^https?:\/\//i, 'Expected an http(s) URL').optional().describe('Optional http(s) URL of an image to show'),
+  subtitle: z.string().min(1).max(256).optional().describe('Optional subtitle shown below the title'),
+  sound: z.string().min(1).max(64).optional().describe('Optional sound: "default" or the name of a sound bundled with the app'),
+  badge: z.number().int().min(0).optional().describe('Optional app icon badge count; 0 clears it'),
+  threadId: z.string().min(1).max(64).optional().describe('Optional thread ID grouping related notifications'),
+  collapseKey: z.string().min(1).max(64).optional().describe('Optional key; a newer notification with the same key replaces an undelivered one'),
+  ttlSeconds: z.number().int().min(0).max(MAX_TTL_SECONDS).optional().describe('Optional seconds to keep trying delivery; 0 means now or never'),
+  channelId: z.string().min(1).max(64).optional().describe('Optional Android notification channel ID'),
+  digest: z.boolean().optional().describe('Optional: true adds the notification to the next digest summary, false sends it right away'),
+  profile: z.string().min(1).optional().describe('Optional config profile to send with; defaults to the configured defaultProfile'),
+}).refine((input) => input.sendAt === undefined || input.delaySeconds === undefined, {
+  message: 'Specify either sendAt or delaySeconds, not both',
+  path: ['delaySeconds'],
+}).refine((input) => (input.message === undefined) !== (input.template === undefined), {
+  message: 'Specify either message or template',
+  path: ['message'],
 });
 
 type PushInput = z.infer<typeof PushSchema>;
 
 type PushToolApi = {
   registerTool: (
-    tool: OpenClawAgentTool<unknown, PushNotificationResult>,
+    tool: OpenClawAgentTool<unknown, PushNotificationResult> | OpenClawAgentToolFactory<unknown, PushNotificationResult>,
     opts?: { name?: string; names?: string[]; optional?: boolean }
   ) => void;
   config: PushPluginApiConfig;
 };
 
-function readErrorMessageFromBody(body: unknown): string | undefined {
-  if (!body || typeof body !== 'object') {
-    return undefined;
+function formatToolText(result: PushNotificationResult): string {
+  if (result.code === 'REDACTION_BLOCKED') {
+    return `Push notification not sent: ${result.error}. Remove the secret or personal data and send again without it.`;
   }
-  const payload = body as { error?: unknown; message?: unknown };
-  if (typeof payload.error === 'string' && payload.error.trim()) {
-    return payload.error;
+  if (result.redactions?.length) {
+    const { redactions, ...rest } = result;
+    return `${formatToolText(rest)}\nSensitive content found: ${describeRedactions(redactions)}.`;
   }
-  if (typeof payload.message === 'string' && payload.message.trim()) {
-    return payload.message;
+  if (result.success && result.deliveredBy && result.backends?.some((attempt) => attempt.status !== 'sent')) {
+    const { backends, ...rest } = result;
+    const others = backends
+      .filter((attempt) => attempt.status !== 'sent')
+      .map((attempt) => `${attempt.name} ${attempt.status} (${attempt.error ?? 'Unknown error'})`);
+    const status = result.receiptId ? ` Pass deliveredBy "${result.deliveredBy}" to push_status with the receipt ID.` : '';
+    return `${formatToolText(rest)}\nDelivered by the "${result.deliveredBy}" backend; ${others.join(', ')}.${status}`;
   }
-  return undefined;
+  if (result.suppressed === 'duplicate') {
+    return `Push notification not sent: ${result.error}. The user already has it; do not retry.`;
+  }
+  if (result.suppressed === 'rate_limited') {
+    const wait = result.retryAfterSeconds !== undefined ? ` Another notification is possible in ${result.retryAfterSeconds}s.` : '';
+    return `Push notification not sent: ${result.error}. Do not retry right away; combine updates into fewer notifications.${wait}`;
+  }
+  if (result.suppressed === 'quiet_hours') {
+    return `Push notification not sent: ${result.error}. Do not retry before then; send it as high priority only if it cannot wait.`;
+  }
+  if (result.digest?.sent) {
+    return `Push notification sent in a digest summary of ${result.digest.count} notifications.`;
+  }
+  if (result.digest) {
+    return `Push notification added to the digest (${result.digest.count} waiting); the summary will be sent at ${result.digest.sendAt}.`;
+  }
+  if (result.recipients) {
+    const quiet = result.quietHours
+      ? `Quiet hours are active until ${result.quietHours.until}; the notification was ${result.quietHours.action === 'deferred' ? 'deferred' : 'sent anyway'}.\n`
+      : '';
+    const lines = result.recipients.map(
+      (recipient) => `- ${recipient.recipient}: ${formatToolText({ ...recipient, sendAt: result.sendAt })}`
+    );
+    return `${quiet}${lines.join('\n')}`;
+  }
+  const attempts = result.attempts && result.attempts > 1 ? ` after ${result.attempts} attempts` : '';
+  if (result.success && result.quietHours?.action === 'deferred') {
+    return `Quiet hours are active, so the push notification was deferred until ${result.sendAt} (id ${result.scheduledId}). Use push_scheduled_cancel with this id to cancel it.`;
+  }
+  if (result.success && result.scheduledId) {
+    return `Push notification scheduled for ${result.sendAt} (id ${result.scheduledId}). Use push_scheduled_cancel with this id to cancel it.`;
+  }
+  if (result.success) {
+    const receipt = result.receiptId ? ` Receipt ID: ${result.receiptId} (use push_status to check delivery).` : '';
+    const quiet = result.quietHours ? ` Quiet hours are active until ${result.quietHours.until}, but this priority is allowed through.` : '';
+    return `Push notification sent successfully${attempts}.${receipt}${quiet}`;
+  }
+  if (result.outboxId) {
+    return `Push notification failed${attempts}: ${result.error ?? 'Unknown error'}. It was queued in the outbox (id ${result.outboxId}) and will be delivered when the backend is reachable again; do not re-send it.`;
+  }
+  return `Push notification failed${attempts}: ${result.error ?? 'Unknown error'}. ${describeRetryAdvice(result.code)}`;
 }
 
-function formatToolText(result: PushNotificationResult): string {
-  if (result.success) {
-    return 'Push notification sent successfully.';
+export interface DeliverOptions {
+  /** Queue transient failures in the outbox. Defaults to true; off for notifications that are useless when late */
+  outbox?: boolean;
+}
+
+/**
+ * Send a built payload through its backend (the recipient's, or the default
+ * with failover), with retries and the outbox, and record it in the history.
+ * Used for immediate sends and by the scheduler. `pluginConfig` has the
+ * payload's profile applied; `config` is kept for queued payloads of other profiles.
+ */
+async function deliverPayload(
+  payload: PushNotificationPayload,
+  pluginConfig: PushNotificationConfig,
+  config: PushPluginApiConfig,
+  signal?: AbortSignal,
+  options: DeliverOptions = {}
+): Promise<PushNotificationResult> {
+  const startedAt = Date.now();
+  const { result: routed, backend, config: targetConfig } = await sendWithFailover(
+    pluginConfig,
+    payload,
+    (candidate) => {
+      emitBeforeSend({ payload, backend: candidate.name });
+      return sendWithRetry(
+        (attemptSignal) =>
+          withRequestTimeout((requestSignal) => candidate.send(payload, requestSignal), pluginConfig.requestTimeoutMs, attemptSignal),
+        pluginConfig.retry,
+        signal
+      );
+    },
+    signal
+  );
+  const latencyMs = Date.now() - startedAt;
+  if (!backend) {
+    return {
+      success: false,
+      error: routed.error,
+      code: routed.code ?? 'NOT_CONFIGURED',
+      ...(routed.backends && { backends: routed.backends }),
+    };
   }
-  return `Push notification failed: ${result.error ?? 'Unknown error'}`;
+
+  // The backend that delivered, or the last one tried.
+  const target = { backend: backend.name, backendUrl: backend.name === 'http' ? targetConfig?.backendUrl : undefined };
+  const { retry, ...sent } = routed;
+
+  const result = options.outbox === false ? sent : await applyOutbox(payload, target, sent, retry, pluginConfig, config, signal);
+  await recordHistory(payload, target, result, startedAt, latencyMs, pluginConfig);
+  await recordSend({ payload, backend: backend.name, outcome: sendOutcome(result), result, latencyMs }, pluginConfig);
+  return result;
 }
 
-async function executePush(
-  params: PushInput,
+/**
+ * Report a send that was stopped before it reached the backend.
+ */
+async function recordSuppressed(
+  payload: PushNotificationPayload,
+  pluginConfig: PushNotificationConfig,
+  result: PushNotificationResult
+): Promise<PushNotificationResult> {
+  const { backend } = resolvePayloadBackend(pluginConfig, payload);
+  await recordSend(
+    { payload, backend: backend?.name ?? pluginConfig.backend ?? 'http', outcome: 'suppressed', result },
+    pluginConfig
+  );
+  return result;
+}
+
+async function recordHistory(
+  payload: PushNotificationPayload,
+  target: OutboxTarget,
+  result: PushNotificationResult,
+  startedAt: number,
+  latencyMs: number,
+  pluginConfig: PushNotificationConfig
+): Promise<void> {
+  const history = resolveHistory(pluginConfig);
+  if (!history) {
+    return;
+  }
+  try {
+    await history.append({
+      sentAt: new Date(startedAt).toISOString(),
+      payload,
+      target: { ...target, ...(payload.recipient && { recipient: payload.recipient }) },
+      success: result.success,
+      receiptId: result.receiptId,
+      latencyMs,
+      attempts: result.attempts,
+      error: result.error,
+      code: result.code,
+      outboxId: result.outboxId,
+    });
+  } catch {
+    // History I/O problems must not change the outcome of this send.
+  }
+}
+
+/**
+ * After a send: flush the outbox when it succeeded, or queue the payload
+ * when it failed transiently.
+ */
+async function applyOutbox(
+  payload: PushNotificationPayload,
+  target: OutboxTarget,
+  result: PushNotificationResult,
+  retry: PushBackendResult['retry'],
+  pluginConfig: PushNotificationConfig,
   config: PushPluginApiConfig,
   signal?: AbortSignal
 ): Promise<PushNotificationResult> {
-  // Get plugin configuration from openclaw.json.
-  const pluginEntry = resolvePushPluginEntry(config);
-  const pluginConfig = pluginEntry?.config;
+  const outbox = resolveOutbox(pluginConfig);
+  if (!outbox) {
+    return result;
+  }
+
+  try {
+    if (result.success) {
+      // The backend is reachable again: deliver anything queued earlier. This
+      // runs after the call returns, so a long backlog does not hold it up.
+      void outbox
+        .flush(async (queued) => {
+          const { config: queuedConfig, error } =
+            queued.profile === payload.profile ? { config: pluginConfig } : resolveEnabledPushConfig(config, queued.profile);
+          return queuedConfig ? sendRoutedPayload(queuedConfig, queued) : { success: false, error };
+        })
+        .catch(() => undefined);
+    } else if (retry && !signal?.aborted) {
+      // Only transient failures are worth queueing; a rejected payload would fail again.
+      const entry = await outbox.enqueue(payload, target, result.error);
+      return { ...result, outboxId: entry.id };
+    }
+  } catch {
+    // Outbox I/O problems must not change the outcome of this send.
+  }
+
+  return result;
+}
+
+/**
+ * Send an already-built payload using the current plugin config.
+ */
+export async function sendPushPayload(
+  payload: PushNotificationPayload,
+  config: PushPluginApiConfig,
+  signal?: AbortSignal,
+  options?: DeliverOptions
+): Promise<PushNotificationResult> {
+  const { config: pluginConfig, error: configError, code } = resolveEnabledPushConfig(config, payload.profile);
+  if (!pluginConfig) {
+    return { success: false, error: configError, code };
+  }
+  return deliverPayload(payload, pluginConfig, config, signal, options);
+}
 
-  // Check if plugin is disabled at entry-level or config-level.
-  if (pluginEntry?.enabled === false || pluginConfig?.enabled === false) {
+/**
+ * Delivery time requested by sendAt / delaySeconds, or undefined to send now.
+ */
+function resolveSendAt(params: PushInput, now: number): Date | undefined {
+  if (params.delaySeconds !== undefined) {
+    return new Date(now + params.delaySeconds * 1000);
+  }
+  if (params.sendAt !== undefined) {
+    const sendAt = new Date(params.sendAt);
+    // A time that has already passed means "now".
+    return sendAt.getTime() > now ? sendAt : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Per-registration state shared by every call of the push tool.
+ */
+interface PushToolDeps {
+  getScheduler: () => PushScheduler;
+  getDigest: () => PushDigest;
+  now: () => number;
+  rateLimiter: RateLimiter;
+  deduplicator: Deduplicator;
+}
+
+/**
+ * Apply dedup and rate limits to an agent-initiated send.
+ * Returns the suppression result, or undefined when the send may proceed.
+ * In dedup "count" mode, the number of dropped duplicates is added to the payload data.
+ */
+function checkSendGuards(
+  payload: PushNotificationPayload,
+  pluginConfig: PushNotificationConfig,
+  deps: PushToolDeps
+): PushNotificationResult | undefined {
+  // Duplicates are checked first so they do not use up rate limit tokens.
+  const dedup = deps.deduplicator.check(payload, pluginConfig.dedup);
+  if (dedup.duplicate) {
+    const secondsAgo = Math.round((deps.now() - dedup.lastSentAt) / 1000);
     return {
       success: false,
-      error: 'Push notification plugin is disabled',
+      code: 'DUPLICATE',
+      suppressed: 'duplicate',
+      duplicateCount: dedup.duplicateCount,
+      error: `An identical notification was already sent ${secondsAgo}s ago`,
     };
   }
+  if (dedup.suppressedSinceLastSend > 0) {
+    payload.data = { ...payload.data, suppressedDuplicates: dedup.suppressedSinceLastSend };
+  }
 
-  // Check if plugin is configured.
-  if (!pluginConfig?.backendUrl) {
+  const limit = deps.rateLimiter.take(payload, pluginConfig.rateLimit);
+  if (!limit.allowed) {
     return {
       success: false,
-      error: 'Push notification plugin not configured. Set plugins.entries["push-notification"].config.backendUrl in openclaw.json',
+      code: 'RATE_LIMITED',
+      suppressed: 'rate_limited',
+      retryAfterSeconds: limit.retryAfterSeconds,
+      error: `Rate limit for ${limit.scope} exceeded (${limit.limit.capacity} per burst, ${limit.limit.refillPerMinute} per minute)`,
     };
   }
 
-  // Build the notification payload
-  const payload: PushNotificationPayload = {
-    message: params.message,
-    title: params.title || pluginConfig.defaultTitle || 'OpenClaw Agent',
-    data: params.data || {},
-    priority: params.priority,
-    // Include jobId from environment if available (set during deployment)
-    jobId: process.env.OPENCLAW_JOB_ID || process.env.JOB_ID || 'unknown',
-    // Include agent info from environment
-    agentId: process.env.OPENCLAW_AGENT_ID || process.env.AGENT_ID || 'unknown',
-    timestamp: new Date().toISOString(),
-  };
+  return undefined;
+}
 
-  // Build headers
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
+/**
+ * Recipient names from `to`, with every backend checked up front so a
+ * misconfigured recipient, or one whose backend cannot show the payload's
+ * content, sends nothing. Without `to` there is a single unnamed (default) target.
+ */
+function resolveTargets(
+  pluginConfig: PushNotificationConfig,
+  to: string | string[] | undefined,
+  payload: PushNotificationPayload
+): { targets: Array<string | undefined>; error?: undefined; code?: undefined } | { targets?: undefined; error: string; code: PushErrorCode } {
+  let targets: Array<string | undefined> = [undefined];
+  if (to !== undefined) {
+    const { names, error } = resolveRecipientNames(pluginConfig, typeof to === 'string' ? [to] : to);
+    if (!names) {
+      return { code: 'INVALID_INPUT', error };
+    }
+    targets = names;
+  }
 
-  // Add API key if configured
-  if (pluginConfig.apiKey) {
-    headers['Authorization'] = `Bearer ${pluginConfig.apiKey}`;
+  for (const recipient of targets) {
+    const { backend, error } = resolvePayloadBackend(pluginConfig, { recipient });
+    if (!backend) {
+      return { code: 'NOT_CONFIGURED', error: recipient ? `Recipient "${recipient}": ${error}` : error };
+    }
+    const unsupported = unsupportedContentFields(backend, payload);
+    if (unsupported.length > 0) {
+      const unsupportedError = `The "${backend.name}" backend does not support ${unsupported.join(', ')}`;
+      return {
+        code: 'UNSUPPORTED_CONTENT',
+        error: recipient ? `Recipient "${recipient}": ${unsupportedError}` : unsupportedError,
+      };
+    }
   }
+  return { targets };
+}
 
-  try {
-    // Send notification to backend
-    const backendUrl = pluginConfig.backendUrl.replace(/\/+$/, '');
-    const response = await fetch(`${backendUrl}/api/notifications/send`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(payload),
-      signal,
-    });
+/**
+ * The payload addressed to one recipient. Each recipient gets its own
+ * idempotency key so the relay does not treat them as duplicates of each other.
+ */
+function addressPayload(
+  payload: PushNotificationPayload,
+  pluginConfig: PushNotificationConfig,
+  recipient: string | undefined
+): PushNotificationPayload {
+  if (recipient === undefined) {
+    return payload;
+  }
+  const routingKey = pluginConfig.recipients?.[recipient]?.routingKey;
+  return {
+    ...payload,
+    recipient,
+    ...(routingKey && { routingKey }),
+    idempotencyKey: `${payload.idempotencyKey}:${recipient}`,
+  };
+}
 
-    if (!response.ok) {
-      let errorMessage = `${response.status} ${response.statusText}`;
+/**
+ * Merge per-recipient outcomes into one result.
+ */
+function combineRecipientResults(
+  payloads: PushNotificationPayload[],
+  results: PushNotificationResult[]
+): PushNotificationResult {
+  const recipients: PushRecipientResult[] = results.map((result, index) => ({
+    recipient: payloads[index]?.recipient ?? '',
+    success: result.success,
+    error: result.error,
+    code: result.code,
+    tickets: result.tickets,
+    attempts: result.attempts,
+    receiptId: result.receiptId,
+    outboxId: result.outboxId,
+    scheduledId: result.scheduledId,
+    digest: result.digest,
+  }));
+  const failed = recipients.filter((recipient) => !recipient.success);
+  // When all failed, the first reason stands for the rest.
+  let code: PushErrorCode | undefined;
+  if (failed.length === recipients.length) {
+    code = failed[0]?.code;
+  } else if (failed.length > 0) {
+    code = 'PARTIAL_FAILURE';
+  }
+  return {
+    success: failed.length === 0,
+    code,
+    error:
+      failed.length > 0
+        ? `Failed for ${failed.length} of ${recipients.length} recipients: ${failed
+            .map((recipient) => `${recipient.recipient} (${recipient.error ?? 'Unknown error'})`)
+            .join(', ')}`
+        : undefined,
+    sendAt: results.find((result) => result.sendAt)?.sendAt,
+    recipients,
+  };
+}
+
+/**
+ * Buffer the notification for each target's next digest summary.
+ */
+async function addToDigest(
+  payloads: PushNotificationPayload[],
+  deps: PushToolDeps
+): Promise<PushNotificationResult[]> {
+  return Promise.all(
+    payloads.map(async (payload): Promise<PushNotificationResult> => {
       try {
-        const errorBody = (await response.json()) as unknown;
-        errorMessage = readErrorMessageFromBody(errorBody) || errorMessage;
-      } catch {
-        // Response wasn't JSON, use status text.
+        return { success: true, digest: await deps.getDigest().add(payload) };
+      } catch (digestError) {
+        const errorMessage = digestError instanceof Error ? digestError.message : 'Unknown error';
+        return { success: false, code: 'STORAGE_ERROR', error: `Failed to add notification to the digest: ${errorMessage}` };
       }
+    })
+  );
+}
 
-      return {
-        success: false,
-        error: `Failed to send notification: ${errorMessage}`,
-      };
+/**
+ * The rich content fields the agent set.
+ */
+function pickContent(params: PushInput): PushRichContent {
+  const content: Record<string, unknown> = {};
+  for (const field of PUSH_CONTENT_FIELDS) {
+    if (params[field] !== undefined) {
+      content[field] = params[field];
     }
+  }
+  return content as PushRichContent;
+}
 
-    let result: unknown;
-    try {
-      result = await response.json();
-    } catch {
-      result = { success: true };
-    }
+/**
+ * Message content from the template, or from the message parameter.
+ */
+function resolveContent(params: PushInput, pluginConfig: PushNotificationConfig): TemplateRenderResult {
+  if (params.template !== undefined) {
+    return renderTemplate(pluginConfig, params.template, params.variables);
+  }
+  return { rendered: { message: params.message ?? '', data: {} } };
+}
 
+/**
+ * Who sent the notification: the session context from OpenClaw, falling back
+ * to environment variables set during deployment.
+ */
+export function resolveAttribution(
+  context: ToolExecutionContext = {}
+): Pick<PushNotificationPayload, 'jobId' | 'agentId' | 'origin'> {
+  const origin = {
+    ...(context.sessionId && { sessionId: context.sessionId }),
+    ...(context.channelId && { channelId: context.channelId }),
+    ...(context.userId && { userId: context.userId }),
+  };
+  return {
+    jobId: process.env.OPENCLAW_JOB_ID || process.env.JOB_ID || 'unknown',
+    agentId: context.agentId || process.env.OPENCLAW_AGENT_ID || process.env.AGENT_ID || 'unknown',
+    ...(Object.keys(origin).length > 0 && { origin }),
+  };
+}
+
+async function executePush(
+  params: PushInput,
+  config: PushPluginApiConfig,
+  deps: PushToolDeps,
+  context: ToolExecutionContext,
+  signal?: AbortSignal
+): Promise<PushNotificationResult> {
+  const { now } = deps;
+  // Get plugin configuration from openclaw.json; fails when disabled or missing.
+  const { config: pluginConfig, error: configError, code: configCode } = resolveEnabledPushConfig(config, params.profile);
+  if (!pluginConfig) {
     return {
-      success: true,
-      result,
+      success: false,
+      code: configCode,
+      error: configError,
     };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  // Render the template first so variable errors are reported before anything else.
+  const { rendered, error: templateError } = resolveContent(params, pluginConfig);
+  if (!rendered) {
     return {
       success: false,
-      error: `Failed to send notification: ${errorMessage}`,
+      code: 'INVALID_TEMPLATE',
+      error: templateError,
     };
   }
+
+  // Build the notification payload; explicit parameters win over template defaults.
+  const profile = params.profile ?? pluginConfig.defaultProfile;
+  const built: PushNotificationPayload = {
+    message: rendered.message,
+    title: params.title || rendered.title || pluginConfig.defaultTitle || 'OpenClaw Agent',
+    data: { ...rendered.data, ...params.data },
+    priority: params.priority ?? rendered.priority ?? 'normal',
+    ...resolveAttribution(context),
+    timestamp: new Date(now()).toISOString(),
+    // Stays the same across retries so the backend can drop duplicates
+    idempotencyKey: params.idempotencyKey || randomUUID(),
+    ...(params.actions && { category: buildCategory(params.actions, params.categoryId) }),
+    ...pickContent(params),
+    ...(profile && { profile }),
+  };
+
+  // Scan for secrets and personal data before the content can leave the machine.
+  const { payload, redactions, blocked } = redactPayload(built, pluginConfig.redaction);
+  if (blocked) {
+    return recordSuppressed(payload, pluginConfig, {
+      success: false,
+      code: 'REDACTION_BLOCKED',
+      redactions,
+      error: `It contains ${blocked.map((redaction) => `${redaction.rule} in ${redaction.field}`).join(', ')}`,
+    });
+  }
+  const withRedactions = (result: PushNotificationResult): PushNotificationResult =>
+    redactions.length > 0 ? { ...result, redactions } : result;
+
+  // Resolve recipients and their backends (HTTP relay by default).
+  const { targets, error, code } = resolveTargets(pluginConfig, params.to, payload);
+  if (!targets) {
+    return withRedactions({
+      success: false,
+      code,
+      error,
+    });
+  }
+
+  const requestedSendAt = resolveSendAt(params, now());
+  const quiet = evaluateQuietHours(requestedSendAt?.getTime() ?? now(), payload.priority, pluginConfig.quietHours);
+  if (quiet.error) {
+    return withRedactions({ success: false, code: 'NOT_CONFIGURED', error: quiet.error });
+  }
+  const quietUntil = quiet.quiet ? new Date(quiet.until).toISOString() : undefined;
+  // Dropped notifications are checked first so they use up neither rate limit tokens nor dedup slots.
+  if (quiet.quiet && quiet.action === 'drop') {
+    return withRedactions(
+      await recordSuppressed(payload, pluginConfig, {
+        success: false,
+        code: 'QUIET_HOURS',
+        suppressed: 'quiet_hours',
+        quietHours: { action: 'dropped', until: quietUntil as string },
+        error: `Quiet hours are active until ${quietUntil} and ${payload.priority} priority notifications are dropped`,
+      })
+    );
+  }
+
+  const addressAll = () => targets.map((recipient) => addressPayload(payload, pluginConfig, recipient));
+
+  // Routine notifications wait for the next summary; they use up no rate limit tokens.
+  if (!requestedSendAt && shouldDigest(payload, pluginConfig.digest, params.digest)) {
+    const digested = addressAll();
+    const results = await addToDigest(digested, deps);
+    return withRedactions(params.to === undefined ? results[0] : combineRecipientResults(digested, results));
+  }
+
+  const suppressed = checkSendGuards(payload, pluginConfig, deps);
+  if (suppressed) {
+    return withRedactions(await recordSuppressed(payload, pluginConfig, suppressed));
+  }
+  // Addressed after the guards, which may add the suppressed duplicate count to the data.
+  const payloads = addressAll();
+
+  const deferred = quiet.quiet && quiet.action === 'defer';
+  const sendAt = deferred ? new Date(quiet.until) : requestedSendAt;
+  const sendOne = async (recipientPayload: PushNotificationPayload): Promise<PushNotificationResult> => {
+    if (!sendAt) {
+      return deliverPayload(recipientPayload, pluginConfig, config, signal);
+    }
+    try {
+      const entry = await deps.getScheduler().schedule(recipientPayload, sendAt);
+      return { success: true, scheduledId: entry.id, sendAt: entry.sendAt };
+    } catch (scheduleError) {
+      const errorMessage = scheduleError instanceof Error ? scheduleError.message : 'Unknown error';
+      return { success: false, code: 'STORAGE_ERROR', error: `Failed to schedule notification: ${errorMessage}` };
+    }
+  };
+
+  const results = await Promise.all(payloads.map(sendOne));
+  // A queued notification will still be delivered, so repeats count as duplicates too.
+  if (results.some((result) => result.success || result.outboxId)) {
+    deps.deduplicator.record(payload, pluginConfig.dedup);
+  }
+
+  const result = params.to === undefined ? results[0] : combineRecipientResults(payloads, results);
+  if (!quietUntil || !result.success) {
+    return withRedactions(result);
+  }
+  return withRedactions({ ...result, quietHours: { action: deferred ? 'deferred' : 'sent', until: quietUntil } });
+}
+
+/**
+ * Scheduler that delivers due notifications with the current plugin config.
+ */
+export function createPushScheduler(config: PushPluginApiConfig, clock?: Clock): PushScheduler {
+  return createScheduler({
+    path: resolvePushPluginEntry(config)?.config?.scheduler?.path,
+    deliver: (payload) => sendPushPayload(payload, config),
+    clock,
+  });
+}
+
+/**
+ * Digest that sends summaries with the current plugin config. A summary that
+ * comes due during quiet hours is scheduled for when they end.
+ */
+export function createPushDigest(config: PushPluginApiConfig, scheduler: PushScheduler, clock: Clock = systemClock): PushDigest {
+  return createDigest({
+    ...resolvePushPluginEntry(config)?.config?.digest,
+    deliver: async (payload) => {
+      const quiet = evaluateQuietHours(clock.now(), payload.priority, resolvePushPluginEntry(config)?.config?.quietHours);
+      if (quiet.quiet && quiet.action !== 'send') {
+        return scheduler.schedule(payload, new Date(quiet.until));
+      }
+      return sendPushPayload(payload, config);
+    },
+    clock,
+  });
+}
+
+export interface PushToolOptions {
+  /** Shared scheduler; one is created and started on the first scheduled send when omitted */
+  scheduler?: PushScheduler;
+  /** Shared digest; one is created and started on the first digested notification when omitted */
+  digest?: PushDigest;
+  clock?: Clock;
 }
 
 /**
  * Register the push notification tool with OpenClaw
  */
-export function registerPushTool(api: {
-  registerTool: PushToolApi['registerTool'];
-  config: PushPluginApiConfig;
-}): void {
-  const tool: OpenClawAgentTool<unknown, PushNotificationResult> = {
+export function registerPushTool(
+  api: {
+    registerTool: PushToolApi['registerTool'];
+    config: PushPluginApiConfig;
+  },
+  options: PushToolOptions = {}
+): void {
+  const now = () => (options.clock ?? systemClock).now();
+  const rateLimiter = createRateLimiter(now);
+  const deduplicator = createDeduplicator(now);
+  let scheduler = options.scheduler;
+  const getScheduler = (): PushScheduler => {
+    if (!scheduler) {
+      scheduler = createPushScheduler(api.config, options.clock);
+      void scheduler.start().catch(() => undefined);
+    }
+    return scheduler;
+  };
+  let digest = options.digest;
+  const getDigest = (): PushDigest => {
+    if (!digest) {
+      digest = createPushDigest(api.config, getScheduler(), options.clock);
+      void digest.start().catch(() => undefined);
+    }
+    return digest;
+  };
+  const pluginConfig = resolvePushPluginEntry(api.config)?.config;
+  const recipientNames = [...Object.keys(pluginConfig?.recipients ?? {}), ...Object.keys(pluginConfig?.groups ?? {})];
+  const profileNames = Object.keys(pluginConfig?.profiles ?? {});
+  const profilesHint =
+    profileNames.length > 0
+      ? `: ${profileNames.join(', ')}${pluginConfig?.defaultProfile ? ` (default: ${pluginConfig.defaultProfile})` : ''}`
+      : '';
+  const recipientsHint = recipientNames.length > 0 ? ` Configured recipients and groups: ${recipientNames.join(', ')}.` : '';
+  const digestHint = pluginConfig?.digest?.enabled
+    ? '\nRoutine progress updates are batched into a digest summary; pass digest: false for one the user needs now.'
+    : '';
+  const templates = Object.entries(pluginConfig?.templates ?? {}).map(([name, template]) => `- ${describeTemplate(name, template)}`);
+  const templatesHint =
+    templates.length > 0
+      ? `\nFor recurring events, prefer a template over writing the message yourself (variables ending in ? are optional):\n${templates.join('\n')}`
+      : '';
+
+  // One tool per session, sharing the limits and scheduler above.
+  const createTool = (context: ToolExecutionContext): OpenClawAgentTool<unknown, PushNotificationResult> => ({
     name: 'push',
     label: 'Push Notification',
     description: `Send a push notification to the user. Use this tool when:
@@ -169,17 +790,25 @@ export function registerPushTool(api: {
 - The agent needs to alert the user about something important
 - Any event that warrants notifying the user
 
-The notification will be delivered to the user's registered device(s).`,
+The notification will be delivered to the user's registered device(s).
+To remind the user later, pass sendAt or delaySeconds; the notification is then
+scheduled and can be listed with push_scheduled_list or cancelled with push_scheduled_cancel.
+To notify someone else, pass their configured recipient or group name(s) in to.${recipientsHint}
+During the user's quiet hours, low and normal priority notifications may be
+deferred or dropped; use high priority only for things that cannot wait.
+Pass url to open the relevant screen on tap, threadId to group notifications (e.g. by job),
+and ttlSeconds for alerts that are useless once stale. Not every backend supports every field;
+unsupported fields fail the send with code UNSUPPORTED_CONTENT.${digestHint}${templatesHint}`,
     parameters: {
       type: 'object' as const,
       properties: {
         message: {
           type: 'string' as const,
-          description: 'The notification message to send to the user',
+          description: 'The notification message to send to the user. Required unless template is given',
         },
         title: {
           type: 'string' as const,
-          description: 'Optional notification title. Defaults to configured defaultTitle',
+          description: 'Optional notification title. Defaults to the template title or configured defaultTitle',
         },
         data: {
           type: 'object' as const,
@@ -189,10 +818,97 @@ The notification will be delivered to the user's registered device(s).`,
           type: 'string' as const,
           enum: ['low', 'normal', 'high'],
           default: 'normal',
-          description: 'Notification priority: low, normal, or high',
+          description: 'Notification priority: low, normal, or high. Defaults to the template priority, else normal',
+        },
+        idempotencyKey: {
+          type: 'string' as const,
+          description: 'Optional key identifying this notification. Reuse the same key when re-sending the same notification so the backend can drop duplicates',
+        },
+        sendAt: {
+          type: 'string' as const,
+          format: 'date-time',
+          description: 'Optional ISO 8601 time to deliver the notification at, e.g. "2024-01-02T09:00:00+01:00". Cannot be combined with delaySeconds',
+        },
+        delaySeconds: {
+          type: 'integer' as const,
+          minimum: 1,
+          description: 'Optional delay in seconds before the notification is delivered, e.g. 7200 for "in 2 hours". Cannot be combined with sendAt',
+        },
+        to: {
+          anyOf: [
+            { type: 'string' as const },
+            { type: 'array' as const, items: { type: 'string' as const }, minItems: 1 },
+          ],
+          description: 'Optional recipient or group name, or a list of them, as defined in the plugin config (e.g. "on-call"). Defaults to the user',
+        },
+        template: {
+          type: 'string' as const,
+          description: 'Optional name of a configured template to send instead of message',
+        },
+        variables: {
+          type: 'object' as const,
+          additionalProperties: { type: ['string', 'number', 'boolean'] },
+          description: 'Values for the template variables, e.g. {"project": "api"}',
+        },
+        actions: {
+          ...PUSH_ACTIONS_PARAMETER,
+          description: 'Optional buttons to show with the notification. To wait for the user to pick one, use ask_user instead',
+        },
+        categoryId: {
+          type: 'string' as const,
+          description: 'Optional category ID for the buttons, if the app registered one; derived from the action IDs when omitted',
+        },
+        url: {
+          type: 'string' as const,
+          format: 'uri',
+          description: 'Optional link or app deep link opened when the notification is tapped, e.g. "myapp://jobs/123"',
+        },
+        imageUrl: {
+          type: 'string' as const,
+          format: 'uri',
+          description: 'Optional http(s) URL of an image to show with the notification',
+        },
+        subtitle: {
+          type: 'string' as const,
+          maxLength: 256,
+          description: 'Optional subtitle shown below the title',
+        },
+        sound: {
+          type: 'string' as const,
+          description: 'Optional sound: "default" or the name of a sound bundled with the app',
+        },
+        badge: {
+          type: 'integer' as const,
+          minimum: 0,
+          description: 'Optional app icon badge count; 0 clears it',
+        },
+        threadId: {
+          type: 'string' as const,
+          description: 'Optional thread ID; notifications with the same thread ID are grouped, e.g. the job ID',
+        },
+        collapseKey: {
+          type: 'string' as const,
+          description: 'Optional key; a newer notification with the same key replaces one not yet delivered, e.g. for progress updates',
+        },
+        ttlSeconds: {
+          type: 'integer' as const,
+          minimum: 0,
+          maximum: MAX_TTL_SECONDS,
+          description: 'Optional seconds the push service keeps trying to deliver; use for alerts that are useless when stale. 0 means now or never',
+        },
+        channelId: {
+          type: 'string' as const,
+          description: 'Optional Android notification channel ID',
+        },
+        digest: {
+          type: 'boolean' as const,
+          description: 'Optional: true adds a routine update to the next digest summary instead of notifying now; false sends it right away. High priority is never digested',
+        },
+        profile: {
+          type: 'string' as const,
+          description: `Optional config profile to send with${profilesHint}`,
         },
       },
-      required: ['message'],
       additionalProperties: false,
     },
     execute: async (
@@ -201,15 +917,18 @@ The notification will be delivered to the user's registered device(s).`,
       signal?: AbortSignal
     ): Promise<ToolExecutionResult<PushNotificationResult>> => {
       // Validate input
-      const params = PushSchema.parse(input);
+      const { params, error } = parseToolInput(PushSchema, input);
 
-      const details = await executePush(params, api.config, signal);
+      const details: PushNotificationResult = params
+        ? await executePush(params, api.config, { getScheduler, getDigest, now, rateLimiter, deduplicator }, context, signal)
+        : { success: false, code: 'INVALID_INPUT', error };
       return {
         content: [{ type: 'text', text: formatToolText(details) }],
         details,
       };
     },
-  };
+  });
 
-  api.registerTool(tool);
+  // A factory cannot be asked for its name before it is called.
+  api.registerTool(createTool, { name: 'push' });
 }
@@ -0,0 +1,165 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScheduler, type PushScheduler } from '../scheduler';
+import type {
+  Clock,
+  OpenClawAgentTool,
+  OpenClawAgentToolFactory,
+  PushNotificationConfig,
+  PushNotificationResult,
+  PushPluginApiConfig,
+  PushScheduleResult,
+} from '../types';
+import { registerPushTool } from './push';
+import { registerPushScheduleTools } from './schedule';
+
+const NOW = Date.parse('2024-01-01T08:00:00.000Z');
+
+const clock: Clock = {
+  now: () => NOW,
+  setTimeout: () => undefined,
+  clearTimeout: () => undefined,
+};
+
+const config: PushPluginApiConfig = {
+  plugins: {
+    entries: {
+      'push-notification': { config: { backendUrl: 'https://notify.example' } },
+    },
+  },
+};
+
+function registerTools(scheduler: PushScheduler, pluginConfig: PushNotificationConfig = {}) {
+  const tools = new Map<string, OpenClawAgentTool<unknown, unknown>>();
+  const registerTool = (registered: OpenClawAgentTool<unknown, unknown> | OpenClawAgentToolFactory<unknown, unknown>) => {
+    const tool = typeof registered === 'function' ? registered({}) : registered;
+    tools.set(tool.name, tool);
+  };
+  const apiConfig: PushPluginApiConfig = {
+    plugins: {
+      entries: {
+        'push-notification': { config: { backendUrl: 'https://notify.example', ...pluginConfig } },
+      },
+    },
+  };
+  registerPushTool({ config: apiConfig, registerTool }, { scheduler, clock });
+  registerPushScheduleTools({ config, registerTool }, scheduler);
+  return {
+    push: tools.get('push') as OpenClawAgentTool<unknown, PushNotificationResult>,
+    list: tools.get('push_scheduled_list') as OpenClawAgentTool<unknown, PushScheduleResult>,
+    cancel: tools.get('push_scheduled_cancel') as OpenClawAgentTool<unknown, PushScheduleResult>,
+  };
+}
+
+describe('scheduled notification tools', () => {
+  const originalFetch = globalThis.fetch;
+  let dir: string;
+  let scheduler: PushScheduler;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'push-schedule-tools-'));
+    scheduler = createScheduler({ path: join(dir, 'scheduled.json'), deliver: vi.fn(), clock });
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('schedules instead of sending when delaySeconds is given', async () => {
+    const fetchMock = vi.fn();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const { push } = registerTools(scheduler);
+
+    const result = await push.execute('tool-call-1', { message: 'Stand-up', delaySeconds: 7200 });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.details).toMatchObject({ success: true, sendAt: '2024-01-01T10:00:00.000Z' });
+    expect(result.content[0]?.text).toContain(`id ${result.details.scheduledId}`);
+    const [entry] = await scheduler.list();
+    expect(entry).toMatchObject({ id: result.details.scheduledId, payload: { message: 'Stand-up' } });
+  });
+
+  it('accepts sendAt with a time zone offset and sends past times immediately', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('{}', { status: 200 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const { push } = registerTools(scheduler);
+
+    const scheduled = await push.execute('tool-call-1', { message: 'Tomorrow', sendAt: '2024-01-02T09:00:00+01:00' });
+    expect(scheduled.details.sendAt).toBe('2024-01-02T08:00:00.000Z');
+
+    const immediate = await push.execute('tool-call-2', { message: 'Now', sendAt: '2023-12-31T09:00:00Z' });
+    expect(immediate.details.scheduledId).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects combining sendAt and delaySeconds', async () => {
+    const { push } = registerTools(scheduler);
+
+    const result = await push.execute('tool-call-1', { message: 'Both', sendAt: '2024-01-02T09:00:00Z', delaySeconds: 60 });
+
+    expect(result.details).toEqual({
+      success: false,
+      code: 'INVALID_INPUT',
+      error: 'Invalid input: delaySeconds: Specify either sendAt or delaySeconds, not both',
+    });
+    expect(await scheduler.list()).toEqual([]);
+  });
+
+  it('lists and cancels scheduled notifications', async () => {
+    const { push, list, cancel } = registerTools(scheduler);
+    const scheduled = await push.execute('tool-call-1', { message: 'Remind me', delaySeconds: 60, priority: 'high' });
+    const id = scheduled.details.scheduledId as string;
+
+    const listed = await list.execute('tool-call-2', {});
+    expect(listed.details.scheduled).toEqual([
+      { id, sendAt: '2024-01-01T08:01:00.000Z', title: 'OpenClaw Agent', message: 'Remind me', priority: 'high' },
+    ]);
+    expect(listed.content[0]?.text).toContain(id);
+
+    const cancelled = await cancel.execute('tool-call-3', { id });
+    expect(cancelled.details).toEqual({ success: true, cancelledId: id });
+
+    const missing = await cancel.execute('tool-call-4', { id });
+    expect(missing.details.success).toBe(false);
+    expect((await list.execute('tool-call-5', {})).content[0]?.text).toBe('No notifications are scheduled.');
+  });
+
+  it('defers, drops or sends notifications during quiet hours by priority', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => new Response('{}', { status: 200 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    // 08:00 UTC is 03:00 in New York.
+    const { push } = registerTools(scheduler, {
+      quietHours: { timeZone: 'America/New_York', windows: [{ start: '22:00', end: '07:00' }] },
+    });
+
+    const deferred = await push.execute('tool-call-1', { message: 'Report ready' });
+    expect(deferred.details).toMatchObject({
+      success: true,
+      sendAt: '2024-01-01T12:00:00.000Z',
+      quietHours: { action: 'deferred', until: '2024-01-01T12:00:00.000Z' },
+    });
+    expect(deferred.content[0]?.text).toContain('deferred until 2024-01-01T12:00:00.000Z');
+
+    const dropped = await push.execute('tool-call-2', { message: 'FYI', priority: 'low' });
+    expect(dropped.details).toMatchObject({
+      success: false,
+      code: 'QUIET_HOURS',
+      suppressed: 'quiet_hours',
+      quietHours: { action: 'dropped' },
+    });
+
+    const sent = await push.execute('tool-call-3', { message: 'Server down', priority: 'high' });
+    expect(sent.details).toMatchObject({ success: true, quietHours: { action: 'sent' } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect((await scheduler.list()).map((entry) => entry.payload.message)).toEqual(['Report ready']);
+
+    // A scheduled send is checked against its delivery time.
+    const later = await push.execute('tool-call-4', { message: 'Afternoon', priority: 'low', delaySeconds: 36_000 });
+    expect(later.details).toMatchObject({ success: true, sendAt: '2024-01-01T18:00:00.000Z' });
+    expect(later.details.quietHours).toBeUndefined();
+  });
+});
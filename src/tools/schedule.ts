@@ -0,0 +1,146 @@
+/**
+ * Scheduled Notification Tools for OpenClaw
+ *
+ * `push` with sendAt / delaySeconds stores the notification in the local
+ * scheduler. These tools let agents see what is pending and cancel
+ * notifications that are no longer needed.
+ */
+
+import { z } from 'zod';
+import { resolveEnabledPushConfig } from '../config';
+import { parseToolInput } from '../errors';
+import type { PushScheduler } from '../scheduler';
+import type {
+  OpenClawAgentTool,
+  PushPluginApiConfig,
+  PushScheduleResult,
+  ToolExecutionResult,
+} from '../types';
+
+const CancelSchema = z.object({
+  id: z.string().min(1).describe('ID of the scheduled notification, as returned by the push tool'),
+});
+
+type ScheduleToolApi = {
+  registerTool: (
+    tool: OpenClawAgentTool<unknown, PushScheduleResult>,
+    opts?: { name?: string; names?: string[]; optional?: boolean }
+  ) => void;
+  config: PushPluginApiConfig;
+};
+
+function formatListText(result: PushScheduleResult): string {
+  if (!result.success) {
+    return `Listing scheduled notifications failed: ${result.error ?? 'Unknown error'}`;
+  }
+  if (!result.scheduled?.length) {
+    return 'No notifications are scheduled.';
+  }
+  const lines = result.scheduled.map(
+    (entry) => `- ${entry.id} at ${entry.sendAt} [${entry.priority}] ${entry.title}: ${entry.message}`
+  );
+  return `Scheduled notifications:\n${lines.join('\n')}`;
+}
+
+function formatCancelText(result: PushScheduleResult): string {
+  if (!result.success) {
+    return `Cancelling scheduled notification failed: ${result.error ?? 'Unknown error'}`;
+  }
+  return `Scheduled notification ${result.cancelledId} was cancelled.`;
+}
+
+async function executeList(config: PushPluginApiConfig, scheduler: PushScheduler): Promise<PushScheduleResult> {
+  const { config: pluginConfig, error, code } = resolveEnabledPushConfig(config);
+  if (!pluginConfig) {
+    return { success: false, error, code };
+  }
+  try {
+    const entries = await scheduler.list();
+    return {
+      success: true,
+      scheduled: entries.map((entry) => ({
+        id: entry.id,
+        sendAt: entry.sendAt,
+        title: entry.payload.title,
+        message: entry.payload.message,
+        priority: entry.payload.priority,
+      })),
+    };
+  } catch (listError) {
+    return { success: false, code: 'STORAGE_ERROR', error: listError instanceof Error ? listError.message : 'Unknown error' };
+  }
+}
+
+async function executeCancel(
+  params: z.infer<typeof CancelSchema>,
+  config: PushPluginApiConfig,
+  scheduler: PushScheduler
+): Promise<PushScheduleResult> {
+  const { config: pluginConfig, error, code } = resolveEnabledPushConfig(config);
+  if (!pluginConfig) {
+    return { success: false, error, code };
+  }
+  try {
+    if (!(await scheduler.cancel(params.id))) {
+      return { success: false, code: 'INVALID_INPUT', error: `No scheduled notification with id ${params.id}` };
+    }
+    return { success: true, cancelledId: params.id };
+  } catch (cancelError) {
+    return { success: false, code: 'STORAGE_ERROR', error: cancelError instanceof Error ? cancelError.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Register the scheduled notification tools with OpenClaw
+ */
+export function registerPushScheduleTools(api: ScheduleToolApi, scheduler: PushScheduler): void {
+  const listTool: OpenClawAgentTool<unknown, PushScheduleResult> = {
+    name: 'push_scheduled_list',
+    label: 'List Scheduled Notifications',
+    description: 'List push notifications scheduled with sendAt or delaySeconds that have not been delivered yet.',
+    parameters: {
+      type: 'object' as const,
+      properties: {},
+      additionalProperties: false,
+    },
+    execute: async (): Promise<ToolExecutionResult<PushScheduleResult>> => {
+      const details = await executeList(api.config, scheduler);
+      return {
+        content: [{ type: 'text', text: formatListText(details) }],
+        details,
+      };
+    },
+  };
+
+  const cancelTool: OpenClawAgentTool<unknown, PushScheduleResult> = {
+    name: 'push_scheduled_cancel',
+    label: 'Cancel Scheduled Notification',
+    description: 'Cancel a scheduled push notification by the id returned from the push tool or push_scheduled_list.',
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        id: {
+          type: 'string' as const,
+          description: 'ID of the scheduled notification',
+        },
+      },
+      required: ['id'],
+      additionalProperties: false,
+    },
+    execute: async (_toolCallId: string, input: unknown): Promise<ToolExecutionResult<PushScheduleResult>> => {
+      // Validate input
+      const { params, error } = parseToolInput(CancelSchema, input);
+
+      const details: PushScheduleResult = params
+        ? await executeCancel(params, api.config, scheduler)
+        : { success: false, code: 'INVALID_INPUT', error };
+      return {
+        content: [{ type: 'text', text: formatCancelText(details) }],
+        details,
+      };
+    },
+  };
+
+  api.registerTool(listTool);
+  api.registerTool(cancelTool);
+}
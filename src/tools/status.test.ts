@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { OpenClawAgentTool, PushPluginApiConfig, PushStatusResult } from '../types';
+import { registerPushStatusTool } from './status';
+
+type StatusTool = OpenClawAgentTool<unknown, PushStatusResult>;
+
+const originalFetch = globalThis.fetch;
+
+function createRegisteredTool(config: PushPluginApiConfig): StatusTool {
+  let tool: StatusTool | undefined;
+  registerPushStatusTool({
+    config,
+    registerTool: (registeredTool) => {
+      tool = registeredTool;
+    },
+  });
+  if (!tool) {
+    throw new Error('Push status tool was not registered');
+  }
+  return tool;
+}
+
+const httpConfig: PushPluginApiConfig = {
+  plugins: {
+    entries: {
+      'push-notification': { config: { backendUrl: 'https://notify.example/', apiKey: 'secret-key' } },
+    },
+  },
+};
+
+describe('push_status tool', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('registers tool metadata in OpenClaw format', () => {
+    const tool = createRegisteredTool(httpConfig);
+
+    expect(tool.name).toBe('push_status');
+    expect(tool.parameters).toMatchObject({ type: 'object', required: ['receiptId'], additionalProperties: false });
+  });
+
+  it('looks up the receipt on the relay backend', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ status: 'failed', reason: 'MessageRateExceeded' }), { status: 200 })
+    );
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await createRegisteredTool(httpConfig).execute('tool-call-1', { receiptId: 'receipt/1' });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://notify.example/api/notifications/receipts/receipt%2F1');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret-key' });
+    expect(result.details).toEqual({
+      success: true,
+      receiptId: 'receipt/1',
+      state: 'failed',
+      reason: 'MessageRateExceeded',
+    });
+    expect(result.content[0]?.text).toContain('MessageRateExceeded');
+  });
+
+  it('tells the agent to use another channel when the device is unregistered', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ status: 'unregistered' }), { status: 200 })) as unknown as typeof fetch;
+
+    const result = await createRegisteredTool(httpConfig).execute('tool-call-1', { receiptId: 'receipt-1' });
+
+    expect(result.details.state).toBe('unregistered');
+    expect(result.content[0]?.text).toContain('another channel');
+  });
+
+  it('returns a structured failure for unknown receipts', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ error: 'Receipt not found' }), { status: 404 })) as unknown as typeof fetch;
+
+    const result = await createRegisteredTool(httpConfig).execute('tool-call-1', { receiptId: 'missing' });
+
+    expect(result.details).toMatchObject({ success: false, receiptId: 'missing' });
+    expect(result.details.error).toContain('Receipt not found');
+  });
+
+  it('looks up the receipt on the failover backend that delivered the notification', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ status: 'delivered' }), { status: 200 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const tool = createRegisteredTool({
+      plugins: {
+        entries: {
+          'push-notification': {
+            config: {
+              backendUrl: 'https://primary.example',
+              failover: { backends: [{ name: 'secondary', backendUrl: 'https://secondary.example' }] },
+            },
+          },
+        },
+      },
+    });
+
+    const result = await tool.execute('tool-call-1', { receiptId: 'receipt-2', deliveredBy: 'secondary' });
+    const removed = await tool.execute('tool-call-2', { receiptId: 'receipt-2', deliveredBy: 'tertiary' });
+
+    expect(fetchMock.mock.calls.map(([url]) => new URL(url).host)).toEqual(['secondary.example']);
+    expect(result.details).toMatchObject({ success: true, state: 'delivered' });
+    expect(removed.details).toMatchObject({ success: false, code: 'NOT_CONFIGURED', error: 'Backend "tertiary" is no longer configured' });
+  });
+
+  it('returns a structured failure when plugin is disabled', async () => {
+    const tool = createRegisteredTool({
+      plugins: { entries: { 'push-notification': { enabled: false, config: { backendUrl: 'https://notify.example' } } } },
+    });
+
+    const result = await tool.execute('tool-call-1', { receiptId: 'receipt-1' });
+
+    expect(result.details).toMatchObject({ success: false, error: 'Push notification plugin is disabled' });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Push Status Tool for OpenClaw
+ *
+ * Lets agents check whether a notification sent with `push` actually reached
+ * the user's device, using the receipt ID from the push result. The agent can
+ * then react, e.g. re-send through another channel when the device is gone.
+ */
+
+import { z } from 'zod';
+import { resolveEnabledPushConfig } from '../config';
+import { describeRetryAdvice, parseToolInput } from '../errors';
+import { resolveDeliveringBackend } from '../failover';
+import { resolvePayloadBackend } from '../recipients';
+import { withRequestTimeout } from '../retry';
+import type {
+  OpenClawAgentTool,
+  PushPluginApiConfig,
+  PushStatusResult,
+  ToolExecutionResult,
+} from '../types';
+
+const PushStatusSchema = z.object({
+  receiptId: z.string().min(1).describe('Receipt ID returned by the push tool'),
+  recipient: z.string().min(1).optional().describe('Recipient the notification was sent to, for recipients with their own backend'),
+  profile: z.string().min(1).optional().describe('Config profile the notification was sent with'),
+  deliveredBy: z.string().min(1).optional().describe('Failover backend that delivered the notification'),
+});
+
+type PushStatusInput = z.infer<typeof PushStatusSchema>;
+
+function formatToolText(result: PushStatusResult): string {
+  if (!result.success) {
+    return `Push status lookup failed: ${result.error ?? 'Unknown error'}. ${describeRetryAdvice(result.code)}`;
+  }
+  switch (result.state) {
+    case 'pending':
+      return 'Push notification delivery is still pending. Check again later.';
+    case 'delivered':
+      return 'Push notification was delivered.';
+    case 'unregistered':
+      return 'Push notification was not delivered: the device is no longer registered. Reach the user through another channel.';
+    default:
+      return `Push notification delivery failed: ${result.reason ?? 'Unknown reason'}`;
+  }
+}
+
+async function executePushStatus(
+  params: PushStatusInput,
+  config: PushPluginApiConfig,
+  signal?: AbortSignal
+): Promise<PushStatusResult> {
+  const { config: pluginConfig, error: configError, code } = resolveEnabledPushConfig(config, params.profile);
+  if (!pluginConfig) {
+    return { success: false, receiptId: params.receiptId, error: configError, code };
+  }
+
+  // With failover the receipt belongs to the backend that delivered the notification.
+  // A recipient's notifications only go through the recipient's backend.
+  const { backend, error } =
+    params.recipient === undefined
+      ? resolveDeliveringBackend(pluginConfig, params.deliveredBy)
+      : resolvePayloadBackend(pluginConfig, { recipient: params.recipient });
+  if (!backend) {
+    return { success: false, receiptId: params.receiptId, error, code: 'NOT_CONFIGURED' };
+  }
+
+  const { getStatus } = backend;
+  if (!getStatus) {
+    return {
+      success: false,
+      receiptId: params.receiptId,
+      error: `The "${backend.name}" backend does not support delivery receipts`,
+      code: 'NOT_SUPPORTED',
+    };
+  }
+
+  return withRequestTimeout((requestSignal) => getStatus(params.receiptId, requestSignal), pluginConfig.requestTimeoutMs, signal);
+}
+
+/**
+ * Register the push status tool with OpenClaw
+ */
+export function registerPushStatusTool(api: {
+  registerTool: (
+    tool: OpenClawAgentTool<unknown, PushStatusResult>,
+    opts?: { name?: string; names?: string[]; optional?: boolean }
+  ) => void;
+  config: PushPluginApiConfig;
+}): void {
+  const tool: OpenClawAgentTool<unknown, PushStatusResult> = {
+    name: 'push_status',
+    label: 'Push Notification Status',
+    description: `Check the delivery state of a push notification sent with the push tool.
+Pass the receipt ID from the push result (and the recipient, profile or deliveredBy from the result, for notifications sent with to,
+with a profile or through a failover backend). The state is one of:
+- pending: not confirmed yet, check again later
+- delivered: handed to the device's push service
+- failed: delivery failed (see reason)
+- unregistered: the device no longer accepts notifications; use another channel`,
+    parameters: {
+      type: 'object' as const,
+      properties: {
+        receiptId: {
+          type: 'string' as const,
+          description: 'Receipt ID returned by the push tool',
+        },
+        recipient: {
+          type: 'string' as const,
+          description: 'Recipient name from the push result when the notification was sent with to',
+        },
+        profile: {
+          type: 'string' as const,
+          description: 'Config profile the notification was sent with, if not the default',
+        },
+        deliveredBy: {
+          type: 'string' as const,
+          description: 'deliveredBy from the push result when a failover backend delivered the notification',
+        },
+      },
+      required: ['receiptId'],
+      additionalProperties: false,
+    },
+    execute: async (
+      _toolCallId: string,
+      input: unknown,
+      signal?: AbortSignal
+    ): Promise<ToolExecutionResult<PushStatusResult>> => {
+      // Validate input
+      const { params, error } = parseToolInput(PushStatusSchema, input);
+
+      const details: PushStatusResult = params
+        ? await executePushStatus(params, api.config, signal)
+        : { success: false, code: 'INVALID_INPUT', error };
+      return {
+        content: [{ type: 'text', text: formatToolText(details) }],
+        details,
+      };
+    },
+  };
+
+  api.registerTool(tool);
+}
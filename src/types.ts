@@ -2,35 +2,758 @@
  * Types for the OpenClaw Push Notification Plugin
  */
 
+/**
+ * Delivery backends bundled with the plugin.
+ * - "http": POST to a self-hosted relay at `${backendUrl}/api/notifications/send` (default)
+ * - "expo": talk to the Expo Push API directly using configured Expo push tokens
+ */
+export type PushBackendName = 'http' | 'expo' | 'slack' | 'discord' | 'ntfy' | 'webhook' | 'webpush';
+
+export interface ExpoBackendConfig {
+  /** Expo push tokens, e.g. "ExponentPushToken[xxxxxxxx]" */
+  tokens: string[];
+  /** Expo access token, required when enhanced push security is enabled */
+  accessToken?: string;
+  /** Base URL of the Expo push service. Defaults to https://exp.host */
+  baseUrl?: string;
+}
+
+export interface SlackBackendConfig {
+  /** Incoming webhook URL, https://hooks.slack.com/services/... */
+  webhookUrl: string;
+  /** Prepended to high priority notifications, e.g. "<!here>" or "<@U123>" */
+  highPriorityMention?: string;
+}
+
+export interface DiscordBackendConfig {
+  /** Channel webhook URL, https://discord.com/api/webhooks/... */
+  webhookUrl: string;
+  /** Overrides the webhook's default username */
+  username?: string;
+  /** Prepended to high priority notifications, e.g. "@here" or "<@123>" */
+  highPriorityMention?: string;
+}
+
+export interface NtfyBackendConfig {
+  topic: string;
+  /** Defaults to https://ntfy.sh */
+  baseUrl?: string;
+  /** Access token for protected topics */
+  accessToken?: string;
+  /** Tags (emoji shortcodes) added to every notification */
+  tags?: string[];
+}
+
+export interface WebhookBackendConfig {
+  url: string;
+  /** Defaults to POST */
+  method?: 'POST' | 'PUT';
+  headers?: Record<string, string>;
+  /**
+   * JSON body template. String values may contain `{{field}}` placeholders for
+   * payload fields; a string that is only a placeholder keeps the field's JSON
+   * type (e.g. "{{data}}" stays an object). Defaults to the payload itself.
+   */
+  body?: unknown;
+}
+
+/**
+ * A browser PushSubscription, as returned by `subscription.toJSON()`.
+ */
+export interface WebPushSubscription {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    /** Base64url P-256 public key of the browser */
+    p256dh: string;
+    /** Base64url 16-byte authentication secret */
+    auth: string;
+  };
+}
+
+export interface VapidConfig {
+  /** Base64url uncompressed P-256 public key (the applicationServerKey given to browsers) */
+  publicKey: string;
+  /** Base64url 32-byte private key */
+  privateKey: string;
+  /** Contact for push services, "mailto:" or "https:" URL */
+  subject: string;
+}
+
+export interface WebPushBackendConfig {
+  subscriptions: WebPushSubscription[];
+  vapid: VapidConfig;
+  /** Seconds a push service keeps an undelivered message. Defaults to one day */
+  ttlSeconds?: number;
+}
+
+/**
+ * HMAC request signing for the "http" backend.
+ */
+export interface SigningConfig {
+  /** Shared secret used for HMAC-SHA256 */
+  secret: string;
+  /** Sent in the key ID header so the backend knows which secret to check; defaults to "default" */
+  keyId?: string;
+}
+
+/**
+ * Retry policy for transient backend failures (5xx, 408, 429, network errors).
+ */
+export interface RetryConfig {
+  /** Total attempts including the first one. Set to 1 to disable retries. Defaults to 3 */
+  maxAttempts?: number;
+  /** Backoff before the first retry, doubled on each further retry. Defaults to 500 */
+  initialDelayMs?: number;
+  /** Upper bound for any single wait, including Retry-After. Defaults to 30000 */
+  maxDelayMs?: number;
+}
+
+/**
+ * A backend to fail over to. Fields left out are taken from the plugin-level
+ * settings, so a second relay only needs its `backendUrl`.
+ */
+export interface FailoverBackendConfig
+  extends Pick<
+    PushNotificationConfig,
+    'backend' | 'backendUrl' | 'apiKey' | 'signing' | 'expo' | 'slack' | 'discord' | 'ntfy' | 'webhook' | 'webpush'
+  > {
+  /** Shown in results and health, e.g. "secondary-relay" */
+  name: string;
+}
+
+/**
+ * Backends tried in order when the plugin-level one fails, each behind a
+ * circuit breaker.
+ */
+export interface FailoverConfig {
+  backends?: FailoverBackendConfig[];
+  /** Consecutive failures that open a backend's circuit. Defaults to 3 */
+  failureThreshold?: number;
+  /** Seconds an open circuit skips the backend before a single probe is let through. Defaults to 60 */
+  cooldownSeconds?: number;
+}
+
+/**
+ * Health of a backend in the failover chain, kept in memory by the process.
+ */
+export interface BackendHealth {
+  /** "primary" for the plugin-level backend, else the failover entry's name */
+  name: string;
+  /** Config profile the backend belongs to; each profile has its own circuits */
+  profile?: string;
+  /** "open" skips the backend until `openUntil`; "half_open" while the probe after the cooldown is in flight */
+  state: 'closed' | 'open' | 'half_open';
+  consecutiveFailures: number;
+  openUntil?: string;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+}
+
+/**
+ * Opt-in persistent outbox for notifications that could not be delivered.
+ */
+export interface OutboxConfig {
+  enabled?: boolean;
+  /** Queue file. Defaults to ~/.openclaw/push-notification/outbox.json */
+  path?: string;
+  /** Entries older than this are dead-lettered instead of sent. Defaults to 86400 (24h) */
+  maxAgeSeconds?: number;
+  /** Flush attempts before an entry is dead-lettered. Defaults to 10 */
+  maxAttempts?: number;
+}
+
+/**
+ * Storage for notifications scheduled with `sendAt` / `delaySeconds`.
+ */
+export interface SchedulerConfig {
+  /** Schedule file. Defaults to ~/.openclaw/push-notification/scheduled.json */
+  path?: string;
+}
+
+/**
+ * Opt-in batching of routine notifications into periodic summaries. A
+ * notification is digested when it matches any of the rules, or when the
+ * agent asks for it; high priority notifications are always sent right away.
+ */
+export interface DigestConfig {
+  enabled?: boolean;
+  /** Buffer file. Defaults to ~/.openclaw/push-notification/digest.json */
+  path?: string;
+  /** Seconds from the first buffered notification until the summary is sent. Defaults to 3600 */
+  intervalSeconds?: number;
+  /** Buffered notifications that trigger the summary right away. Defaults to 20 */
+  maxItems?: number;
+  /** Priorities to digest. Defaults to ["low"] */
+  priorities?: Array<Exclude<PushPriority, 'high'>>;
+  /** Digest every notification from these agents */
+  agentIds?: string[];
+  /** Digest every notification from these jobs */
+  jobIds?: string[];
+}
+
+/**
+ * Opt-in send counters and latency histogram, kept in a JSON file so the
+ * `push-notification:metrics` CLI can print them from another process.
+ */
+export interface MetricsConfig {
+  enabled?: boolean;
+  /** Metrics file. Defaults to ~/.openclaw/push-notification/metrics.json */
+  path?: string;
+}
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+/**
+ * Opt-in structured logs: one JSON line per send on stderr. Messages and data
+ * are never logged; titles and errors are masked with the redaction rules.
+ */
+export interface LoggingConfig {
+  enabled?: boolean;
+  /** Lowest level written: sent and suppressed sends are "info", queued "warn", failed "error". Defaults to "info" */
+  level?: LogLevel;
+}
+
+/**
+ * Opt-in local record of sent notifications, as JSON lines.
+ */
+export interface HistoryConfig {
+  enabled?: boolean;
+  /** History file. Defaults to ~/.openclaw/push-notification/history.jsonl */
+  path?: string;
+  /** Size at which the file is rotated. Defaults to 5 MB */
+  maxFileBytes?: number;
+  /** Rotated files kept next to the current one. Defaults to 3 */
+  maxFiles?: number;
+}
+
+/**
+ * How `ask_user` learns which button the user pressed.
+ */
+export interface InteractiveConfig {
+  /**
+   * "poll" asks the http backend (GET /api/notifications/responses/:responseId);
+   * "callback" runs a local listener the device posts the choice to.
+   * Defaults to "callback" when `callback` is set, otherwise "poll".
+   */
+  mode?: 'poll' | 'callback';
+  /** Defaults to 2000 */
+  pollIntervalMs?: number;
+  /** How long ask_user waits for an answer unless the agent says otherwise. Defaults to 300 */
+  timeoutSeconds?: number;
+  callback?: {
+    port: number;
+    /** Interface to listen on. Defaults to 127.0.0.1 */
+    host?: string;
+    /** Base URL devices use to reach the listener, e.g. through a tunnel. Defaults to http://host:port */
+    publicUrl?: string;
+  };
+}
+
+/**
+ * What happens when a redaction rule matches:
+ * - "mask": replace the match before sending
+ * - "block": send nothing (code REDACTION_BLOCKED)
+ * - "warn": send unchanged, but report the match
+ */
+export type RedactionAction = 'mask' | 'block' | 'warn';
+
+export type RedactionDetector = 'privateKey' | 'jwt' | 'awsKey' | 'apiKey' | 'connectionString' | 'email' | 'cardNumber';
+
+export interface RedactionRule {
+  /** Reported in results, e.g. "employee-id" */
+  name: string;
+  /** JavaScript regular expression source */
+  pattern: string;
+  /** Regular expression flags; "g" is always added */
+  flags?: string;
+  /** Defaults to "mask" */
+  action?: RedactionAction;
+}
+
+/**
+ * Scanning of notification text for secrets and personal data before it
+ * leaves the machine. On by default, with every detector masking.
+ */
+export interface RedactionConfig {
+  /** Defaults to true */
+  enabled?: boolean;
+  /** Action per built-in detector, or "off" to disable it. Each defaults to "mask" */
+  detectors?: Partial<Record<RedactionDetector, RedactionAction | 'off'>>;
+  /** Custom rules, applied after the detectors */
+  rules?: RedactionRule[];
+}
+
+/**
+ * Matches of one rule in one payload field.
+ */
+export interface PushRedaction {
+  /** Detector or custom rule name */
+  rule: string;
+  action: RedactionAction;
+  /** "title", "message", "subtitle", "url" or a data path such as "data.db.password" */
+  field: string;
+  count: number;
+}
+
+export type PushPriority = 'low' | 'normal' | 'high';
+
+/**
+ * A button on an interactive notification.
+ */
+export interface PushAction {
+  /** Reported back as the user's choice */
+  id: string;
+  title: string;
+  /** Shown as destructive (e.g. red) where the platform supports it */
+  destructive?: boolean;
+}
+
+/**
+ * The buttons of an interactive notification. Apps register categories by
+ * `id` (iOS notification categories, Expo `categoryId`); `actions` lets them
+ * do so from the payload.
+ */
+export interface PushCategory {
+  id: string;
+  actions: PushAction[];
+}
+
+/**
+ * Token bucket: holds up to `capacity` sends and regains `refillPerMinute` per minute.
+ */
+export interface TokenBucketConfig {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitScopes {
+  /** Shared by every agent and job */
+  global?: TokenBucketConfig;
+  /** One bucket per agent ID */
+  perAgent?: TokenBucketConfig;
+  /** One bucket per job ID */
+  perJob?: TokenBucketConfig;
+}
+
+/**
+ * Limits for agent-initiated sends. Scopes set under `priorities` replace the
+ * default scope of the same name, with separate buckets for that priority.
+ */
+export interface RateLimitConfig extends RateLimitScopes {
+  priorities?: Partial<Record<PushPriority, RateLimitScopes>>;
+}
+
+/**
+ * Suppress notifications whose title and message match one sent within the window.
+ * - "suppress": drop the duplicate
+ * - "count": drop the duplicate and report how many were dropped on the next
+ *   matching notification sent after the window
+ */
+export interface DedupConfig {
+  windowSeconds: number;
+  action?: 'suppress' | 'count';
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/**
+ * A quiet period in local time. When `end` is earlier than `start` the window
+ * runs past midnight; `days` then names the day the window starts on.
+ */
+export interface QuietHoursWindow {
+  /** "HH:MM", 24-hour clock */
+  start: string;
+  /** "HH:MM", 24-hour clock */
+  end: string;
+  /** Defaults to every day */
+  days?: Weekday[];
+}
+
+export type QuietHoursAction = 'send' | 'defer' | 'drop';
+
+/**
+ * Do-not-disturb settings checked before sending.
+ */
+export interface QuietHoursConfig {
+  /** IANA time zone the windows are expressed in, e.g. "Europe/Berlin". Defaults to UTC */
+  timeZone?: string;
+  windows: QuietHoursWindow[];
+  /** What to do with each priority during quiet hours. Defaults: low "drop", normal "defer", high "send" */
+  actions?: Partial<Record<PushPriority, QuietHoursAction>>;
+}
+
+/**
+ * A named recipient for the `to` parameter. Fields left out fall back to the
+ * plugin-level settings.
+ */
+export interface PushRecipientConfig {
+  backend?: PushBackendName;
+  /** http backend: relay URL for this recipient */
+  backendUrl?: string;
+  /** http backend: key the relay uses to find this recipient's devices */
+  routingKey?: string;
+  /** expo backend: this recipient's Expo push tokens */
+  tokens?: string[];
+  /** webpush backend: this recipient's browser subscriptions */
+  subscriptions?: WebPushSubscription[];
+}
+
+export type TemplateVariableType = 'string' | 'number' | 'boolean';
+
+export interface TemplateVariableConfig {
+  /** Defaults to "string" */
+  type?: TemplateVariableType;
+  description?: string;
+  /** Used when the variable is not passed; variables without a default are required */
+  default?: string | number | boolean;
+}
+
+/**
+ * A named notification template. `title` and `body` may contain
+ * `{{variable}}` placeholders; placeholders not listed in `variables` are
+ * required strings.
+ */
+export interface PushTemplateConfig {
+  description?: string;
+  title?: string;
+  body: string;
+  priority?: PushPriority;
+  data?: Record<string, unknown>;
+  variables?: Record<string, TemplateVariableConfig>;
+}
+
 export interface PushNotificationConfig {
-  backendUrl: string;
+  backend?: PushBackendName;
+  backendUrl?: string;
   apiKey?: string;
+  signing?: SigningConfig;
   defaultTitle?: string;
   enabled?: boolean;
+  expo?: ExpoBackendConfig;
+  slack?: SlackBackendConfig;
+  discord?: DiscordBackendConfig;
+  ntfy?: NtfyBackendConfig;
+  webhook?: WebhookBackendConfig;
+  webpush?: WebPushBackendConfig;
+  failover?: FailoverConfig;
+  retry?: RetryConfig;
+  /** Milliseconds each backend request may take before it is aborted (and retried). Defaults to 10000 */
+  requestTimeoutMs?: number;
+  outbox?: OutboxConfig;
+  scheduler?: SchedulerConfig;
+  digest?: DigestConfig;
+  progress?: ProgressConfig;
+  history?: HistoryConfig;
+  metrics?: MetricsConfig;
+  logging?: LoggingConfig;
+  interactive?: InteractiveConfig;
+  redaction?: RedactionConfig;
+  rateLimit?: RateLimitConfig;
+  dedup?: DedupConfig;
+  quietHours?: QuietHoursConfig;
+  recipients?: Record<string, PushRecipientConfig>;
+  /** Named lists of recipients, e.g. { "team": ["alice", "bob"] } */
+  groups?: Record<string, string[]>;
+  templates?: Record<string, PushTemplateConfig>;
+  /** Named sets of settings, e.g. "staging" or "prod", selected with the push tool's `profile` parameter */
+  profiles?: Record<string, PushProfileConfig>;
+  /** Profile used when the agent does not pick one */
+  defaultProfile?: string;
 }
 
-export interface PushNotificationInput {
-  message: string;
+/**
+ * Settings a profile replaces when it is selected; everything else comes
+ * from the plugin-level config.
+ */
+export type PushProfileConfig = Pick<
+  PushNotificationConfig,
+  | 'backend'
+  | 'backendUrl'
+  | 'apiKey'
+  | 'signing'
+  | 'defaultTitle'
+  | 'expo'
+  | 'slack'
+  | 'discord'
+  | 'ntfy'
+  | 'webhook'
+  | 'webpush'
+  | 'failover'
+  | 'recipients'
+  | 'groups'
+>;
+
+/**
+ * Optional content beyond title and message. Backends map the fields they
+ * can; sending a field to a backend that cannot show it is an error.
+ */
+export interface PushRichContent {
+  /** Link or app deep link opened when the notification is tapped */
+  url?: string;
+  /** http(s) URL of an image shown with the notification */
+  imageUrl?: string;
+  subtitle?: string;
+  /** "default" or the name of a sound bundled with the app */
+  sound?: string;
+  /** App icon badge count; 0 clears it */
+  badge?: number;
+  /** Groups notifications into one thread (iOS thread-id, Web Push tag) */
+  threadId?: string;
+  /** A newer notification with the same key replaces an undelivered older one */
+  collapseKey?: string;
+  /** Seconds the push service keeps trying to deliver; 0 means deliver now or never */
+  ttlSeconds?: number;
+  /** Android notification channel */
+  channelId?: string;
+}
+
+export type PushContentField = keyof PushRichContent;
+
+export interface PushNotificationInput extends PushRichContent {
+  /** Required unless `template` is given */
+  message?: string;
   title?: string;
   data?: Record<string, unknown>;
-  priority?: 'low' | 'normal' | 'high';
+  priority?: PushPriority;
+  idempotencyKey?: string;
+  /** ISO 8601 timestamp to deliver at instead of now */
+  sendAt?: string;
+  /** Deliver after this many seconds instead of now */
+  delaySeconds?: number;
+  /** Recipient or group names from the plugin config */
+  to?: string | string[];
+  /** Name of a configured template to render instead of `message` */
+  template?: string;
+  variables?: Record<string, string | number | boolean>;
+  /** Buttons shown with the notification */
+  actions?: PushAction[];
+  /** Category ID for the buttons; derived from the action IDs when omitted */
+  categoryId?: string;
+  /** true adds the notification to the digest, false sends it right away */
+  digest?: boolean;
+  /** Config profile to send with; defaults to `defaultProfile` */
+  profile?: string;
 }
 
-export interface PushNotificationPayload {
+export interface PushNotificationPayload extends PushRichContent {
   message: string;
   title: string;
   data: Record<string, unknown>;
-  priority: 'low' | 'normal' | 'high';
+  priority: PushPriority;
   jobId?: string;
   agentId?: string;
   timestamp: string;
+  /** Stable per logical notification; identical across retries so the backend can drop duplicates */
+  idempotencyKey: string;
+  /** Name of the configured recipient, when sent with `to` */
+  recipient?: string;
+  /** The recipient's routing key for the relay, when configured */
+  routingKey?: string;
+  /** Config profile it is sent with, so deferred deliveries use the same one */
+  profile?: string;
+  /** The OpenClaw session that sent the notification, so the backend can route to its user and link back to the conversation */
+  origin?: Pick<ToolExecutionContext, 'sessionId' | 'channelId' | 'userId'>;
+  /** Buttons to show with the notification */
+  category?: PushCategory;
+  /** Set by ask_user: identifies the answer the device reports back */
+  responseId?: string;
+  /** Set by ask_user in callback mode: where the device POSTs the chosen action */
+  responseUrl?: string;
+}
+
+/**
+ * Per-device outcome reported by backends that address devices directly (e.g. Expo).
+ */
+export interface PushTicket {
+  token: string;
+  status: 'ok' | 'error';
+  id?: string;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Why a send or lookup failed; set on every failure result.
+ * - DISABLED, NOT_CONFIGURED: the plugin or backend needs configuration
+ * - INVALID_INPUT, INVALID_TEMPLATE, UNSUPPORTED_CONTENT, REDACTION_BLOCKED: the agent's input
+ * - DUPLICATE, RATE_LIMITED, QUIET_HOURS: suppressed on purpose (RATE_LIMITED also for backend 429s)
+ * - TIMEOUT, CANCELLED, NETWORK: the request did not complete
+ * - AUTH, BACKEND_4XX, BACKEND_5XX: the backend answered with an error
+ * - BACKEND_UNAVAILABLE: every usable backend's circuit is open
+ * - DEVICE_UNREGISTERED: every target device is gone
+ * - NOT_SUPPORTED: the backend lacks the feature, e.g. delivery receipts
+ * - PARTIAL_FAILURE: some of the recipients of `to` failed
+ * - STORAGE_ERROR: a scheduled or digested notification could not be stored
+ */
+export type PushErrorCode =
+  | 'DISABLED'
+  | 'NOT_CONFIGURED'
+  | 'NOT_SUPPORTED'
+  | 'INVALID_INPUT'
+  | 'INVALID_TEMPLATE'
+  | 'UNSUPPORTED_CONTENT'
+  | 'REDACTION_BLOCKED'
+  | 'DUPLICATE'
+  | 'RATE_LIMITED'
+  | 'QUIET_HOURS'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'NETWORK'
+  | 'AUTH'
+  | 'BACKEND_4XX'
+  | 'BACKEND_5XX'
+  | 'BACKEND_UNAVAILABLE'
+  | 'DEVICE_UNREGISTERED'
+  | 'PARTIAL_FAILURE'
+  | 'STORAGE_ERROR';
+
+/**
+ * Outcome for one recipient of a notification sent with `to`.
+ */
+export interface PushRecipientResult {
+  recipient: string;
+  success: boolean;
+  error?: string;
+  code?: PushErrorCode;
+  tickets?: PushTicket[];
+  attempts?: number;
+  receiptId?: string;
+  outboxId?: string;
+  scheduledId?: string;
+  digest?: PushDigestResult;
 }
 
 export interface PushNotificationResult {
   success: boolean;
   result?: unknown;
   error?: string;
-  code?: string;
+  code?: PushErrorCode;
+  tickets?: PushTicket[];
+  attempts?: number;
+  /**
+   * Receipt to pass to `push_status`. For the Expo backend this lists the
+   * Expo ticket IDs, comma-separated.
+   */
+  receiptId?: string;
+  /** Set when a failed notification was stored in the outbox for later delivery */
+  outboxId?: string;
+  /** Set when the notification was scheduled instead of sent */
+  scheduledId?: string;
+  sendAt?: string;
+  /**
+   * Set when nothing was sent on purpose (code RATE_LIMITED, DUPLICATE or QUIET_HOURS).
+   * The agent should not retry.
+   */
+  suppressed?: 'rate_limited' | 'duplicate' | 'quiet_hours';
+  /** Set when the notification fell into quiet hours: what was done and when they end */
+  quietHours?: { action: 'sent' | 'deferred' | 'dropped'; until: string };
+  /** Rate limited: seconds until the limiting bucket allows another send */
+  retryAfterSeconds?: number;
+  /** Duplicate: how many identical notifications were dropped in the current window */
+  duplicateCount?: number;
+  /** Sent with `to`: one entry per recipient; `success` is true only when all succeeded */
+  recipients?: PushRecipientResult[];
+  /** Secrets or personal data found in the notification, and what was done about them */
+  redactions?: PushRedaction[];
+  /** Set when the notification was added to the digest instead of sent */
+  digest?: PushDigestResult;
+  /** With failover: name of the backend that delivered the notification */
+  deliveredBy?: string;
+  /** With failover: each backend in the chain that was tried or skipped, in order */
+  backends?: PushBackendAttempt[];
+}
+
+/**
+ * What happened with one backend of the failover chain.
+ */
+export interface PushBackendAttempt {
+  name: string;
+  backend?: PushBackendName;
+  status: 'sent' | 'failed' | 'skipped';
+  /** Why it failed or was skipped, e.g. "circuit open until ..." */
+  error?: string;
+}
+
+/**
+ * How a send ended: delivered, failed, queued in the outbox, or not attempted
+ * on purpose (duplicate, rate limit, quiet hours or a blocked secret).
+ */
+export type PushSendOutcome = 'sent' | 'failed' | 'queued' | 'suppressed';
+
+/**
+ * A notification about to go to its backend, passed to `beforeSend` hooks.
+ */
+export interface PushSendStartEvent {
+  /** The payload as it will be sent, after redaction; `recipient` is set when sent with `to` */
+  payload: PushNotificationPayload;
+  backend: PushBackendName;
+}
+
+/**
+ * A finished (or suppressed) send, passed to `afterSend` hooks.
+ */
+export interface PushSendEvent extends PushSendStartEvent {
+  outcome: PushSendOutcome;
+  result: PushNotificationResult;
+  /** Time spent sending, including retries; not set for suppressed sends */
+  latencyMs?: number;
+}
+
+/**
+ * Where a digested notification went.
+ */
+export interface PushDigestResult {
+  /** ID of the buffered entry */
+  id: string;
+  /** Notifications in the summary, this one included */
+  count: number;
+  /** When the summary is (or was) sent */
+  sendAt: string;
+  /** The buffer was full, so the summary went out with this notification */
+  sent?: boolean;
+}
+
+/**
+ * Result returned by a backend for a single attempt.
+ * `retry` is set when the failure is transient and the send may be retried.
+ */
+export interface PushBackendResult extends PushNotificationResult {
+  retry?: {
+    /** Delay requested by the backend via Retry-After */
+    afterMs?: number;
+  };
+}
+
+/**
+ * A user's answer to an interactive notification, as reported by a backend.
+ */
+export interface PushResponseResult {
+  success: boolean;
+  /** "pending" until the user presses a button */
+  state?: 'pending' | 'answered';
+  action?: string;
+  respondedAt?: string;
+  error?: string;
+}
+
+/**
+ * Result of `ask_user`.
+ */
+export interface PushAskResult {
+  success: boolean;
+  /** ID of the button the user pressed */
+  action?: string;
+  actionTitle?: string;
+  respondedAt?: string;
+  /** No answer arrived in time; treat as no consent */
+  timedOut?: boolean;
+  responseId?: string;
+  receiptId?: string;
+  redactions?: PushRedaction[];
+  error?: string;
+  code?: PushErrorCode;
 }
 
 export interface PushNotificationResponse {
@@ -41,6 +764,223 @@ export interface PushNotificationResponse {
   code?: string;
 }
 
+/**
+ * A device registered with the reference server (`src/server`).
+ */
+export interface PushServerDevice {
+  /** Expo push token, e.g. "ExponentPushToken[xxxxxxxx]" */
+  token: string;
+  /** Notifications carrying this routing key go to the device; devices without one get notifications without one */
+  routingKey?: string;
+  /** Free-form label, e.g. "Pixel 8" */
+  name?: string;
+  registeredAt: string;
+}
+
+/**
+ * A send recorded by the reference server, looked up by receipt ID and by
+ * idempotency key.
+ */
+export interface PushServerReceipt {
+  id: string;
+  idempotencyKey: string;
+  createdAt: string;
+  /** Expo tickets per device */
+  tickets: PushTicket[];
+}
+
+/**
+ * The action a user chose on an `ask_user` notification, as stored by the
+ * reference server.
+ */
+export interface PushServerAnswer {
+  responseId: string;
+  action: string;
+  respondedAt: string;
+}
+
+/**
+ * Notification waiting in the scheduler for its delivery time.
+ */
+export interface ScheduledNotification {
+  id: string;
+  sendAt: string;
+  createdAt: string;
+  payload: PushNotificationPayload;
+}
+
+/**
+ * Notification waiting in the digest buffer for the next summary.
+ */
+export interface DigestEntry {
+  id: string;
+  bufferedAt: string;
+  payload: PushNotificationPayload;
+}
+
+/** Stages of a progress notification, from push_progress. */
+export type PushProgressStage = 'start' | 'update' | 'finish';
+
+/**
+ * Progress notifications (push_progress). Updates for one job are sent at
+ * most once per interval; the latest is held until the interval is up.
+ */
+export interface ProgressConfig {
+  /** Minimum seconds between two updates for the same job. Defaults to 30 */
+  minIntervalSeconds?: number;
+}
+
+/**
+ * Result of the push_progress tool.
+ */
+export interface PushProgressResult {
+  success: boolean;
+  /** Job or session the notification belongs to */
+  progressId?: string;
+  stage?: PushProgressStage;
+  /** The update was held back by the throttle and goes out at sendAt, unless a newer one replaces it */
+  throttled?: boolean;
+  sendAt?: string;
+  receiptId?: string;
+  redactions?: PushRedaction[];
+  error?: string;
+  code?: PushErrorCode;
+}
+
+/**
+ * Result of the push_scheduled_list and push_scheduled_cancel tools.
+ */
+export interface PushScheduleResult {
+  success: boolean;
+  scheduled?: Array<Pick<ScheduledNotification, 'id' | 'sendAt'> & Pick<PushNotificationPayload, 'title' | 'message' | 'priority'>>;
+  cancelledId?: string;
+  error?: string;
+  code?: PushErrorCode;
+}
+
+/**
+ * Time source and timers, injectable so tests can use a fake clock.
+ */
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+/**
+ * Where a queued notification was headed when it failed.
+ */
+export interface OutboxTarget {
+  backend: PushBackendName;
+  backendUrl?: string;
+}
+
+/**
+ * Notification stored in the outbox. Dead entries are kept until purged.
+ */
+export interface OutboxEntry {
+  id: string;
+  status: 'pending' | 'dead';
+  payload: PushNotificationPayload;
+  target: OutboxTarget;
+  enqueuedAt: string;
+  attempts: number;
+  lastError?: string;
+  deadReason?: 'expired' | 'max_attempts' | 'rejected';
+}
+
+/**
+ * One delivery recorded in the history: the payload, where it went and how it ended.
+ */
+export interface PushHistoryRecord {
+  id: string;
+  /** When the send started */
+  sentAt: string;
+  payload: PushNotificationPayload;
+  target: OutboxTarget & { recipient?: string };
+  success: boolean;
+  receiptId?: string;
+  /** Time spent sending, including retries */
+  latencyMs: number;
+  attempts?: number;
+  error?: string;
+  code?: string;
+  outboxId?: string;
+}
+
+/**
+ * Filter for history queries. All given conditions must match.
+ */
+export interface PushHistoryQuery {
+  since?: Date;
+  until?: Date;
+  agentId?: string;
+  jobId?: string;
+  priority?: PushPriority;
+  success?: boolean;
+  recipient?: string;
+  /** Case-insensitive text to find in the title or message */
+  text?: string;
+  /** Newest records first, at most this many. Defaults to 20 */
+  limit?: number;
+}
+
+export interface PushHistoryResult {
+  success: boolean;
+  error?: string;
+  code?: PushErrorCode;
+  /** Newest first */
+  records?: PushHistoryRecord[];
+}
+
+/**
+ * Backend settings that come from the host rather than the plugin config.
+ */
+export interface PushBackendOptions {
+  /** Used for every request instead of the global fetch, e.g. to trace them */
+  fetch?: typeof fetch;
+}
+
+/**
+ * A delivery backend turns a payload into a send against a concrete service.
+ */
+export interface PushBackend {
+  name: PushBackendName;
+  send: (payload: PushNotificationPayload, signal?: AbortSignal) => Promise<PushBackendResult>;
+  /** Look up delivery state for a receipt ID returned by `send` */
+  getStatus?: (receiptId: string, signal?: AbortSignal) => Promise<PushStatusResult>;
+  /** Rich content fields this backend can deliver; others are rejected before sending. All when omitted */
+  contentFields?: readonly PushContentField[];
+  /** Look up the user's answer to an interactive notification */
+  getResponse?: (responseId: string, signal?: AbortSignal) => Promise<PushResponseResult>;
+}
+
+/**
+ * Delivery state of a sent notification as reported by the backend.
+ * - pending: accepted but not yet confirmed by the push service
+ * - delivered: handed to the device's push service
+ * - failed: delivery failed for the given reason
+ * - unregistered: the device token is no longer valid
+ */
+export type PushDeliveryState = 'pending' | 'delivered' | 'failed' | 'unregistered';
+
+export interface PushReceipt {
+  id: string;
+  state: PushDeliveryState;
+  reason?: string;
+}
+
+export interface PushStatusResult {
+  success: boolean;
+  receiptId?: string;
+  state?: PushDeliveryState;
+  reason?: string;
+  /** Individual receipts when the receipt ID covers several devices */
+  receipts?: PushReceipt[];
+  error?: string;
+  code?: PushErrorCode;
+}
+
 /**
  * Plugin entry under plugins.entries in openclaw.json
  */
@@ -69,7 +1009,8 @@ export interface PushPluginApiConfig {
 }
 
 /**
- * Tool execution context from OpenClaw
+ * Tool execution context from OpenClaw: who is calling the tool. Passed to
+ * tool factories once per session.
  */
 export interface ToolExecutionContext {
   agentId?: string;
@@ -78,6 +1019,23 @@ export interface ToolExecutionContext {
   userId?: string;
 }
 
+/**
+ * Minimal commander-style command shape used by the plugin CLI.
+ */
+export interface CliCommand {
+  description: (desc: string) => CliCommand;
+  option: (flags: string, desc: string) => CliCommand;
+  /** Commander passes positional arguments first, then the parsed options object */
+  action: (handler: (...args: unknown[]) => void | Promise<void>) => CliCommand | void;
+}
+
+/**
+ * Minimal commander-style program passed to registerCli.
+ */
+export interface CliProgram {
+  command: (name: string) => CliCommand;
+}
+
 /**
  * Minimal text payload shape expected by OpenClaw agent tools.
  */
@@ -104,3 +1062,11 @@ export interface OpenClawAgentTool<TParams = unknown, TDetails = unknown> {
   parameters: unknown;
   execute: (toolCallId: string, params: TParams, signal?: AbortSignal) => Promise<ToolExecutionResult<TDetails>>;
 }
+
+/**
+ * Tools that need to know who calls them are registered as factories, which
+ * OpenClaw calls with the context of each session.
+ */
+export type OpenClawAgentToolFactory<TParams = unknown, TDetails = unknown> = (
+  context: ToolExecutionContext
+) => OpenClawAgentTool<TParams, TDetails>;